@@ -0,0 +1,170 @@
+import {CodeLocation, RunResults, Violation} from "./results";
+import {getMessage} from "./messages";
+import {FileLinesReader, normalizeWhitespace, toAbsolutePath, toPortableFilePath} from "./utils";
+import crypto from "node:crypto";
+import fs from "node:fs";
+
+type BaselineEntry = {
+    engine: string
+    rule: string
+    file: string
+    line?: number
+    message: string
+    codeHash?: string
+}
+
+type BaselineContent = {
+    violations: BaselineEntry[]
+}
+
+export type BaselinePartition = {
+    newViolations: Violation[]
+    baselinedViolations: Violation[]
+}
+
+/**
+ * A baseline holds the violations that already existed at some point in time so that later runs can report them
+ * separately from new violations. Since code tends to move around as it is edited, a violation matches a baseline entry
+ * when it has the same engine, rule, file (relative to the run directory), and message and when the code on its primary
+ * line is unchanged, regardless of what line number that code is on now.
+ * Note that violations without a file (like those from unexpected engine errors) are never baselined.
+ */
+export class Baseline {
+    private readonly entries: BaselineEntry[];
+
+    public static fromRunResults(runResults: RunResults): Baseline {
+        const fileLinesReader: FileLinesReader = new FileLinesReader();
+        const entries: BaselineEntry[] = [];
+        for (const violation of runResults.getViolations()) {
+            const primaryLocation: CodeLocation = violation.getCodeLocations()[violation.getPrimaryLocationIndex()];
+            const file: string | undefined = primaryLocation.getFile();
+            if (!file) {
+                continue;
+            }
+            const line: number | undefined = primaryLocation.getStartLine();
+            entries.push({
+                engine: violation.getRule().getEngineName(),
+                rule: violation.getRule().getName(),
+                file: toPortableFilePath(file, runResults.getRunDirectory()),
+                line: line,
+                message: violation.getMessage(),
+                codeHash: line ? getCodeHash(fileLinesReader, file, line) : undefined
+            });
+        }
+        return new Baseline(entries);
+    }
+
+    public static fromFile(file: string): Baseline {
+        file = toAbsolutePath(file);
+        if (!fs.existsSync(file)) {
+            throw new Error(getMessage('BaselineFileDoesNotExist', file));
+        }
+        return Baseline.fromJsonString(fs.readFileSync(file, 'utf8'));
+    }
+
+    public static fromJsonString(jsonString: string): Baseline {
+        let data: unknown;
+        try {
+            data = JSON.parse(jsonString);
+        } catch (err) {
+            throw new Error(getMessage('BaselineContentFailedToParse', (err as Error).message), { cause: err });
+        }
+        if (!isValidBaselineContent(data)) {
+            throw new Error(getMessage('BaselineContentInvalid'));
+        }
+        return new Baseline(data.violations);
+    }
+
+    private constructor(entries: BaselineEntry[]) {
+        this.entries = entries;
+    }
+
+    public getViolationCount(): number {
+        return this.entries.length;
+    }
+
+    public toJsonString(): string {
+        const content: BaselineContent = {violations: this.entries};
+        return JSON.stringify(content, undefined, 2);
+    }
+
+    public writeToFile(file: string): void {
+        fs.writeFileSync(toAbsolutePath(file), this.toJsonString(), 'utf8');
+    }
+
+    /**
+     * Splits the violations into the ones that are new and the ones that are already in the baseline. Each baseline
+     * entry can match at most one violation, so when there are more matching violations than entries (like when code
+     * is copied), the violations that are closest to the lines of the entries are the ones that are baselined.
+     */
+    public partitionViolations(violations: Violation[], runDir: string): BaselinePartition {
+        const entriesByKey: Map<string, BaselineEntry[]> = new Map();
+        for (const entry of this.entries) {
+            const key: string = toMatchKey(entry.engine, entry.rule, entry.file, entry.message);
+            entriesByKey.set(key, [...(entriesByKey.get(key) || []), entry]);
+        }
+
+        const fileLinesReader: FileLinesReader = new FileLinesReader();
+        const possibleMatches: {violationIndex: number, entry: BaselineEntry, lineDistance: number}[] = [];
+        violations.forEach((violation, violationIndex) => {
+            const primaryLocation: CodeLocation = violation.getCodeLocations()[violation.getPrimaryLocationIndex()];
+            const file: string | undefined = primaryLocation.getFile();
+            const line: number | undefined = primaryLocation.getStartLine();
+            if (!file || !line) {
+                return;
+            }
+            const codeHash: string | undefined = getCodeHash(fileLinesReader, file, line);
+            const candidates: BaselineEntry[] = entriesByKey.get(toMatchKey(violation.getRule().getEngineName(),
+                violation.getRule().getName(), toPortableFilePath(file, runDir), violation.getMessage())) || [];
+            for (const entry of candidates) {
+                if (entry.codeHash === undefined || codeHash === undefined || entry.codeHash === codeHash) {
+                    possibleMatches.push({violationIndex: violationIndex, entry: entry,
+                        lineDistance: entry.line === undefined ? Number.MAX_SAFE_INTEGER : Math.abs(entry.line - line)});
+                }
+            }
+        });
+
+        // Since the sort is stable, ties are resolved in the order of the violations
+        possibleMatches.sort((m1, m2) => m1.lineDistance - m2.lineDistance);
+        const baselinedViolationIndices: Set<number> = new Set();
+        const usedEntries: Set<BaselineEntry> = new Set();
+        for (const possibleMatch of possibleMatches) {
+            if (!baselinedViolationIndices.has(possibleMatch.violationIndex) && !usedEntries.has(possibleMatch.entry)) {
+                baselinedViolationIndices.add(possibleMatch.violationIndex);
+                usedEntries.add(possibleMatch.entry);
+            }
+        }
+
+        return {
+            newViolations: violations.filter((_v, i) => !baselinedViolationIndices.has(i)),
+            baselinedViolations: violations.filter((_v, i) => baselinedViolationIndices.has(i))
+        };
+    }
+}
+
+function toMatchKey(engineName: string, ruleName: string, file: string, message: string): string {
+    return JSON.stringify([engineName, ruleName, file, message]);
+}
+
+function isValidBaselineContent(data: unknown): data is BaselineContent {
+    if (typeof data !== 'object' || data === null || !Array.isArray((data as BaselineContent).violations)) {
+        return false;
+    }
+    return (data as BaselineContent).violations.every(entry => typeof entry === 'object' && entry !== null
+        && typeof entry.engine === 'string' && typeof entry.rule === 'string' && typeof entry.file === 'string'
+        && typeof entry.message === 'string'
+        && (entry.line === undefined || typeof entry.line === 'number')
+        && (entry.codeHash === undefined || typeof entry.codeHash === 'string'));
+}
+
+/**
+ * Returns a hash of the code on the specified line with its whitespace normalized, so that changes in indentation
+ * don't count as changes to the code. Returns undefined if the line can not be read.
+ */
+function getCodeHash(fileLinesReader: FileLinesReader, file: string, line: number): string | undefined {
+    const codeLine: string | undefined = fileLinesReader.getFileLines(file)[line - 1];
+    if (codeLine === undefined) {
+        return undefined;
+    }
+    return crypto.createHash('sha256').update(normalizeWhitespace(codeLine)).digest('hex');
+}
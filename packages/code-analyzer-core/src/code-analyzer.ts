@@ -1,25 +1,48 @@
-import {RuleImpl, RuleSelection, RuleSelectionImpl} from "./rules"
+import {RuleImpl, RuleSelection, RuleSelectionImpl, RuleSelectionReason, SeverityLevel} from "./rules"
+import {findUnmatchedNames, RuleSelectorExpression, RuleSets, suggestSelectorNames} from "./selectors";
 import {
+    AbortedEngineRunResults,
+    BaselineFilteredEngineRunResults,
     EngineRunResults,
     EngineRunResultsImpl,
     RunResults,
     RunResultsImpl,
     UnexpectedErrorEngineRunResults
 } from "./results"
-import {EngineLogEvent, EngineProgressEvent, EngineResultsEvent, Event, EventType, LogLevel} from "./events"
+import {
+    EngineLogEvent,
+    EngineProgressEvent,
+    EngineResultsEvent,
+    Event,
+    EventType,
+    LogEvent,
+    LogLevel
+} from "./events"
 import {getMessage} from "./messages";
 import * as engApi from "@salesforce/code-analyzer-engine-api"
 import {EventEmitter} from "node:events";
 import {CodeAnalyzerConfig, FIELDS, RuleOverride} from "./config";
 import {
     Clock,
+    mapWithConcurrencyLimit,
     RealClock,
     SimpleUniqueIdGenerator,
     toAbsolutePath,
     UniqueIdGenerator
 } from "./utils";
 import fs from "node:fs";
-import {Workspace, WorkspaceImpl} from "./workspace";
+import path from "node:path";
+import {
+    CODE_ANALYZER_IGNORE_FILE,
+    GITIGNORE_FILE,
+    splitIntoShards,
+    Workspace,
+    WorkspaceImpl,
+    WorkspaceShard,
+    WorkspaceShardImpl
+} from "./workspace";
+import {LogFileWriter} from "./logging";
+import {Baseline} from "./baseline";
 
 
 export type SelectOptions = {
@@ -29,17 +52,29 @@ export type SelectOptions = {
 export type RunOptions = {
     workspace: Workspace
     pathStartPoints?: string[]
+    abortSignal?: AbortSignal
+
+    // Violations that are found in the baseline are reported as baselined violations instead of as violations
+    baseline?: Baseline
 }
 
+// When a rule set with this name is defined in the configuration, it replaces "Recommended" as the default selection
+const DEFAULT_RULE_SET_NAME: string = 'default';
+
 export class CodeAnalyzer {
     private readonly config: CodeAnalyzerConfig;
+    private readonly ruleSets: RuleSets;
     private clock: Clock = new RealClock();
     private uniqueIdGenerator: UniqueIdGenerator = new SimpleUniqueIdGenerator();
     private readonly eventEmitter: EventEmitter = new EventEmitter();
     private readonly engines: Map<string, engApi.Engine> = new Map();
+    private readonly enginePluginModules: Map<string, string> = new Map();
+    private logFileWriter?: LogFileWriter;
 
     constructor(config: CodeAnalyzerConfig) {
         this.config = config;
+        this.ruleSets = new RuleSets(config.getRuleSets());
+        this.logFileWriter = new LogFileWriter(config.getLogFolder(), config.getMaxLogFiles());
     }
 
     // For testing purposes only
@@ -52,10 +87,36 @@ export class CodeAnalyzer {
 
     public async createWorkspace(filesAndFolders: string[]): Promise<Workspace> {
         const workspaceId: string = this.uniqueIdGenerator.getUniqueId('workspace');
-        return new WorkspaceImpl(workspaceId, filesAndFolders.map(validateFileOrFolder));
+        const ignoreFileNames: string[] = this.config.getHonorGitignore() ?
+            [CODE_ANALYZER_IGNORE_FILE, GITIGNORE_FILE] : [CODE_ANALYZER_IGNORE_FILE];
+        return new WorkspaceImpl(workspaceId, filesAndFolders.map(validateFileOrFolder), {
+            rootFolder: this.config.getConfigRoot(),
+            ignoreFileNames: ignoreFileNames,
+            includePatterns: this.config.getWorkspaceIncludePatterns(),
+            excludePatterns: this.config.getWorkspaceExcludePatterns()
+        });
+    }
+
+    /**
+     * Splits the files of the workspace into the specified number of shards. The same workspace always results in the
+     * same shards, so each shard can be run separately (like on separate CI agents) and their results merged afterward.
+     * Note that when there are more shards than files, some of the shards have no files.
+     */
+    public async shardWorkspace(workspace: Workspace, shardCount: number): Promise<WorkspaceShard[]> {
+        if (!Number.isInteger(shardCount) || shardCount < 1) {
+            throw new Error(getMessage('InvalidShardCount', shardCount));
+        }
+        const allFiles: string[] = await workspace.getExpandedFiles();
+        const shards: string[][] = await splitIntoShards(allFiles, shardCount);
+        return shards.map((files, shardIndex) => new WorkspaceShardImpl(
+            this.uniqueIdGenerator.getUniqueId('workspace'), shardIndex, shardCount, files, allFiles));
     }
 
     public async addEnginePlugin(enginePlugin: engApi.EnginePlugin): Promise<void> {
+        return this.addEnginePluginFromModule(enginePlugin);
+    }
+
+    private async addEnginePluginFromModule(enginePlugin: engApi.EnginePlugin, enginePluginModulePath?: string): Promise<void> {
         if (enginePlugin.getApiVersion() > engApi.ENGINE_API_VERSION) {
             this.emitLogEvent(LogLevel.Warn, getMessage('EngineFromFutureApiDetected',
                 enginePlugin.getApiVersion(), `"${ enginePlugin.getAvailableEngineNames().join('","') }"`, engApi.ENGINE_API_VERSION))
@@ -63,7 +124,7 @@ export class CodeAnalyzer {
         const enginePluginV1: engApi.EnginePluginV1 = enginePlugin as engApi.EnginePluginV1;
 
         const promises: Promise<void>[] = getAvailableEngineNamesFromPlugin(enginePluginV1).map(engineName =>
-            this.createAndAddEngineIfValid(engineName, enginePluginV1));
+            this.createAndAddEngineIfValid(engineName, enginePluginV1, enginePluginModulePath));
         await Promise.all(promises);
     }
 
@@ -83,49 +144,120 @@ export class CodeAnalyzer {
             throw new Error(getMessage('FailedToDynamicallyAddEnginePlugin', enginePluginModulePath));
         }
         const enginePlugin: engApi.EnginePlugin = pluginModule.createEnginePlugin();
-        return this.addEnginePlugin(enginePlugin);
+        return this.addEnginePluginFromModule(enginePlugin, enginePluginModulePath);
+    }
+
+    // Adds the engine plugins from each of the modules listed in the custom_engine_plugin_modules configuration value.
+    // Relative module paths are resolved from the config_root folder. If a module fails to be added, then an error
+    // log event is emitted and we continue on to the next module.
+    public async dynamicallyAddCustomEnginePlugins(): Promise<void> {
+        for (const enginePluginModule of this.config.getCustomEnginePluginModules()) {
+            try {
+                const enginePluginModulePath: string = require.resolve(enginePluginModule, {paths: [this.config.getConfigRoot()]});
+                await this.dynamicallyAddEnginePlugin(enginePluginModulePath);
+            } catch (err) {
+                this.emitLogEvent(LogLevel.Error, getMessage('FailedToAddCustomEnginePluginModule', enginePluginModule,
+                    FIELDS.CUSTOM_ENGINE_PLUGIN_MODULES, (err as Error).message));
+            }
+        }
     }
 
     public getEngineNames(): string[] {
         return Array.from(this.engines.keys());
     }
 
+    // Returns the resolved path of the module that the engine's plugin was dynamically added from, or undefined if the
+    // engine's plugin was added directly with addEnginePlugin.
+    public getEnginePluginModule(engineName: string): string | undefined {
+        return this.enginePluginModules.get(engineName);
+    }
+
     public async selectRules(selectors: string[], selectOptions?: SelectOptions): Promise<RuleSelection> {
-        selectors = selectors.length > 0 ? selectors : ['Recommended'];
+        selectors = selectors.length > 0 ? selectors :
+            [this.ruleSets.hasRuleSet(DEFAULT_RULE_SET_NAME) ? DEFAULT_RULE_SET_NAME : 'Recommended'];
+        // Parsing the selectors up front makes sure that malformed selectors are reported even if there are no rules
+        const selectorExpressions: RuleSelectorExpression[] = selectors.map(s => this.ruleSets.parseRuleSelector(s));
 
         const workspace: Workspace = selectOptions ? selectOptions.workspace : await this.createWorkspace([process.cwd()]);
         const allRules: RuleImpl[] = await this.getAllRules(workspace);
 
         const ruleSelection: RuleSelectionImpl = new RuleSelectionImpl();
+        const matchedSelectorIndices: Set<number> = new Set();
         for (const rule of allRules) {
-            if (selectors.some(s => rule.matchesRuleSelector(s))) {
-                ruleSelection.addRule(rule);
+            const selectionReasons: RuleSelectionReason[] = [];
+            selectorExpressions.forEach((expression, i) => {
+                if (expression.matches(rule)) {
+                    selectionReasons.push({selector: selectors[i], matchedAttributes: expression.getMatchedAttributes(rule)});
+                    matchedSelectorIndices.add(i);
+                }
+            });
+            if (selectionReasons.length > 0) {
+                ruleSelection.addRule(rule, selectionReasons);
+                this.emitLogEvent(LogLevel.Debug, getMessage('RuleSelected', rule.getName(), rule.getEngineName(),
+                    JSON.stringify(selectionReasons)));
             }
         }
+        selectors.forEach((selector, i) =>
+            this.warnAboutUnmatchedSelector(selector, selectorExpressions[i], allRules, matchedSelectorIndices.has(i)));
         return ruleSelection;
     }
 
+    // Since a selector that doesn't match any rules is most likely a typo, we warn about each name within the selector
+    // that doesn't match any rules and suggest the closest available names. If every name matches some rule but the
+    // selector as a whole doesn't match any rules (like "Performance:Critical"), then we just warn about the selector.
+    private warnAboutUnmatchedSelector(selector: string, selectorExpression: RuleSelectorExpression, allRules: RuleImpl[], selectorMatched: boolean): void {
+        const unmatchedNames: string[] = findUnmatchedNames(selectorExpression, allRules);
+        if (unmatchedNames.length == 0) {
+            if (!selectorMatched) {
+                this.emitLogEvent(LogLevel.Warn, getMessage('RuleSelectorMatchesNoRules', selector));
+            }
+            return;
+        }
+
+        const candidateNames: string[] = [
+            ...allRules.map(r => r.getEngineName()),
+            ...allRules.map(r => r.getName()),
+            ...allRules.flatMap(r => r.getTags()),
+            ...Object.keys(SeverityLevel).filter(k => isNaN(Number(k))),
+            ...this.ruleSets.getNames()
+        ];
+        for (const unmatchedName of unmatchedNames) {
+            let message: string = unmatchedName == selector.trim() ? getMessage('RuleSelectorMatchesNoRules', selector) :
+                getMessage('RuleSelectorPartMatchesNoRules', unmatchedName, selector);
+            const suggestions: string[] = suggestSelectorNames(unmatchedName, candidateNames);
+            if (suggestions.length > 0) {
+                message += ' ' + getMessage('RuleSelectorSuggestions', suggestions.map(s => `"${s}"`).join(', '));
+            }
+            this.emitLogEvent(LogLevel.Warn, message);
+        }
+    }
+
     public async run(ruleSelection: RuleSelection, runOptions: RunOptions): Promise<RunResults> {
         const engineRunOptions: engApi.RunOptions = extractEngineRunOptions(runOptions);
         this.emitLogEvent(LogLevel.Debug, getMessage('RunningWithRunOptions', JSON.stringify(engineRunOptions)));
 
-        const runResults: RunResultsImpl = new RunResultsImpl();
-        for (const engineName of ruleSelection.getEngineNames()) {
-            this.emitEvent<EngineProgressEvent>({
-                type: EventType.EngineProgressEvent, timestamp: this.clock.now(), engineName: engineName, percentComplete: 0
-            });
+        const runResults: RunResultsImpl = new RunResultsImpl(process.cwd() + path.sep, ruleSelection);
 
-            const engineRunResults: EngineRunResults = await this.runEngineAndValidateResults(engineName, ruleSelection, engineRunOptions);
-            runResults.addEngineRunResults(engineRunResults);
+        // Each engine searches the files of its own violations for suppression markers, so multiple engines can run into
+        // the same malformed marker. We only want to warn about each of them once per run.
+        const emittedWarnings: Set<string> = new Set();
+        const emitWarningOncePerRun = (message: string): void => {
+            if (!emittedWarnings.has(message)) {
+                emittedWarnings.add(message);
+                this.emitLogEvent(LogLevel.Warn, message);
+            }
+        };
 
-            this.emitEvent<EngineProgressEvent>({
-                type: EventType.EngineProgressEvent, timestamp: this.clock.now(), engineName: engineName, percentComplete: 100
-            });
-            this.emitEvent<EngineResultsEvent>({
-                type: EventType.EngineResultsEvent, timestamp: this.clock.now(), results: engineRunResults
-            });
-        }
+        const engineRunResultsList: EngineRunResults[] = await mapWithConcurrencyLimit(ruleSelection.getEngineNames(),
+            this.config.getMaxConcurrentEngines(), engineName =>
+                this.runEngine(engineName, ruleSelection, engineRunOptions, runOptions.baseline, runResults.getRunDirectory(),
+                    emitWarningOncePerRun));
 
+        // We add the results in the order of the engine names from the rule selection (instead of the order in which
+        // the engines completed) so that the run results are deterministic.
+        for (const engineRunResults of engineRunResultsList) {
+            runResults.addEngineRunResults(engineRunResults);
+        }
         return runResults;
     }
 
@@ -143,30 +275,109 @@ export class CodeAnalyzer {
         const engine: engApi.Engine = this.getEngine(engineName);
         const ruleDescriptions: engApi.RuleDescription[] = await engine.describeRules(describeOptions);
         validateRuleDescriptions(ruleDescriptions, engineName);
-        return ruleDescriptions.map(rd => this.updateRuleDescriptionWithOverrides(engineName, rd))
+        return ruleDescriptions.filter(rd => !this.isRuleDisabled(engineName, rd.name))
+            .map(rd => this.updateRuleDescriptionWithOverrides(engineName, rd))
             .map(rd => new RuleImpl(engineName, rd));
     }
 
-    private async runEngineAndValidateResults(engineName: string, ruleSelection: RuleSelection, engineRunOptions: engApi.RunOptions): Promise<EngineRunResults> {
+    private async runEngine(engineName: string, ruleSelection: RuleSelection, engineRunOptions: engApi.RunOptions,
+                            baseline: Baseline | undefined, runDir: string, emitWarning: (message: string) => void): Promise<EngineRunResults> {
+        this.emitEvent<EngineProgressEvent>({
+            type: EventType.EngineProgressEvent, timestamp: this.clock.now(), engineName: engineName, percentComplete: 0
+        });
+
+        let engineRunResults: EngineRunResults = await this.runEngineAndValidateResults(engineName, ruleSelection, engineRunOptions, runDir, emitWarning);
+        if (baseline) {
+            engineRunResults = new BaselineFilteredEngineRunResults(engineRunResults, baseline, runDir);
+        }
+
+        this.emitEvent<EngineProgressEvent>({
+            type: EventType.EngineProgressEvent, timestamp: this.clock.now(), engineName: engineName, percentComplete: 100
+        });
+        this.emitEvent<EngineResultsEvent>({
+            type: EventType.EngineResultsEvent, timestamp: this.clock.now(), results: engineRunResults
+        });
+        return engineRunResults;
+    }
+
+    private async runEngineAndValidateResults(engineName: string, ruleSelection: RuleSelection, engineRunOptions: engApi.RunOptions,
+                                              runDir: string, emitWarning: (message: string) => void): Promise<EngineRunResults> {
         const rulesToRun: string[] = ruleSelection.getRulesFor(engineName).map(r => r.getName());
         this.emitLogEvent(LogLevel.Debug, getMessage('RunningEngineWithRules', engineName, JSON.stringify(rulesToRun)));
         const engine: engApi.Engine = this.getEngine(engineName);
 
+        if (engineRunOptions.abortSignal?.aborted) {
+            // If the run was cancelled while this engine was waiting for its turn to run, then we don't bother starting it
+            return AbortedEngineRunResults.forCancellation(engineName);
+        }
+
         let apiEngineRunResults: engApi.EngineRunResults;
         try {
-            apiEngineRunResults = await engine.runRules(rulesToRun, engineRunOptions);
+            apiEngineRunResults = await this.runRulesWithAbortHandling(engine, rulesToRun, engineRunOptions);
         } catch (error) {
+            if (error === ENGINE_TIMED_OUT) {
+                return AbortedEngineRunResults.forTimeout(engineName, this.config.getEngineRunTimeoutSeconds());
+            } else if (error === ENGINE_CANCELLED) {
+                return AbortedEngineRunResults.forCancellation(engineName);
+            }
             return new UnexpectedErrorEngineRunResults(engineName, error as Error);
         }
 
         validateEngineRunResults(engineName, apiEngineRunResults, ruleSelection);
-        return new EngineRunResultsImpl(engineName, apiEngineRunResults, ruleSelection);
+        return new EngineRunResultsImpl(engineName, apiEngineRunResults, ruleSelection, runDir, emitWarning);
+    }
+
+    /**
+     * Runs the rules of the engine, but stops waiting for the engine as soon as the run is cancelled or the engine
+     * exceeds the configured timeout. In either case, the engine is also sent an abort signal so that it can clean up.
+     */
+    private async runRulesWithAbortHandling(engine: engApi.Engine, rulesToRun: string[], engineRunOptions: engApi.RunOptions): Promise<engApi.EngineRunResults> {
+        const runAbortSignal: AbortSignal | undefined = engineRunOptions.abortSignal;
+        const timeoutSeconds: number = this.config.getEngineRunTimeoutSeconds();
+        if (!runAbortSignal && timeoutSeconds == 0) {
+            return engine.runRules(rulesToRun, engineRunOptions);
+        }
+
+        const engineAbortController: AbortController = new AbortController();
+        const abortedPromise: Promise<never> = new Promise((_resolve, reject) => {
+            engineAbortController.signal.addEventListener('abort', () => reject(engineAbortController.signal.reason));
+        });
+        const onRunAborted = () => engineAbortController.abort(ENGINE_CANCELLED);
+        runAbortSignal?.addEventListener('abort', onRunAborted);
+        const timeoutId: NodeJS.Timeout | undefined = timeoutSeconds == 0 ? undefined :
+            setTimeout(() => engineAbortController.abort(ENGINE_TIMED_OUT), timeoutSeconds * 1000);
+
+        try {
+            return await Promise.race([
+                engine.runRules(rulesToRun, {...engineRunOptions, abortSignal: engineAbortController.signal}),
+                abortedPromise
+            ]);
+        } finally {
+            clearTimeout(timeoutId);
+            runAbortSignal?.removeEventListener('abort', onRunAborted);
+        }
     }
 
     private emitEvent<T extends Event>(event: T): void {
+        if (event.type == EventType.LogEvent || event.type == EventType.EngineLogEvent) {
+            this.writeToLogFile(event);
+        }
         this.eventEmitter.emit(event.type, event);
     }
 
+    // All log events are written to the log file regardless of which listeners the client has attached
+    private writeToLogFile(event: LogEvent | EngineLogEvent): void {
+        if (!this.logFileWriter) {
+            return;
+        }
+        try {
+            this.logFileWriter.writeEvent(event);
+        } catch (err) {
+            this.logFileWriter = undefined; // Stop attempting to write to the log file so that we don't fail again
+            this.emitLogEvent(LogLevel.Warn, getMessage('FailedToWriteToLogFile', this.config.getLogFolder(), (err as Error).message));
+        }
+    }
+
     private emitLogEvent(logLevel: LogLevel, message: string): void {
         this.emitEvent({
             type: EventType.LogEvent,
@@ -176,7 +387,7 @@ export class CodeAnalyzer {
         })
     }
 
-    private async createAndAddEngineIfValid(engineName: string, enginePluginV1: engApi.EnginePluginV1): Promise<void> {
+    private async createAndAddEngineIfValid(engineName: string, enginePluginV1: engApi.EnginePluginV1, enginePluginModulePath?: string): Promise<void> {
         if (this.engines.has(engineName)) {
             this.emitLogEvent(LogLevel.Error, getMessage('DuplicateEngine', engineName));
             return;
@@ -198,6 +409,9 @@ export class CodeAnalyzer {
         }
 
         this.engines.set(engineName, engine);
+        if (enginePluginModulePath) {
+            this.enginePluginModules.set(engineName, enginePluginModulePath);
+        }
         this.emitLogEvent(LogLevel.Debug, getMessage('EngineAdded', engineName));
         this.listenToEngineEvents(engine);
     }
@@ -235,15 +449,43 @@ export class CodeAnalyzer {
                 ruleDescription.name, engineName, JSON.stringify(ruleDescription.tags), JSON.stringify(ruleOverride.tags)));
             ruleDescription.tags = ruleOverride.tags;
         }
+        if (ruleOverride.add_tags) {
+            const newTags: string[] = [...new Set([...ruleDescription.tags, ...ruleOverride.add_tags])];
+            this.emitLogEvent(LogLevel.Debug, getMessage('RulePropertyOverridden', FIELDS.TAGS,
+                ruleDescription.name, engineName, JSON.stringify(ruleDescription.tags), JSON.stringify(newTags)));
+            ruleDescription.tags = newTags;
+        }
+        if (ruleOverride.description !== undefined) {
+            this.emitLogEvent(LogLevel.Debug, getMessage('RulePropertyOverridden', FIELDS.DESCRIPTION,
+                ruleDescription.name, engineName, JSON.stringify(ruleDescription.description), JSON.stringify(ruleOverride.description)));
+            ruleDescription.description = ruleOverride.description;
+        }
+        if (ruleOverride.resource_urls) {
+            this.emitLogEvent(LogLevel.Debug, getMessage('RulePropertyOverridden', FIELDS.RESOURCE_URLS,
+                ruleDescription.name, engineName, JSON.stringify(ruleDescription.resourceUrls), JSON.stringify(ruleOverride.resource_urls)));
+            ruleDescription.resourceUrls = ruleOverride.resource_urls;
+        }
         return ruleDescription;
     }
 
+    private isRuleDisabled(engineName: string, ruleName: string): boolean {
+        if (this.config.getRuleOverrideFor(engineName, ruleName).disabled) {
+            this.emitLogEvent(LogLevel.Debug, getMessage('RuleDisabled', ruleName, engineName));
+            return true;
+        }
+        return false;
+    }
+
     private getEngine(engineName: string): engApi.Engine {
         // This line should never return undefined, so we are safe to directly cast to engApi.Engine
         return this.engines.get(engineName) as engApi.Engine;
     }
 }
 
+// Unique values used as abort reasons so that we can tell why an engine run was aborted
+const ENGINE_TIMED_OUT: symbol = Symbol('EngineTimedOut');
+const ENGINE_CANCELLED: symbol = Symbol('EngineCancelled');
+
 function getAvailableEngineNamesFromPlugin(enginePlugin: engApi.EnginePluginV1): string[] {
     try {
         return enginePlugin.getAvailableEngineNames();
@@ -269,6 +511,9 @@ function extractEngineRunOptions(runOptions: RunOptions): engApi.RunOptions {
     const engineRunOptions: engApi.RunOptions = {
         workspace: runOptions.workspace,
     };
+    if (runOptions.abortSignal) {
+        engineRunOptions.abortSignal = runOptions.abortSignal;
+    }
     if (runOptions.pathStartPoints && runOptions.pathStartPoints.length > 0) {
         engineRunOptions.pathStartPoints = runOptions.pathStartPoints.flatMap(extractEnginePathStartPoints)
     }
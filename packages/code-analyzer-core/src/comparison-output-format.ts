@@ -0,0 +1,128 @@
+import {ComparisonCategory, RunResultsComparison} from "./comparison";
+import {FormatterRegistry} from "./formatter-registry";
+import {
+    createMarkdownViolationList,
+    MARKDOWN_MAX_CHARACTERS,
+    MARKDOWN_RESERVED_CHARACTERS,
+    ResultsOutput,
+    toSeverityLabel,
+    toViolationOutputs,
+    ViolationOutput
+} from "./output-format";
+import {SeverityLevel} from "./rules";
+
+export enum ComparisonOutputFormat {
+    JSON = "JSON",
+    MARKDOWN = "MARKDOWN"
+}
+
+export abstract class ComparisonOutputFormatter {
+    private static readonly registry: FormatterRegistry<ComparisonOutputFormatter> = new FormatterRegistry('comparison output');
+
+    abstract format(comparison: RunResultsComparison): string
+
+    /**
+     * Registers a formatter with the provided format name so that RunResultsComparison.toFormattedOutput can produce
+     * output in that format. Like with OutputFormatter.register, registering the same formatter again is a no-op,
+     * whereas registering a different formatter with the same format name errors unless the previous formatter is
+     * unregistered first.
+     */
+    static register(formatName: string, formatter: ComparisonOutputFormatter): void {
+        ComparisonOutputFormatter.registry.register(formatName, formatter);
+    }
+
+    /**
+     * Unregisters the formatter with the provided format name, returning whether a formatter was registered with it.
+     */
+    static unregister(formatName: string): boolean {
+        return ComparisonOutputFormatter.registry.unregister(formatName);
+    }
+
+    static getRegisteredFormats(): string[] {
+        return ComparisonOutputFormatter.registry.getRegisteredFormats();
+    }
+
+    static forFormat(format: ComparisonOutputFormat | string): ComparisonOutputFormatter {
+        return ComparisonOutputFormatter.registry.getFormatter(format);
+    }
+}
+
+type ComparisonOutput = {
+    runDir: string
+    previousRunDir: string
+    violationCounts: {
+        new: ResultsOutput['violationCounts']
+        fixed: ResultsOutput['violationCounts']
+        unchanged: ResultsOutput['violationCounts']
+    }
+    newViolations: ViolationOutput[]
+    fixedViolations: ViolationOutput[]
+    unchangedViolations: ViolationOutput[]
+}
+
+class JsonComparisonOutputFormatter implements ComparisonOutputFormatter {
+    format(comparison: RunResultsComparison): string {
+        return JSON.stringify(toComparisonOutput(comparison), undefined, 2);
+    }
+}
+
+/**
+ * Produces a Markdown summary of a comparison that is meant to be posted as a pull request comment. Since the new
+ * violations are the ones introduced by the pull request, only they are listed.
+ */
+class MarkdownComparisonOutputFormatter implements ComparisonOutputFormatter {
+    format(comparison: RunResultsComparison): string {
+        const comparisonOutput: ComparisonOutput = toComparisonOutput(comparison);
+        const counts: ComparisonOutput['violationCounts'] = comparisonOutput.violationCounts;
+        const lines: string[] = [
+            '## Code Analyzer Comparison',
+            '',
+            '| Severity | New | Fixed | Unchanged |',
+            '| --- | ---: | ---: | ---: |',
+            ...[1, 2, 3, 4, 5].map(sev => {
+                const key = `sev${sev}` as keyof ResultsOutput['violationCounts'];
+                return `| ${toSeverityLabel(sev)} | ${counts.new[key]} | ${counts.fixed[key]} | ${counts.unchanged[key]} |`;
+            }),
+            `| **Total** | **${counts.new.total}** | **${counts.fixed.total}** | **${counts.unchanged.total}** |`
+        ];
+        if (comparisonOutput.newViolations.length == 0) {
+            lines.push('', 'No new violations found.');
+            return lines.join('\n');
+        }
+        lines.push('', ...createMarkdownViolationList(comparison.getViolations(ComparisonCategory.New), comparison.getRunDirectory(), 'New violations',
+            MARKDOWN_MAX_CHARACTERS - MARKDOWN_RESERVED_CHARACTERS - lines.join('\n').length));
+        return lines.join('\n');
+    }
+}
+
+function toComparisonOutput(comparison: RunResultsComparison): ComparisonOutput {
+    const runDir: string = comparison.getRunDirectory();
+    return {
+        runDir: runDir,
+        previousRunDir: comparison.getPreviousRunDirectory(),
+        violationCounts: {
+            new: toComparisonCountsOutput(comparison, ComparisonCategory.New),
+            fixed: toComparisonCountsOutput(comparison, ComparisonCategory.Fixed),
+            unchanged: toComparisonCountsOutput(comparison, ComparisonCategory.Unchanged)
+        },
+        newViolations: toViolationOutputs(comparison.getViolations(ComparisonCategory.New), runDir),
+        // Since the fixed violations come from the previous run, their files are relative to the previous run directory
+        fixedViolations: toViolationOutputs(comparison.getViolations(ComparisonCategory.Fixed), comparison.getPreviousRunDirectory()),
+        unchangedViolations: toViolationOutputs(comparison.getViolations(ComparisonCategory.Unchanged), runDir)
+    };
+}
+
+function toComparisonCountsOutput(comparison: RunResultsComparison, category: ComparisonCategory): ResultsOutput['violationCounts'] {
+    return {
+        total: comparison.getViolationCount(category),
+        sev1: comparison.getViolationCountOfSeverity(category, SeverityLevel.Critical),
+        sev2: comparison.getViolationCountOfSeverity(category, SeverityLevel.High),
+        sev3: comparison.getViolationCountOfSeverity(category, SeverityLevel.Moderate),
+        sev4: comparison.getViolationCountOfSeverity(category, SeverityLevel.Low),
+        sev5: comparison.getViolationCountOfSeverity(category, SeverityLevel.Info),
+    };
+}
+
+// Since classes are not hoisted, the built-in formatters can only be registered after all of them have been declared
+ComparisonOutputFormatter.register(ComparisonOutputFormat.JSON, new JsonComparisonOutputFormatter());
+ComparisonOutputFormatter.register(ComparisonOutputFormat.MARKDOWN, new MarkdownComparisonOutputFormatter());
@@ -0,0 +1,93 @@
+import {RunResults, Violation} from "./results";
+import {SeverityLevel} from "./rules";
+import {ComparisonOutputFormat, ComparisonOutputFormatter} from "./comparison-output-format";
+import {JsonResultsReader} from "./json-results-reader";
+
+export enum ComparisonCategory {
+    New = "New",
+    Fixed = "Fixed",
+    Unchanged = "Unchanged"
+}
+
+/**
+ * Compares the violations of a previous run with those of a current run (like the runs before and after the changes of
+ * a pull request) to classify each violation as new, fixed, or unchanged. Violations are matched by their fingerprints,
+ * so a violation whose code merely moved to another line is still considered unchanged.
+ * The unchanged violations are the violations from the current run, whereas the fixed violations are the violations from
+ * the previous run since they no longer exist in the current run.
+ */
+export class RunResultsComparison {
+    private readonly previousRunDir: string;
+    private readonly currentRunDir: string;
+    private readonly violationsByCategory: Map<ComparisonCategory, Violation[]>;
+
+    public static compare(previousResults: RunResults, currentResults: RunResults): RunResultsComparison {
+        return new RunResultsComparison(previousResults.getRunDirectory(), previousResults.getViolations(), currentResults);
+    }
+
+    /**
+     * Compares with the results of a previous run that were saved with the JSON output format.
+     */
+    public static compareWithJsonOutput(previousJsonOutput: string, currentResults: RunResults): RunResultsComparison {
+        return RunResultsComparison.compare(JsonResultsReader.readFromJsonString(previousJsonOutput), currentResults);
+    }
+
+    public static compareWithJsonOutputFile(previousJsonOutputFile: string, currentResults: RunResults): RunResultsComparison {
+        return RunResultsComparison.compare(JsonResultsReader.readFromFile(previousJsonOutputFile), currentResults);
+    }
+
+    private constructor(previousRunDir: string, previousViolations: Violation[], currentResults: RunResults) {
+        this.previousRunDir = previousRunDir;
+        this.currentRunDir = currentResults.getRunDirectory();
+
+        const previousViolationsByFingerprint: Map<string, Violation[]> = new Map();
+        for (const violation of previousViolations) {
+            const violations: Violation[] = previousViolationsByFingerprint.get(violation.getFingerprint()) || [];
+            previousViolationsByFingerprint.set(violation.getFingerprint(), [...violations, violation]);
+        }
+
+        const newViolations: Violation[] = [];
+        const unchangedViolations: Violation[] = [];
+        for (const violation of currentResults.getViolations()) {
+            const matchingViolations: Violation[] | undefined = previousViolationsByFingerprint.get(violation.getFingerprint());
+            if (matchingViolations && matchingViolations.length > 0) {
+                matchingViolations.shift();
+                unchangedViolations.push(violation);
+            } else {
+                newViolations.push(violation);
+            }
+        }
+        const fixedViolations: Set<Violation> = new Set([...previousViolationsByFingerprint.values()].flat());
+
+        // Since the previous violations are grouped by fingerprint, we restore their original order
+        this.violationsByCategory = new Map([
+            [ComparisonCategory.New, newViolations],
+            [ComparisonCategory.Fixed, previousViolations.filter(v => fixedViolations.has(v))],
+            [ComparisonCategory.Unchanged, unchangedViolations]
+        ]);
+    }
+
+    getRunDirectory(): string {
+        return this.currentRunDir;
+    }
+
+    getPreviousRunDirectory(): string {
+        return this.previousRunDir;
+    }
+
+    getViolations(category: ComparisonCategory): Violation[] {
+        return this.violationsByCategory.get(category) as Violation[];
+    }
+
+    getViolationCount(category: ComparisonCategory): number {
+        return this.getViolations(category).length;
+    }
+
+    getViolationCountOfSeverity(category: ComparisonCategory, severity: SeverityLevel): number {
+        return this.getViolations(category).filter(v => v.getRule().getSeverityLevel() == severity).length;
+    }
+
+    toFormattedOutput(format: ComparisonOutputFormat | string): string {
+        return ComparisonOutputFormatter.forFormat(format).format(this);
+    }
+}
@@ -6,40 +6,91 @@ import * as yaml from 'js-yaml';
 import {getMessage} from "./messages";
 import {toAbsolutePath} from "./utils"
 import {SeverityLevel} from "./rules";
+import {isValidRuleSetName, parseRuleSelector} from "./selectors";
+import {DEFAULT_EXCLUDE_PATTERNS, DEFAULT_INCLUDE_PATTERNS} from "./workspace";
 
 export const FIELDS = {
+    CONFIG_ROOT: 'config_root',
     LOG_FOLDER: 'log_folder',
+    MAX_LOG_FILES: 'max_log_files',
     CUSTOM_ENGINE_PLUGIN_MODULES: 'custom_engine_plugin_modules',
+    MAX_CONCURRENT_ENGINES: 'max_concurrent_engines',
+    ENGINE_RUN_TIMEOUT_SECONDS: 'engine_run_timeout_seconds',
+    WORKSPACE: 'workspace',
+    HONOR_GITIGNORE: 'honor_gitignore',
+    INCLUDE: 'include',
+    EXCLUDE: 'exclude',
+    USE_DEFAULT_EXCLUDES: 'use_default_excludes',
     RULES: 'rules',
     ENGINES: 'engines',
+    RULE_SETS: 'rule_sets',
     SEVERITY: 'severity',
-    TAGS: 'tags'
+    TAGS: 'tags',
+    ADD_TAGS: 'add_tags',
+    DESCRIPTION: 'description',
+    RESOURCE_URLS: 'resource_urls',
+    DISABLED: 'disabled'
 } as const;
 
 export type RuleOverride = {
     severity?: SeverityLevel
     tags?: string[]
+
+    // Tags that are appended to the tags of the rule (after any tags override is applied)
+    add_tags?: string[]
+
+    description?: string
+    resource_urls?: string[]
+
+    // A disabled rule is never selected, even when all rules are selected
+    disabled?: boolean
+}
+
+export type WorkspaceConfig = {
+    honor_gitignore: boolean
+    include: string[]
+
+    // The exclude patterns are added to the default exclude patterns (like **/node_modules/**) unless
+    // use_default_excludes is set to false, in which case only the specified exclude patterns are used
+    exclude: string[]
+    use_default_excludes: boolean
 }
 
 type TopLevelConfig = {
-    log_folder: string
+    config_root: string
+    log_folder?: string // When not specified, the temp folder is used, which is looked up each time that it is needed
+    max_log_files: number
     custom_engine_plugin_modules: string[]
+    max_concurrent_engines: number
+    engine_run_timeout_seconds: number
+    workspace: WorkspaceConfig
     rules: Record<string, Record<string, RuleOverride>>
     engines: Record<string, engApi.ConfigObject>
+    rule_sets: Record<string, string[]>
 }
 
-const DEFAULT_CONFIG: TopLevelConfig = {
-    log_folder: os.tmpdir(),
+// Note that the default config_root is not listed here since it is the current working directory at the time of creation
+const DEFAULT_CONFIG: Omit<TopLevelConfig, 'config_root'> = {
+    max_log_files: 10,
     custom_engine_plugin_modules: [],
+    max_concurrent_engines: 4,
+    engine_run_timeout_seconds: 0, // A value of 0 means that there is no timeout
+    workspace: {
+        honor_gitignore: false,
+        include: DEFAULT_INCLUDE_PATTERNS, // Specifying include patterns replaces these defaults
+        exclude: [],
+        use_default_excludes: true
+    },
     rules: {},
-    engines: {}
+    engines: {},
+    rule_sets: {}
 };
 
 export class CodeAnalyzerConfig {
     private readonly config: TopLevelConfig;
 
     public static withDefaults() {
-        return new CodeAnalyzerConfig(DEFAULT_CONFIG);
+        return new CodeAnalyzerConfig({...DEFAULT_CONFIG, config_root: process.cwd()});
     }
 
     public static fromFile(file: string) {
@@ -50,32 +101,42 @@ export class CodeAnalyzerConfig {
         const fileContents: string = fs.readFileSync(file, 'utf8');
 
         const fileExt : string = path.extname(file).toLowerCase();
+        const configFolder: string = path.dirname(file);
 
         if (fileExt == '.json') {
-            return CodeAnalyzerConfig.fromJsonString(fileContents);
+            return CodeAnalyzerConfig.fromJsonString(fileContents, configFolder);
         }  else if (fileExt == '.yaml' || fileExt == '.yml') {
-            return CodeAnalyzerConfig.fromYamlString(fileContents);
+            return CodeAnalyzerConfig.fromYamlString(fileContents, configFolder);
         } else {
             throw new Error(getMessage('ConfigFileExtensionUnsupported', file, 'json,yaml,yml'))
         }
     }
 
-    public static fromJsonString(jsonString: string): CodeAnalyzerConfig {
+    // The defaultConfigRoot is used as the config_root value if the configuration itself does not specify one.
+    // When the configuration comes from a file, this is the folder containing that file.
+    public static fromJsonString(jsonString: string, defaultConfigRoot?: string): CodeAnalyzerConfig {
         const data: object = parseAndValidate(() => JSON.parse(jsonString));
-        return CodeAnalyzerConfig.fromObject(data);
+        return CodeAnalyzerConfig.fromObject(data, defaultConfigRoot);
     }
 
-    public static fromYamlString(yamlString: string): CodeAnalyzerConfig {
+    public static fromYamlString(yamlString: string, defaultConfigRoot?: string): CodeAnalyzerConfig {
         const data: object = parseAndValidate(() => yaml.load(yamlString));
-        return CodeAnalyzerConfig.fromObject(data);
+        return CodeAnalyzerConfig.fromObject(data, defaultConfigRoot);
     }
 
-    public static fromObject(data: object): CodeAnalyzerConfig {
+    public static fromObject(data: object, defaultConfigRoot: string = process.cwd()): CodeAnalyzerConfig {
+        const configRoot: string = extractConfigRootValue(data, defaultConfigRoot);
         const config: TopLevelConfig = {
-            log_folder: extractLogFolderValue(data),
+            config_root: configRoot,
+            log_folder: extractLogFolderValue(data, configRoot),
+            max_log_files: extractMaxLogFilesValue(data),
             custom_engine_plugin_modules: extractCustomEnginePluginModules(data),
+            max_concurrent_engines: extractMaxConcurrentEnginesValue(data),
+            engine_run_timeout_seconds: extractEngineRunTimeoutSecondsValue(data),
+            workspace: extractWorkspaceValue(data),
             rules: extractRulesValue(data),
-            engines: extractEnginesValue(data)
+            engines: extractEnginesValue(data),
+            rule_sets: extractRuleSetsValue(data)
         }
         return new CodeAnalyzerConfig(config);
     }
@@ -84,14 +145,43 @@ export class CodeAnalyzerConfig {
         this.config = config;
     }
 
+    public getConfigRoot(): string {
+        return this.config.config_root;
+    }
+
     public getLogFolder(): string {
-        return this.config.log_folder;
+        return this.config.log_folder ?? os.tmpdir();
+    }
+
+    public getMaxLogFiles(): number {
+        return this.config.max_log_files;
     }
 
     public getCustomEnginePluginModules(): string[] {
         return this.config.custom_engine_plugin_modules;
     }
 
+    public getMaxConcurrentEngines(): number {
+        return this.config.max_concurrent_engines;
+    }
+
+    public getEngineRunTimeoutSeconds(): number {
+        return this.config.engine_run_timeout_seconds;
+    }
+
+    public getHonorGitignore(): boolean {
+        return this.config.workspace.honor_gitignore;
+    }
+
+    public getWorkspaceIncludePatterns(): string[] {
+        return this.config.workspace.include;
+    }
+
+    public getWorkspaceExcludePatterns(): string[] {
+        return this.config.workspace.use_default_excludes ?
+            [...DEFAULT_EXCLUDE_PATTERNS, ...this.config.workspace.exclude] : this.config.workspace.exclude;
+    }
+
     public getRuleOverridesFor(engineName: string): Record<string, RuleOverride> {
         return this.config.rules[engineName] || {};
     }
@@ -103,19 +193,37 @@ export class CodeAnalyzerConfig {
     public getEngineConfigFor(engineName: string): engApi.ConfigObject {
         return this.config.engines[engineName] || {};
     }
+
+    // Returns the named rule sets, where each rule set maps its name to the rule selectors that define it
+    public getRuleSets(): Record<string, string[]> {
+        return this.config.rule_sets;
+    }
+}
+
+function extractConfigRootValue(data: object, defaultConfigRoot: string): string {
+    const absDefaultConfigRoot: string = toAbsolutePath(defaultConfigRoot);
+    if (!(FIELDS.CONFIG_ROOT in data)) {
+        return validateFolder(absDefaultConfigRoot, FIELDS.CONFIG_ROOT);
+    }
+    // A relative config_root is relative to the default config root (the folder of the config file) instead of the cwd
+    const configRoot: string = validateType('string', data[FIELDS.CONFIG_ROOT], FIELDS.CONFIG_ROOT);
+    return validateFolder(toAbsolutePath(configRoot, absDefaultConfigRoot), FIELDS.CONFIG_ROOT);
 }
 
-function extractLogFolderValue(data: object): string {
+function extractLogFolderValue(data: object, configRoot: string): string | undefined {
     if (!(FIELDS.LOG_FOLDER in data)) {
         return DEFAULT_CONFIG.log_folder;
     }
-    const logFolder: string = toAbsolutePath(validateType('string', data[FIELDS.LOG_FOLDER], FIELDS.LOG_FOLDER));
-    if (!fs.existsSync(logFolder)) {
-        throw new Error(getMessage('ConfigValueFolderMustExist', FIELDS.LOG_FOLDER, logFolder));
-    } else if (!fs.statSync(logFolder).isDirectory()) {
-        throw new Error(getMessage('ConfigValueMustBeFolder', FIELDS.LOG_FOLDER, logFolder));
+    // Like the config_root, a relative log_folder is not relative to the cwd, but to the config_root
+    const logFolder: string = validateType('string', data[FIELDS.LOG_FOLDER], FIELDS.LOG_FOLDER);
+    return validateFolder(toAbsolutePath(logFolder, configRoot), FIELDS.LOG_FOLDER);
+}
+
+function extractMaxLogFilesValue(data: object): number {
+    if (!(FIELDS.MAX_LOG_FILES in data)) {
+        return DEFAULT_CONFIG.max_log_files;
     }
-    return logFolder;
+    return validatePositiveInteger(data[FIELDS.MAX_LOG_FILES], FIELDS.MAX_LOG_FILES);
 }
 
 function extractCustomEnginePluginModules(data: object): string[] {
@@ -125,6 +233,43 @@ function extractCustomEnginePluginModules(data: object): string[] {
     return validateStringArray(data[FIELDS.CUSTOM_ENGINE_PLUGIN_MODULES], FIELDS.CUSTOM_ENGINE_PLUGIN_MODULES);
 }
 
+function extractMaxConcurrentEnginesValue(data: object): number {
+    if (!(FIELDS.MAX_CONCURRENT_ENGINES in data)) {
+        return DEFAULT_CONFIG.max_concurrent_engines;
+    }
+    return validatePositiveInteger(data[FIELDS.MAX_CONCURRENT_ENGINES], FIELDS.MAX_CONCURRENT_ENGINES);
+}
+
+function extractEngineRunTimeoutSecondsValue(data: object): number {
+    if (!(FIELDS.ENGINE_RUN_TIMEOUT_SECONDS in data)) {
+        return DEFAULT_CONFIG.engine_run_timeout_seconds;
+    }
+    return validateNonNegativeNumber(data[FIELDS.ENGINE_RUN_TIMEOUT_SECONDS], FIELDS.ENGINE_RUN_TIMEOUT_SECONDS);
+}
+
+function extractWorkspaceValue(data: object): WorkspaceConfig {
+    if (!(FIELDS.WORKSPACE in data)) {
+        return DEFAULT_CONFIG.workspace;
+    }
+    const workspaceObj: object = validateObject(data[FIELDS.WORKSPACE], FIELDS.WORKSPACE);
+    const extractedValue: WorkspaceConfig = {...DEFAULT_CONFIG.workspace};
+    if (FIELDS.HONOR_GITIGNORE in workspaceObj) {
+        extractedValue.honor_gitignore = validateType<boolean>('boolean', workspaceObj[FIELDS.HONOR_GITIGNORE],
+            `${FIELDS.WORKSPACE}.${FIELDS.HONOR_GITIGNORE}`);
+    }
+    if (FIELDS.INCLUDE in workspaceObj) {
+        extractedValue.include = validateStringArray(workspaceObj[FIELDS.INCLUDE], `${FIELDS.WORKSPACE}.${FIELDS.INCLUDE}`);
+    }
+    if (FIELDS.EXCLUDE in workspaceObj) {
+        extractedValue.exclude = validateStringArray(workspaceObj[FIELDS.EXCLUDE], `${FIELDS.WORKSPACE}.${FIELDS.EXCLUDE}`);
+    }
+    if (FIELDS.USE_DEFAULT_EXCLUDES in workspaceObj) {
+        extractedValue.use_default_excludes = validateType<boolean>('boolean', workspaceObj[FIELDS.USE_DEFAULT_EXCLUDES],
+            `${FIELDS.WORKSPACE}.${FIELDS.USE_DEFAULT_EXCLUDES}`);
+    }
+    return extractedValue;
+}
+
 function extractRulesValue(data: object): Record<string, Record<string, RuleOverride>> {
     if (!(FIELDS.RULES in data)) {
         return DEFAULT_CONFIG.rules;
@@ -159,9 +304,34 @@ function extractRuleOverrideFor(ruleOverridesObj: object, engineName: string, ru
         extractedValue.tags = validateStringArray(ruleOverrideObj[FIELDS.TAGS],
             `${FIELDS.RULES}.${engineName}.${ruleName}.${FIELDS.TAGS}`);
     }
+    if (FIELDS.ADD_TAGS in ruleOverrideObj) {
+        extractedValue.add_tags = validateStringArray(ruleOverrideObj[FIELDS.ADD_TAGS],
+            `${FIELDS.RULES}.${engineName}.${ruleName}.${FIELDS.ADD_TAGS}`);
+    }
+    if (FIELDS.DESCRIPTION in ruleOverrideObj) {
+        extractedValue.description = validateType<string>('string', ruleOverrideObj[FIELDS.DESCRIPTION],
+            `${FIELDS.RULES}.${engineName}.${ruleName}.${FIELDS.DESCRIPTION}`);
+    }
+    if (FIELDS.RESOURCE_URLS in ruleOverrideObj) {
+        extractedValue.resource_urls = validateStringArray(ruleOverrideObj[FIELDS.RESOURCE_URLS],
+            `${FIELDS.RULES}.${engineName}.${ruleName}.${FIELDS.RESOURCE_URLS}`);
+    }
+    if (FIELDS.DISABLED in ruleOverrideObj) {
+        extractedValue.disabled = validateType<boolean>('boolean', ruleOverrideObj[FIELDS.DISABLED],
+            `${FIELDS.RULES}.${engineName}.${ruleName}.${FIELDS.DISABLED}`);
+    }
     return extractedValue;
 }
 
+function validateFolder(absFolder: string, valueKey: string): string {
+    if (!fs.existsSync(absFolder)) {
+        throw new Error(getMessage('ConfigValueFolderMustExist', valueKey, absFolder));
+    } else if (!fs.statSync(absFolder).isDirectory()) {
+        throw new Error(getMessage('ConfigValueMustBeFolder', valueKey, absFolder));
+    }
+    return absFolder;
+}
+
 function validateObject(value: unknown, valueKey: string): object {
     return validateType<object>('object', value, valueKey);
 }
@@ -188,6 +358,20 @@ function validateSeverityValue(value: unknown, valueKey: string): SeverityLevel
     return value as SeverityLevel;
 }
 
+function validatePositiveInteger(value: unknown, valueKey: string): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+        throw new Error(getMessage('ConfigValueNotAPositiveInteger', valueKey, JSON.stringify(value)));
+    }
+    return value;
+}
+
+function validateNonNegativeNumber(value: unknown, valueKey: string): number {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        throw new Error(getMessage('ConfigValueNotANonNegativeNumber', valueKey, JSON.stringify(value)));
+    }
+    return value;
+}
+
 function validateStringArray(value: unknown, valueKey: string): string[] {
     if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
         throw new Error(getMessage('ConfigValueNotAValidStringArray', valueKey, JSON.stringify(value)));
@@ -206,6 +390,30 @@ function extractEnginesValue(data: object): Record<string, engApi.ConfigObject>
     return engineSettingsObj as Record<string, engApi.ConfigObject>;
 }
 
+function extractRuleSetsValue(data: object): Record<string, string[]> {
+    if (!(FIELDS.RULE_SETS in data)) {
+        return DEFAULT_CONFIG.rule_sets;
+    }
+    const ruleSetsObj: object = validateObject(data[FIELDS.RULE_SETS], FIELDS.RULE_SETS);
+    for (const [ruleSetName, ruleSelectors] of Object.entries(ruleSetsObj)) {
+        if (!isValidRuleSetName(ruleSetName)) {
+            throw new Error(getMessage('ConfigValueNotAValidRuleSetName', FIELDS.RULE_SETS, ruleSetName));
+        }
+        const valueKey: string = `${FIELDS.RULE_SETS}.${ruleSetName}`;
+        validateStringArray(ruleSelectors, valueKey);
+        (ruleSelectors as string[]).forEach(ruleSelector => validateRuleSelector(ruleSelector, valueKey));
+    }
+    return ruleSetsObj as Record<string, string[]>;
+}
+
+function validateRuleSelector(ruleSelector: string, valueKey: string): void {
+    try {
+        parseRuleSelector(ruleSelector);
+    } catch (err) {
+        throw new Error(getMessage('ConfigValueNotAValidRuleSelector', valueKey, (err as Error).message), {cause: err});
+    }
+}
+
 function parseAndValidate(parseFcn: () => unknown): object {
     let data;
     try {
@@ -0,0 +1,50 @@
+import {CodeLocation, Violation} from "./results";
+import {FileLinesReader, normalizeWhitespace, toPortableFilePath} from "./utils";
+import crypto from "node:crypto";
+
+// Only the first few lines of a code location are used so that violations of large code blocks (like whole classes)
+// don't get a new fingerprint every time that anything inside the block changes.
+const MAX_FINGERPRINT_CODE_LINES: number = 5;
+
+/**
+ * Generates fingerprints that identify violations across runs. A fingerprint is derived from the engine, rule, file
+ * (relative to the run directory), whitespace normalized code of the primary code location, and message of a violation,
+ * but not its line numbers, so that the fingerprint stays the same as the code around the violation moves.
+ * Since the same code can show up multiple times in a file (like when code is copied), violations that would otherwise
+ * have the same fingerprint are told apart by the order in which they occur.
+ */
+export class FingerprintGenerator {
+    private readonly runDir: string;
+    private readonly fileLinesReader: FileLinesReader = new FileLinesReader();
+    private readonly occurrenceCounts: Map<string, number> = new Map();
+
+    constructor(runDir: string) {
+        this.runDir = runDir;
+    }
+
+    generateFingerprint(violation: Violation): string {
+        const primaryLocation: CodeLocation = violation.getCodeLocations()[violation.getPrimaryLocationIndex()];
+        const file: string | undefined = primaryLocation.getFile();
+        const fingerprint: string = createFingerprint([
+            violation.getRule().getEngineName(),
+            violation.getRule().getName(),
+            file ? toPortableFilePath(file, this.runDir) : '',
+            file ? this.getNormalizedCode(file, primaryLocation) : '',
+            normalizeWhitespace(violation.getMessage())
+        ]);
+
+        const occurrence: number = (this.occurrenceCounts.get(fingerprint) || 0) + 1;
+        this.occurrenceCounts.set(fingerprint, occurrence);
+        return occurrence == 1 ? fingerprint : createFingerprint([fingerprint, `${occurrence}`]);
+    }
+
+    private getNormalizedCode(file: string, codeLocation: CodeLocation): string {
+        const startLine: number = codeLocation.getStartLine() as number;
+        const endLine: number = Math.min(Math.max(codeLocation.getEndLine() ?? startLine, startLine), startLine + MAX_FINGERPRINT_CODE_LINES - 1);
+        return this.fileLinesReader.getFileLines(file).slice(startLine - 1, endLine).map(normalizeWhitespace).join('\n');
+    }
+}
+
+export function createFingerprint(parts: string[]): string {
+    return crypto.createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
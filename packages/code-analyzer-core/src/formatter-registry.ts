@@ -0,0 +1,40 @@
+import {getMessage} from "./messages";
+
+/**
+ * Holds the formatters of one kind of output (like the output of run results or of comparisons) by their format names.
+ * Registering the same formatter again is a no-op, whereas registering a different formatter with the same format name
+ * errors unless the previous formatter is unregistered first.
+ */
+export class FormatterRegistry<T> {
+    private readonly outputKind: string;
+    private readonly formattersByFormat: Map<string, T> = new Map();
+
+    constructor(outputKind: string) {
+        this.outputKind = outputKind;
+    }
+
+    register(formatName: string, formatter: T): void {
+        const registeredFormatter: T | undefined = this.formattersByFormat.get(formatName);
+        if (registeredFormatter && registeredFormatter !== formatter) {
+            throw new Error(getMessage('DuplicateOutputFormat', this.outputKind, formatName));
+        }
+        this.formattersByFormat.set(formatName, formatter);
+    }
+
+    unregister(formatName: string): boolean {
+        return this.formattersByFormat.delete(formatName);
+    }
+
+    getRegisteredFormats(): string[] {
+        return [...this.formattersByFormat.keys()];
+    }
+
+    getFormatter(format: string): T {
+        const formatter: T | undefined = this.formattersByFormat.get(format);
+        if (!formatter) {
+            throw new Error(getMessage('UnsupportedOutputFormat', this.outputKind, format, this.outputKind,
+                this.getRegisteredFormats().join(', ')));
+        }
+        return formatter;
+    }
+}
@@ -1,3 +1,20 @@
+// Registers the built-in rule selection formatters, which rules.ts can't import itself without depending on output-format.ts
+import "./rule-selection-output-format"
+
+export {
+    Baseline
+} from "./baseline"
+
+export {
+    ComparisonCategory,
+    RunResultsComparison
+} from "./comparison"
+
+export {
+    ComparisonOutputFormat,
+    ComparisonOutputFormatter
+} from "./comparison-output-format"
+
 export {
     CodeAnalyzerConfig
 } from "./config"
@@ -18,9 +35,14 @@ export {
     LogLevel
 } from "./events"
 
+export {
+    JsonResultsReader
+} from "./json-results-reader"
+
 export {
     OutputFormat,
-    OutputFormatter
+    OutputFormatter,
+    OutputOptions
 } from "./output-format"
 
 export {
@@ -31,12 +53,26 @@ export {
 } from "./results"
 
 export {
+    RunResultsMerger
+} from "./results-merger"
+
+export {
+    MatchedRuleAttribute,
     Rule,
+    RuleAttribute,
     RuleSelection,
+    RuleSelectionOutputFormat,
+    RuleSelectionOutputFormatter,
+    RuleSelectionReason,
     RuleType,
     SeverityLevel
 } from "./rules"
 
 export {
-    Workspace
-} from "./workspace"
\ No newline at end of file
+    SuppressedViolation
+} from "./suppressions"
+
+export {
+    Workspace,
+    WorkspaceShard
+} from "./workspace"
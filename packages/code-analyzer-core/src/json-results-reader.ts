@@ -0,0 +1,364 @@
+import {CodeLocation, EngineRunResults, RunResults, RunResultsImpl, UndefinedCodeLocation, Violation} from "./results";
+import {Rule, RuleSelectionImpl, RuleType, SeverityLevel} from "./rules";
+import {JSON_OUTPUT_FORMAT_VERSION, ResultsOutput, RuleOutput, SuppressedViolationOutput, ViolationOutput} from "./output-format";
+import {SuppressedViolation, SuppressedViolationImpl} from "./suppressions";
+import {FingerprintGenerator} from "./fingerprints";
+import {getMessage} from "./messages";
+import {toAbsolutePath} from "./utils";
+import fs from "node:fs";
+import path from "node:path";
+
+/**
+ * Reads run results back from the output of the JSON output format so that saved results can be converted to other
+ * formats or compared with other results later on. Output from before version 1.1 only holds the violations, so the rule
+ * selection of its results only holds the rules that have violations, and the descriptions of these rules are not available.
+ * The files of the violations are resolved against the run directory that is recorded in the output, and any violations
+ * without a fingerprint (like in output from before fingerprints were added) get their fingerprint generated from the
+ * code that is currently in their files.
+ */
+export class JsonResultsReader {
+    public static readFromFile(file: string): RunResults {
+        file = toAbsolutePath(file);
+        if (!fs.existsSync(file)) {
+            throw new Error(getMessage('JsonOutputFileDoesNotExist', file));
+        }
+        return JsonResultsReader.readFromJsonString(fs.readFileSync(file, 'utf8'));
+    }
+
+    public static readFromJsonString(jsonString: string): RunResults {
+        let data: unknown;
+        try {
+            data = JSON.parse(jsonString);
+        } catch (err) {
+            throw new Error(getMessage('JsonOutputFailedToParse', (err as Error).message), { cause: err });
+        }
+        if (!isValidResultsOutput(data)) {
+            throw new Error(getMessage('JsonOutputInvalid'));
+        }
+        // Output from before the version was added is read as the first version
+        if (data.version !== undefined && getMajorVersion(data.version) != getMajorVersion(JSON_OUTPUT_FORMAT_VERSION)) {
+            throw new Error(getMessage('JsonOutputVersionUnsupported', data.version, JSON_OUTPUT_FORMAT_VERSION));
+        }
+        return toRunResults(data);
+    }
+}
+
+function getMajorVersion(version: string): string {
+    return version.split('.')[0];
+}
+
+// The violation outputs that are read back may be missing their fingerprint, in which case it is generated again
+type ReadViolationOutput = Omit<ViolationOutput, 'fingerprint'> & {fingerprint?: string}
+
+type ReadSuppressedViolationOutput = ReadViolationOutput & Pick<SuppressedViolationOutput, 'justification'>
+
+// Any of the fields that were added after the first version may be missing from the output that is read back
+type ReadResultsOutput = Pick<ResultsOutput, 'runDir'> & {
+    version?: string
+    rules?: RuleOutput[]
+    violations: ReadViolationOutput[]
+    suppressedViolations?: ReadSuppressedViolationOutput[]
+    baselinedViolations?: ReadViolationOutput[]
+}
+
+function isValidResultsOutput(data: unknown): data is ReadResultsOutput {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        return false;
+    }
+    const obj = data as Record<string, unknown>;
+    return (obj['version'] === undefined || typeof obj['version'] === 'string') &&
+        typeof obj['runDir'] === 'string' &&
+        (obj['rules'] === undefined || (Array.isArray(obj['rules']) && obj['rules'].every(isValidRuleOutput))) &&
+        Array.isArray(obj['violations']) && obj['violations'].every(isValidViolationOutput) &&
+        (obj['suppressedViolations'] === undefined || (Array.isArray(obj['suppressedViolations']) &&
+            obj['suppressedViolations'].every(isValidSuppressedViolationOutput))) &&
+        (obj['baselinedViolations'] === undefined || (Array.isArray(obj['baselinedViolations']) &&
+            obj['baselinedViolations'].every(isValidViolationOutput)));
+}
+
+function isValidRuleOutput(data: unknown): data is RuleOutput {
+    if (typeof data !== 'object' || data === null) {
+        return false;
+    }
+    const obj = data as Record<string, unknown>;
+    return ['rule', 'engine', 'type', 'description'].every(field => typeof obj[field] === 'string') &&
+        typeof obj['severity'] === 'number' && obj['severity'] in SeverityLevel &&
+        isStringArray(obj['tags']) && isStringArray(obj['resources']);
+}
+
+function isValidViolationOutput(data: unknown): data is ReadViolationOutput {
+    if (typeof data !== 'object' || data === null) {
+        return false;
+    }
+    const obj = data as Record<string, unknown>;
+    return ['rule', 'engine', 'type', 'message'].every(field => typeof obj[field] === 'string') &&
+        typeof obj['severity'] === 'number' && obj['severity'] in SeverityLevel &&
+        isStringArray(obj['tags']) &&
+        (obj['fingerprint'] === undefined || typeof obj['fingerprint'] === 'string') &&
+        (obj['file'] === undefined || typeof obj['file'] === 'string') &&
+        ['line', 'column', 'endLine', 'endColumn'].every(field => obj[field] === undefined || typeof obj[field] === 'number') &&
+        (obj['pathLocations'] === undefined || isStringArray(obj['pathLocations'])) &&
+        (obj['resources'] === undefined || isStringArray(obj['resources']));
+}
+
+function isValidSuppressedViolationOutput(data: unknown): data is ReadSuppressedViolationOutput {
+    return isValidViolationOutput(data) && typeof (data as Record<string, unknown>)['justification'] === 'string';
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function toRunResults(resultsOutput: ReadResultsOutput): RunResults {
+    const runDir: string = resultsOutput.runDir;
+    const suppressedViolationOutputs: ReadSuppressedViolationOutput[] = resultsOutput.suppressedViolations ?? [];
+    const baselinedViolationOutputs: ReadViolationOutput[] = resultsOutput.baselinedViolations ?? [];
+
+    // The rules of the rules section are the selected rules, where the engines are kept in the order of the rule selection
+    const ruleSelection: RuleSelectionImpl = new RuleSelectionImpl();
+    const rulesByEngineAndName: Map<string, Map<string, Rule>> = new Map();
+    for (const ruleOutput of resultsOutput.rules ?? []) {
+        const rule: JsonRule = new JsonRule(ruleOutput);
+        ruleSelection.addRule(rule);
+        getRulesByName(rulesByEngineAndName, ruleOutput.engine).set(ruleOutput.rule, rule);
+    }
+
+    // Any rules of violations that aren't in the rules section (like in output from before the rules section was added)
+    // are derived from their violations, which are grouped by engine and then by rule (in the order in which they first
+    // appear) so that each rule is only created once
+    const violationOutputsByEngineAndRule: Map<string, Map<string, ReadViolationOutput[]>> = new Map();
+    for (const violationOutput of [...resultsOutput.violations, ...suppressedViolationOutputs, ...baselinedViolationOutputs]) {
+        if (rulesByEngineAndName.get(violationOutput.engine)?.has(violationOutput.rule)) {
+            continue;
+        }
+        if (!violationOutputsByEngineAndRule.has(violationOutput.engine)) {
+            violationOutputsByEngineAndRule.set(violationOutput.engine, new Map());
+        }
+        const violationOutputsByRule: Map<string, ReadViolationOutput[]> = violationOutputsByEngineAndRule.get(violationOutput.engine)!;
+        if (!violationOutputsByRule.has(violationOutput.rule)) {
+            violationOutputsByRule.set(violationOutput.rule, []);
+        }
+        violationOutputsByRule.get(violationOutput.rule)!.push(violationOutput);
+    }
+    for (const [engineName, violationOutputsByRule] of violationOutputsByEngineAndRule.entries()) {
+        for (const [ruleName, violationOutputs] of violationOutputsByRule.entries()) {
+            const rule: JsonRule = new JsonRule(toRuleOutput(violationOutputs));
+            // Like with live results, the rules that report unexpected engine errors are not among the selected rules
+            if (rule.getType() != RuleType.UnexpectedError) {
+                ruleSelection.addRule(rule);
+            }
+            getRulesByName(rulesByEngineAndName, engineName).set(ruleName, rule);
+        }
+    }
+
+    const runResults: RunResultsImpl = new RunResultsImpl(runDir, ruleSelection);
+    for (const [engineName, rulesByName] of rulesByEngineAndName.entries()) {
+        // Like with live results, any missing fingerprints are generated per engine with the violations in their original
+        // order, since that order is what tells apart the violations that would otherwise have the same fingerprint
+        const fingerprintGenerator: FingerprintGenerator = new FingerprintGenerator(runDir);
+        const toJsonViolation = (v: ReadViolationOutput): JsonViolation =>
+            new JsonViolation(v, rulesByName.get(v.rule) as Rule, runDir, fingerprintGenerator);
+        runResults.addEngineRunResults(new JsonEngineRunResults(engineName,
+            resultsOutput.violations.filter(v => v.engine == engineName).map(toJsonViolation),
+            suppressedViolationOutputs.filter(v => v.engine == engineName).map(v =>
+                new SuppressedViolationImpl(toJsonViolation(v), v.justification)),
+            baselinedViolationOutputs.filter(v => v.engine == engineName).map(toJsonViolation)));
+    }
+    return runResults;
+}
+
+function getRulesByName(rulesByEngineAndName: Map<string, Map<string, Rule>>, engineName: string): Map<string, Rule> {
+    if (!rulesByEngineAndName.has(engineName)) {
+        rulesByEngineAndName.set(engineName, new Map());
+    }
+    return rulesByEngineAndName.get(engineName)!;
+}
+
+/**
+ * Derives the output of a rule from the outputs of its violations. Since the violations don't hold the description of
+ * their rule, the description is not available.
+ */
+function toRuleOutput(violationOutputs: ReadViolationOutput[]): RuleOutput {
+    const violationOutput: ReadViolationOutput = violationOutputs[0];
+    return {
+        rule: violationOutput.rule,
+        engine: violationOutput.engine,
+        severity: violationOutput.severity,
+        type: violationOutput.type,
+        tags: violationOutput.tags,
+        description: '',
+        // The resource urls of each violation start with the resource urls of its rule, followed by any urls that are
+        // specific to the violation. So the urls that all of the violations have in common are the urls of the rule.
+        resources: (violationOutput.resources ?? []).filter(url => violationOutputs.every(v => v.resources?.includes(url)))
+    };
+}
+
+class JsonRule implements Rule {
+    private readonly ruleOutput: RuleOutput;
+
+    constructor(ruleOutput: RuleOutput) {
+        this.ruleOutput = ruleOutput;
+    }
+
+    getName(): string {
+        return this.ruleOutput.rule;
+    }
+
+    getEngineName(): string {
+        return this.ruleOutput.engine;
+    }
+
+    getSeverityLevel(): SeverityLevel {
+        return this.ruleOutput.severity as SeverityLevel;
+    }
+
+    getType(): RuleType {
+        return this.ruleOutput.type as RuleType;
+    }
+
+    getTags(): string[] {
+        return this.ruleOutput.tags;
+    }
+
+    getDescription(): string {
+        return this.ruleOutput.description;
+    }
+
+    getResourceUrls(): string[] {
+        return this.ruleOutput.resources;
+    }
+}
+
+class JsonCodeLocation implements CodeLocation {
+    private readonly file: string;
+    private readonly startLine?: number;
+    private readonly startColumn?: number;
+    private readonly endLine?: number;
+    private readonly endColumn?: number;
+
+    constructor(file: string, startLine?: number, startColumn?: number, endLine?: number, endColumn?: number) {
+        this.file = file;
+        this.startLine = startLine;
+        this.startColumn = startColumn;
+        this.endLine = endLine;
+        this.endColumn = endColumn;
+    }
+
+    getFile(): string {
+        return this.file;
+    }
+
+    getStartLine(): number | undefined {
+        return this.startLine;
+    }
+
+    getStartColumn(): number | undefined {
+        return this.startColumn;
+    }
+
+    getEndLine(): number | undefined {
+        return this.endLine;
+    }
+
+    getEndColumn(): number | undefined {
+        return this.endColumn;
+    }
+}
+
+class JsonViolation implements Violation {
+    private readonly violationOutput: ReadViolationOutput;
+    private readonly rule: Rule;
+    private readonly codeLocations: CodeLocation[];
+    private readonly primaryLocationIndex: number;
+    private readonly fingerprint: string;
+
+    constructor(violationOutput: ReadViolationOutput, rule: Rule, runDir: string, fingerprintGenerator: FingerprintGenerator) {
+        this.violationOutput = violationOutput;
+        this.rule = rule;
+        const primaryLocation: CodeLocation = !violationOutput.file ? UndefinedCodeLocation.INSTANCE :
+            new JsonCodeLocation(path.resolve(runDir, violationOutput.file), violationOutput.line, violationOutput.column,
+                violationOutput.endLine, violationOutput.endColumn);
+
+        // The path locations only hold the file, line, and column of each code location. So the primary location (which
+        // also holds the end of the code location) takes the place of the path location that it corresponds to.
+        const pathLocations: string[] = violationOutput.pathLocations ?? [];
+        const primaryPathLocation: string = [violationOutput.file, violationOutput.line, violationOutput.column]
+            .filter(v => v !== undefined).join(':');
+        const primaryLocationIndex: number = pathLocations.indexOf(primaryPathLocation);
+        this.primaryLocationIndex = Math.max(primaryLocationIndex, 0);
+        this.codeLocations = primaryLocationIndex < 0 ? [primaryLocation] : pathLocations.map((pathLocation, i) =>
+            i == primaryLocationIndex ? primaryLocation : parsePathLocation(pathLocation, runDir));
+        this.fingerprint = violationOutput.fingerprint ?? fingerprintGenerator.generateFingerprint(this);
+    }
+
+    getRule(): Rule {
+        return this.rule;
+    }
+
+    getMessage(): string {
+        return this.violationOutput.message;
+    }
+
+    getCodeLocations(): CodeLocation[] {
+        return this.codeLocations;
+    }
+
+    getPrimaryLocationIndex(): number {
+        return this.primaryLocationIndex;
+    }
+
+    getResourceUrls(): string[] {
+        return this.violationOutput.resources ?? [];
+    }
+
+    getFingerprint(): string {
+        return this.fingerprint;
+    }
+}
+
+class JsonEngineRunResults implements EngineRunResults {
+    private readonly engineName: string;
+    private readonly violations: Violation[];
+    private readonly suppressedViolations: SuppressedViolation[];
+    private readonly baselinedViolations: Violation[];
+
+    constructor(engineName: string, violations: Violation[], suppressedViolations: SuppressedViolation[], baselinedViolations: Violation[]) {
+        this.engineName = engineName;
+        this.violations = violations;
+        this.suppressedViolations = suppressedViolations;
+        this.baselinedViolations = baselinedViolations;
+    }
+
+    getEngineName(): string {
+        return this.engineName;
+    }
+
+    getViolationCount(): number {
+        return this.violations.length;
+    }
+
+    getViolationCountOfSeverity(severity: SeverityLevel): number {
+        return this.violations.filter(v => v.getRule().getSeverityLevel() == severity).length;
+    }
+
+    getViolations(): Violation[] {
+        return this.violations;
+    }
+
+    getBaselinedViolations(): Violation[] {
+        return this.baselinedViolations;
+    }
+
+    getSuppressedViolations(): SuppressedViolation[] {
+        return this.suppressedViolations;
+    }
+}
+
+/**
+ * Parses a path location of the format "<file>:<line>:<column>", where the line and column are optional.
+ */
+function parsePathLocation(pathLocation: string, runDir: string): CodeLocation {
+    const match: RegExpMatchArray = pathLocation.match(/^(.*?)(?::(\d+)(?::(\d+))?)?$/) as RegExpMatchArray;
+    return new JsonCodeLocation(path.resolve(runDir, match[1]),
+        match[2] ? parseInt(match[2]) : undefined, match[3] ? parseInt(match[3]) : undefined);
+}
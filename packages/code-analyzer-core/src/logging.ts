@@ -0,0 +1,62 @@
+import {EngineLogEvent, EventType, LogEvent, LogLevel} from "./events";
+import fs from "node:fs";
+import path from "node:path";
+
+const LOG_FILE_PREFIX: string = 'sfca-';
+const LOG_FILE_EXTENSION: string = '.log';
+
+/**
+ * Writes log events to a log file in the log folder. The log file is created upon the first event so that each
+ * Code Analyzer session gets its own log file. Whenever a new log file is created, the oldest log files in the log
+ * folder are removed so that no more than maxLogFiles log files are kept around.
+ */
+export class LogFileWriter {
+    private readonly logFolder: string;
+    private readonly maxLogFiles: number;
+    private logFile?: string;
+
+    constructor(logFolder: string, maxLogFiles: number) {
+        this.logFolder = logFolder;
+        this.maxLogFiles = maxLogFiles;
+    }
+
+    writeEvent(event: LogEvent | EngineLogEvent): void {
+        if (!this.logFile) {
+            this.logFile = createLogFile(this.logFolder, event.timestamp);
+            removeOldLogFiles(this.logFolder, this.maxLogFiles);
+        }
+        fs.appendFileSync(this.logFile, toLogLine(event), 'utf-8');
+    }
+}
+
+function createLogFile(logFolder: string, timestamp: Date): string {
+    // Colons and periods are replaced so that the file name is valid on all platforms. Since the ISO format is used,
+    // sorting the log files by name is the same as sorting them by creation time.
+    const baseName: string = LOG_FILE_PREFIX + timestamp.toISOString().replace(/[:.]/g, '-');
+    for (let attempt = 0; ; attempt++) {
+        const logFile: string = path.join(logFolder, baseName + (attempt == 0 ? '' : `_${attempt}`) + LOG_FILE_EXTENSION);
+        try {
+            fs.closeSync(fs.openSync(logFile, 'wx')); // Using 'wx' so that we never append to another session's log file
+            return logFile;
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code !== 'EEXIST') {
+                throw err;
+            }
+        }
+    }
+}
+
+function removeOldLogFiles(logFolder: string, maxLogFiles: number): void {
+    const logFileNames: string[] = fs.readdirSync(logFolder)
+        .filter(f => f.startsWith(LOG_FILE_PREFIX) && f.endsWith(LOG_FILE_EXTENSION))
+        .sort();
+    for (const logFileName of logFileNames.slice(0, Math.max(0, logFileNames.length - maxLogFiles))) {
+        // Another session may be removing the same file at the same time, so we force the removal to not error
+        fs.rmSync(path.join(logFolder, logFileName), {force: true});
+    }
+}
+
+function toLogLine(event: LogEvent | EngineLogEvent): string {
+    const source: string = event.type == EventType.EngineLogEvent ? `Engine:${event.engineName}` : 'Core';
+    return `[${event.timestamp.toISOString()}] ${LogLevel[event.logLevel].padEnd(5)} ${source} - ${event.message}\n`;
+}
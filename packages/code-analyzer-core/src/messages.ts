@@ -16,6 +16,18 @@ const messageCatalog : { [key: string]: string } = {
     UnexpectedEngineErrorViolationMessage:
         'The engine with name "%s" threw an unexpected error: %s',
 
+    EngineTimeoutRuleDescription:
+        'This rule reports a violation when engine "%s" does not finish running within the configured timeout.',
+
+    EngineTimeoutViolationMessage:
+        'The engine with name "%s" did not finish running within the configured timeout of %d seconds.',
+
+    EngineCancelledRuleDescription:
+        'This rule reports a violation when the run is cancelled before engine "%s" finishes running.',
+
+    EngineCancelledViolationMessage:
+        'The engine with name "%s" did not finish running because the run was cancelled.',
+
     PluginErrorFromGetAvailableEngineNames:
         `Failed to add engine plugin. The plugin's getAvailableNames method threw an error:\n%s`,
 
@@ -28,9 +40,15 @@ const messageCatalog : { [key: string]: string } = {
     FailedToDynamicallyAddEnginePlugin:
         'Failed to dynamically add engine plugin from module "%s" because the module does not seem to export a "createEnginePlugin" function.',
 
+    FailedToAddCustomEnginePluginModule:
+        'Failed to add the engine plugin module "%s" listed in the %s configuration value. Error: %s',
+
     EngineAdded:
         'Engine with name "%s" was added to Code Analyzer.',
 
+    FailedToWriteToLogFile:
+        'Failed to write to the log file in the log folder "%s". No further log events will be written to a log file. Error: %s',
+
     ConfigFileDoesNotExist:
         'The specified configuration file "%s" does not exist.',
 
@@ -52,15 +70,84 @@ const messageCatalog : { [key: string]: string } = {
     ConfigValueNotAValidStringArray:
         'The %s configuration value must an array of strings. Instead received: %s',
 
+    ConfigValueNotAPositiveInteger:
+        'The %s configuration value must be a positive integer. Instead received: %s',
+
+    ConfigValueNotANonNegativeNumber:
+        'The %s configuration value must be a non-negative number. Instead received: %s',
+
     ConfigValueFolderMustExist:
         'The folder specified by the %s configuration value does not exist: %s',
 
     ConfigValueMustBeFolder:
         'The %s configuration value is not a folder: %s',
 
+    ConfigValueNotAValidRuleSetName:
+        'The %s configuration value contains the invalid rule set name "%s". Rule set names must not be empty or contain whitespace or any of the characters: ,:!()<>=',
+
+    ConfigValueNotAValidRuleSelector:
+        'The %s configuration value contains an invalid rule selector. Error: %s',
+
+    DuplicateOutputFormat:
+        'Failed to register a formatter for the %s format "%s" because a different formatter has already been registered for this format. Unregister that formatter first to replace it.',
+
+    UnsupportedOutputFormat:
+        'Unsupported %s format: %s. The registered %s formats are: %s',
+
+    OutputFileExtensionUnsupported:
+        'Failed to determine the output format of the output file "%s" from its extension. The supported extensions are: %s',
+
+    BaselineFileDoesNotExist:
+        'The specified baseline file "%s" does not exist.',
+
+    BaselineContentFailedToParse:
+        'Failed to parse the baseline content. Error:\n%s',
+
+    BaselineContentInvalid:
+        'The baseline content is invalid. Expected an object with a "violations" array whose entries each have string values for "engine", "rule", "file", and "message".',
+
+    JsonOutputFileDoesNotExist:
+        'The specified JSON output file "%s" does not exist.',
+
+    JsonOutputFailedToParse:
+        'Failed to parse the JSON output. Error:\n%s',
+
+    JsonOutputInvalid:
+        'The JSON output is invalid. Expected an object with a "runDir" string and a "violations" array whose entries each have the "rule", "engine", "severity", "type", "tags", and "message" values that are produced by the JSON output format.',
+
+    JsonOutputVersionUnsupported:
+        'The JSON output has the version "%s", which is not supported by this version of Code Analyzer. The supported version is "%s".',
+
     RulePropertyOverridden:
         'The %s value of rule "%s" of engine "%s" was overridden according to the specified configuration. The old value of %s was replaced with the new value of %s.',
 
+    RuleDisabled:
+        'The rule "%s" of engine "%s" is disabled according to the specified configuration, so it will not be selected.',
+
+    RuleSelectorUnexpectedToken:
+        'Failed to parse the rule selector "%s" since it contains an unexpected "%s" at position %d.',
+
+    RuleSelectorUnexpectedEnd:
+        'Failed to parse the rule selector "%s" since it ends unexpectedly. Make sure that the selector is not empty, that every "(" has a matching ")", and that every operator is followed by a selector.',
+
+    RuleSelectorInvalidComparison:
+        'Failed to parse the rule selector "%s" since it contains the invalid comparison "%s". Comparisons must be of the form "severity<operator><value>", where the operator is one of: %s and the value is a severity level number or one of: %s',
+
+    RuleSelectorMatchesNoRules:
+        'The rule selector "%s" does not match any rules.',
+
+    RuleSelectorPartMatchesNoRules:
+        'The "%s" part of the rule selector "%s" does not match any rules.',
+
+    RuleSelectorSuggestions:
+        'Did you mean: %s?',
+
+    SuppressionMarkerHasMalformedRuleSelector:
+        'The suppression marker on line %d of file "%s" does not suppress any violations since its rule selector is malformed. Error: %s',
+
+    InvalidShardCount:
+        'The shard count must be a positive integer. Instead received: %s',
+
     FileOrFolderDoesNotExist:
         'The file or folder "%s" does not exist.',
 
@@ -85,6 +172,9 @@ const messageCatalog : { [key: string]: string } = {
     RunningEngineWithRules:
         'Running engine "%s" with the following rules: %s',
 
+    RuleSelected:
+        'Selected rule "%s" of engine "%s" for the following reasons: %s',
+
     RuleDoesNotExistInSelection:
         'No rule with name "%s" and engine "%s" exists among the selected rules.',
 
@@ -1,33 +1,107 @@
-import {CodeLocation, RunResults, Violation} from "./results";
-import {Rule, RuleType, SeverityLevel} from "./rules";
+import {CodeLocation, EngineRunResults, RunResults, Violation} from "./results";
+import {Rule, RuleSelection, RuleType, SeverityLevel} from "./rules";
+import {SuppressedViolation} from "./suppressions";
+import {FormatterRegistry} from "./formatter-registry";
+import {getMessage} from "./messages";
+import {FileLinesReader} from "./utils";
+import path from "node:path";
+import {pathToFileURL} from "node:url";
 import {stringify as stringifyToCsv} from "csv-stringify/sync";
 import {Options as CsvOptions} from "csv-stringify";
 import * as xmlbuilder from "xmlbuilder";
 
 export enum OutputFormat {
     CSV = "CSV",
+    HTML = "HTML",
     JSON = "JSON",
+    JUNIT = "JUNIT",
+    MARKDOWN = "MARKDOWN",
+    SARIF = "SARIF",
     XML = "XML"
 }
 
+// Maps the file extensions that are recognized when writing results to files to the format that they are written in
+const OUTPUT_FORMATS_BY_FILE_EXTENSION: Record<string, OutputFormat> = {
+    '.csv': OutputFormat.CSV,
+    '.htm': OutputFormat.HTML,
+    '.html': OutputFormat.HTML,
+    '.json': OutputFormat.JSON,
+    '.junit.xml': OutputFormat.JUNIT,
+    '.md': OutputFormat.MARKDOWN,
+    '.sarif': OutputFormat.SARIF,
+    '.xml': OutputFormat.XML
+};
+
+export type OutputOptions = {
+    // Whether to include the source code around each code location of each violation (in the formats that support it)
+    includeCodeSnippets?: boolean
+
+    // The number of lines to include before and after the lines of each code location, which defaults to 2
+    codeSnippetContextLines?: number
+
+    // The maximum number of characters of each line to include, beyond which the line is cut off, which defaults to 200
+    codeSnippetMaxLineLength?: number
+}
+
+const DEFAULT_CODE_SNIPPET_CONTEXT_LINES: number = 2;
+const DEFAULT_CODE_SNIPPET_MAX_LINE_LENGTH: number = 200;
+
 export abstract class OutputFormatter {
-    abstract format(results: RunResults): string
+    private static readonly registry: FormatterRegistry<OutputFormatter> = new FormatterRegistry('output');
+
+    abstract format(results: RunResults, options?: OutputOptions): string
 
-    static forFormat(format: OutputFormat) {
-        switch (format) {
-            case OutputFormat.CSV:
-                return new CsvOutputFormatter();
-            case OutputFormat.JSON:
-                return new JsonOutputFormatter();
-            case OutputFormat.XML:
-                return new XmlOutputFormatter();
-            default:
-                throw new Error(`Unsupported output format: ${format}`);
+    /**
+     * Optionally produces the same output as format, but in chunks, so that large results can be written out without
+     * building the entire output as a single string.
+     */
+    formatInChunks?(results: RunResults, options?: OutputOptions): Iterable<string>
+
+    /**
+     * Registers a formatter with the provided format name so that RunResults.toFormattedOutput can produce output in
+     * that format. The built-in formats (see OutputFormat) are registered this same way. Registering the same formatter
+     * again is a no-op, whereas registering a different formatter with the same format name errors unless the previous
+     * formatter is unregistered first.
+     */
+    static register(formatName: string, formatter: OutputFormatter): void {
+        OutputFormatter.registry.register(formatName, formatter);
+    }
+
+    /**
+     * Unregisters the formatter with the provided format name, returning whether a formatter was registered with it.
+     */
+    static unregister(formatName: string): boolean {
+        return OutputFormatter.registry.unregister(formatName);
+    }
+
+    static getRegisteredFormats(): string[] {
+        return OutputFormatter.registry.getRegisteredFormats();
+    }
+
+    static getFormatForFile(file: string): OutputFormat {
+        // Since some extensions have multiple parts (like .junit.xml), the longest extension that the file ends with wins
+        const fileName: string = path.basename(file).toLowerCase();
+        const extension: string | undefined = Object.keys(OUTPUT_FORMATS_BY_FILE_EXTENSION)
+            .filter(ext => fileName.endsWith(ext)).sort((ext1, ext2) => ext2.length - ext1.length)[0];
+        const format: OutputFormat | undefined = extension ? OUTPUT_FORMATS_BY_FILE_EXTENSION[extension] : undefined;
+        if (!format) {
+            throw new Error(getMessage('OutputFileExtensionUnsupported', file,
+                Object.keys(OUTPUT_FORMATS_BY_FILE_EXTENSION).join(', ')));
         }
+        return format;
+    }
+
+    static forFormat(format: OutputFormat | string): OutputFormatter {
+        return OutputFormatter.registry.getFormatter(format);
     }
 }
 
-type ResultsOutput = {
+// The version of the structure of the JSON output, whose major version is incremented whenever a change to the structure
+// would prevent previously saved JSON output from being read back in
+export const JSON_OUTPUT_FORMAT_VERSION: string = '1.1';
+
+export type ResultsOutput = {
+    version: string
     runDir: string
     violationCounts: {
         total: number
@@ -37,10 +111,24 @@ type ResultsOutput = {
         sev4: number
         sev5: number
     }
+    rules: RuleOutput[] // Since version 1.1
     violations: ViolationOutput[]
+    suppressedViolations: SuppressedViolationOutput[] // Since version 1.1
+    baselinedViolations: ViolationOutput[] // Since version 1.1
 }
 
-type ViolationOutput = {
+// The rules are listed once (rather than with each of their violations) so that their descriptions can be included
+export type RuleOutput = {
+    rule: string
+    engine: string
+    severity: number
+    type: string
+    tags: string[]
+    description: string
+    resources: string[]
+}
+
+export type ViolationOutput = {
     id: number
     rule: string
     engine: string
@@ -55,16 +143,30 @@ type ViolationOutput = {
     pathLocations?: string[]
     message: string
     resources?: string[]
+    fingerprint: string
+    codeSnippets?: CodeSnippetOutput[]
+}
+
+export type SuppressedViolationOutput = ViolationOutput & {
+    justification: string
+}
+
+type CodeSnippetOutput = {
+    location: string
+    snippet: string
 }
 
 class CsvOutputFormatter implements OutputFormatter {
     format(results: RunResults): string {
-        const violationOutputs: ViolationOutput[] = toViolationOutputs(results.getViolations(), results.getRunDirectory());
+        return [...this.formatInChunks(results)].join('');
+    }
+
+    *formatInChunks(results: RunResults): Iterable<string> {
         const options: CsvOptions = {
             header: true,
             quoted_string: true,
             columns: ['id', 'rule', 'engine', 'severity', 'type', 'tags', 'file', 'line', 'column',
-                'endLine', 'endColumn', 'pathLocations', 'message', 'resources'],
+                'endLine', 'endColumn', 'pathLocations', 'message', 'resources', 'fingerprint'],
             cast: {
                 object: value => {
                     if (Array.isArray(value)) {
@@ -75,104 +177,798 @@ class CsvOutputFormatter implements OutputFormatter {
                 }
             }
         };
-        return stringifyToCsv(violationOutputs, options);
+        yield stringifyToCsv([], options); // Just the header
+        const violations: Violation[] = results.getViolations();
+        for (let i = 0; i < violations.length; i++) {
+            yield stringifyToCsv([createViolationOutput(i+1, violations[i], results.getRunDirectory())], {...options, header: false});
+        }
     }
 }
 
 class JsonOutputFormatter implements OutputFormatter {
-    format(results: RunResults): string {
-        const resultsOutput: ResultsOutput = toResultsOutput(results);
-        return JSON.stringify(resultsOutput, undefined, 2);
+    format(results: RunResults, options?: OutputOptions): string {
+        return [...this.formatInChunks(results, options)].join('');
+    }
+
+    *formatInChunks(results: RunResults, options?: OutputOptions): Iterable<string> {
+        const codeSnippetCreator: CodeSnippetCreator | undefined = CodeSnippetCreator.fromOptions(options);
+        const runDir: string = results.getRunDirectory();
+        const resultsOutputWithoutViolations: ResultsOutput = {
+            version: JSON_OUTPUT_FORMAT_VERSION,
+            runDir: runDir,
+            violationCounts: toViolationCountsOutput(results),
+            rules: toRuleOutputs(results.getRuleSelection()),
+            violations: [],
+            suppressedViolations: [],
+            baselinedViolations: []
+        };
+
+        // The ids of the suppressed and baselined violations continue after the ids of the violations so that every id is unique
+        const violations: Violation[] = results.getViolations();
+        const suppressedViolations: SuppressedViolation[] = results.getSuppressedViolations();
+        const firstBaselinedId: number = violations.length + suppressedViolations.length + 1;
+        yield* fillLastEmptyJsonArrays(JSON.stringify(resultsOutputWithoutViolations, undefined, 2), [
+            toJsonArrayItems(violations, (violation, i) =>
+                [JSON.stringify(createViolationOutput(i+1, violation, runDir, codeSnippetCreator), undefined, 2)]),
+            toJsonArrayItems(suppressedViolations, (suppressedViolation, i) =>
+                [JSON.stringify(createSuppressedViolationOutput(violations.length+i+1, suppressedViolation, runDir, codeSnippetCreator), undefined, 2)]),
+            toJsonArrayItems(results.getBaselinedViolations(), (violation, i) =>
+                [JSON.stringify(createViolationOutput(firstBaselinedId+i, violation, runDir, codeSnippetCreator), undefined, 2)])
+        ]);
     }
 }
 
+function toRuleOutputs(ruleSelection: RuleSelection): RuleOutput[] {
+    return ruleSelection.getEngineNames().flatMap(engineName => ruleSelection.getRulesFor(engineName).map(rule => ({
+        rule: rule.getName(),
+        engine: engineName,
+        severity: rule.getSeverityLevel(),
+        type: rule.getType(),
+        tags: rule.getTags(),
+        description: rule.getDescription(),
+        resources: rule.getResourceUrls()
+    })));
+}
+
+function createSuppressedViolationOutput(id: number, suppressedViolation: SuppressedViolation, runDir: string,
+                                         codeSnippetCreator?: CodeSnippetCreator): SuppressedViolationOutput {
+    return {
+        ...createViolationOutput(id, suppressedViolation.getViolation(), runDir, codeSnippetCreator),
+        justification: suppressedViolation.getJustification()
+    };
+}
+
+/**
+ * The items that go into an empty json array, where each item is only converted to chunks of json (stringified at the
+ * top level with an indentation of 2) once its turn comes.
+ */
+type JsonArrayItems = {
+    count: number
+    toJsonChunks: (index: number) => Iterable<string>
+}
+
+function toJsonArrayItems<T>(items: T[], toJsonChunks: (item: T, index: number) => Iterable<string>): JsonArrayItems {
+    return {
+        count: items.length,
+        toJsonChunks: (index: number) => toJsonChunks(items[index], index)
+    };
+}
+
+/**
+ * Produces the same json as the provided json (stringified with an indentation of 2) would be if its last array, which
+ * must be empty, contained the provided items. To avoid holding all of the items as json at once, each item is only
+ * converted to json once its turn comes.
+ */
+function fillLastEmptyJsonArray<T>(json: string, items: T[], toJsonChunks: (item: T, index: number) => Iterable<string>): Iterable<string> {
+    return fillLastEmptyJsonArrays(json, [toJsonArrayItems(items, toJsonChunks)]);
+}
+
+/**
+ * Like fillLastEmptyJsonArray, but fills as many of the last empty arrays of the json as there are arrays of items, in
+ * the order that they appear in the json.
+ */
+function* fillLastEmptyJsonArrays(json: string, arraysOfItems: JsonArrayItems[]): Iterable<string> {
+    const emptyArrayIndices: number[] = [];
+    for (let i = 0; i < arraysOfItems.length; i++) {
+        emptyArrayIndices.unshift(json.lastIndexOf('[]', (emptyArrayIndices[0] ?? json.length) - 1));
+    }
+
+    let jsonIndex: number = 0;
+    for (let i = 0; i < arraysOfItems.length; i++) {
+        const emptyArrayIndex: number = emptyArrayIndices[i];
+        const arrayItems: JsonArrayItems = arraysOfItems[i];
+        yield json.substring(jsonIndex, emptyArrayIndex + 1);
+        if (arrayItems.count > 0) {
+            const indentation: string = ' '.repeat(json.substring(json.lastIndexOf('\n', emptyArrayIndex) + 1).search(/\S/));
+            for (let j = 0; j < arrayItems.count; j++) {
+                yield (j > 0 ? ',' : '') + `\n${indentation}  `;
+                for (const chunk of arrayItems.toJsonChunks(j)) {
+                    yield chunk.replace(/\n/g, `\n${indentation}  `);
+                }
+            }
+            yield `\n${indentation}`;
+        }
+        jsonIndex = emptyArrayIndex + 1;
+    }
+    yield json.substring(jsonIndex);
+}
+
 class XmlOutputFormatter implements OutputFormatter {
-    format(results: RunResults): string {
-        const resultsOutput: ResultsOutput = toResultsOutput(results);
+    format(results: RunResults, options?: OutputOptions): string {
+        return [...this.formatInChunks(results, options)].join('');
+    }
+
+    *formatInChunks(results: RunResults, options?: OutputOptions): Iterable<string> {
+        const codeSnippetCreator: CodeSnippetCreator | undefined = CodeSnippetCreator.fromOptions(options);
+        const violationCounts: ResultsOutput['violationCounts'] = toViolationCountsOutput(results);
 
         const resultsNode: xmlbuilder.XMLElement = xmlbuilder.create('results', {version: '1.0', encoding: 'UTF-8'});
-        resultsNode.node('runDir').text(resultsOutput.runDir);
+        resultsNode.node('runDir').text(results.getRunDirectory());
         const violationCountsNode: xmlbuilder.XMLElement = resultsNode.node('violationCounts');
-        violationCountsNode.node('total').text(`${resultsOutput.violationCounts.total}`);
-        violationCountsNode.node('sev1').text(`${resultsOutput.violationCounts.sev1}`);
-        violationCountsNode.node('sev2').text(`${resultsOutput.violationCounts.sev2}`);
-        violationCountsNode.node('sev3').text(`${resultsOutput.violationCounts.sev3}`);
-        violationCountsNode.node('sev4').text(`${resultsOutput.violationCounts.sev4}`);
-        violationCountsNode.node('sev5').text(`${resultsOutput.violationCounts.sev5}`);
-
-        const violationsNode: xmlbuilder.XMLElement = resultsNode.node('violations');
-        for (const violationOutput of resultsOutput.violations) {
-            const violationNode: xmlbuilder.XMLElement = violationsNode.node('violation');
-            violationNode.attribute('id', violationOutput.id);
-            violationNode.node('rule').text(violationOutput.rule);
-            violationNode.node('engine').text(violationOutput.engine);
-            violationNode.node('severity').text(`${violationOutput.severity}`);
-            violationNode.node('type').text(violationOutput.type);
-            const tagsNode: xmlbuilder.XMLElement = violationNode.node('tags');
-            for (const tag of violationOutput.tags) {
-                tagsNode.node('tag').text(tag);
-            }
-            if (violationOutput.file) {
-                violationNode.node('file').text(violationOutput.file);
-            }
-            if (violationOutput.line) {
-                violationNode.node('line').text(`${violationOutput.line}`);
-            }
-            if (violationOutput.column) {
-                violationNode.node('column').text(`${violationOutput.column}`);
-            }
-            if (violationOutput.endLine) {
-                violationNode.node('endLine').text(`${violationOutput.endLine}`);
-            }
-            if (violationOutput.endColumn) {
-                violationNode.node('endColumn').text(`${violationOutput.endColumn}`);
-            }
-            if (violationOutput.pathLocations) {
-                const pathLocationsNode: xmlbuilder.XMLElement = violationNode.node('pathLocations');
-                for (const pathLocation of violationOutput.pathLocations) {
-                    pathLocationsNode.node('pathLocation', pathLocation);
-                }
+        violationCountsNode.node('total').text(`${violationCounts.total}`);
+        violationCountsNode.node('sev1').text(`${violationCounts.sev1}`);
+        violationCountsNode.node('sev2').text(`${violationCounts.sev2}`);
+        violationCountsNode.node('sev3').text(`${violationCounts.sev3}`);
+        violationCountsNode.node('sev4').text(`${violationCounts.sev4}`);
+        violationCountsNode.node('sev5').text(`${violationCounts.sev5}`);
+        resultsNode.node('violations');
+
+        yield* fillEmptyXmlElement(renderXml(resultsNode), 'violations', 1, results.getViolations(), (violation, i) =>
+            [renderXml(createXmlViolationNode(createViolationOutput(i+1, violation, results.getRunDirectory(), codeSnippetCreator)), 2)]);
+    }
+}
+
+function createXmlViolationNode(violationOutput: ViolationOutput): xmlbuilder.XMLElement {
+    const violationNode: xmlbuilder.XMLElement = xmlbuilder.create('violation', {headless: true});
+    violationNode.attribute('id', violationOutput.id);
+    violationNode.node('rule').text(violationOutput.rule);
+    violationNode.node('engine').text(violationOutput.engine);
+    violationNode.node('severity').text(`${violationOutput.severity}`);
+    violationNode.node('type').text(violationOutput.type);
+    const tagsNode: xmlbuilder.XMLElement = violationNode.node('tags');
+    for (const tag of violationOutput.tags) {
+        tagsNode.node('tag').text(tag);
+    }
+    if (violationOutput.file) {
+        violationNode.node('file').text(violationOutput.file);
+    }
+    if (violationOutput.line) {
+        violationNode.node('line').text(`${violationOutput.line}`);
+    }
+    if (violationOutput.column) {
+        violationNode.node('column').text(`${violationOutput.column}`);
+    }
+    if (violationOutput.endLine) {
+        violationNode.node('endLine').text(`${violationOutput.endLine}`);
+    }
+    if (violationOutput.endColumn) {
+        violationNode.node('endColumn').text(`${violationOutput.endColumn}`);
+    }
+    if (violationOutput.pathLocations) {
+        const pathLocationsNode: xmlbuilder.XMLElement = violationNode.node('pathLocations');
+        for (const pathLocation of violationOutput.pathLocations) {
+            pathLocationsNode.node('pathLocation', pathLocation);
+        }
+    }
+    violationNode.node('message').text(violationOutput.message);
+    if (violationOutput.resources) {
+        const resourcesNode: xmlbuilder.XMLElement = violationNode.node('resources');
+        for (const resource of violationOutput.resources) {
+            resourcesNode.node('resource').text(resource);
+        }
+    }
+    violationNode.node('fingerprint').text(violationOutput.fingerprint);
+    if (violationOutput.codeSnippets) {
+        const codeSnippetsNode: xmlbuilder.XMLElement = violationNode.node('codeSnippets');
+        for (const codeSnippet of violationOutput.codeSnippets) {
+            codeSnippetsNode.node('codeSnippet').attribute('location', codeSnippet.location).text(codeSnippet.snippet);
+        }
+    }
+    return violationNode;
+}
+
+/**
+ * Produces the same xml as the provided xml (pretty printed) would be if its last element with the provided name, which
+ * must be empty and at the provided depth, contained the elements of the provided items. To avoid holding all of the items
+ * as xml at once, each item is only converted to chunks of xml (pretty printed one level deeper) once its turn comes.
+ */
+function* fillEmptyXmlElement<T>(xml: string, elementName: string, depth: number, items: T[],
+                                 toXmlChunks: (item: T, index: number) => Iterable<string>): Iterable<string> {
+    if (items.length == 0) {
+        yield xml;
+        return;
+    }
+    const closingTagIndex: number = xml.lastIndexOf(`></${elementName}>`) + 1;
+    yield xml.substring(0, closingTagIndex);
+    for (let i = 0; i < items.length; i++) {
+        yield '\n';
+        yield* toXmlChunks(items[i], i);
+    }
+    yield '\n' + '  '.repeat(depth) + xml.substring(closingTagIndex);
+}
+
+function renderXml(element: xmlbuilder.XMLElement, depth: number = 0): string {
+    return element.end({ pretty: true, allowEmpty: true, offset: depth });
+}
+
+const HTML_REPORT_STYLE: string = `
+body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2em; color: #1f2328; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #d0d7de; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+.filters { margin: 1em 0; }
+.filters label { margin-right: 1em; }
+details.file-group { margin: 0.5em 0; }
+details.file-group > summary { cursor: pointer; font-weight: bold; padding: 4px 0; }
+table.violations { width: 100%; }
+.message { white-space: pre-wrap; }
+.sev1 { color: #cf222e; } .sev2 { color: #bc4c00; } .sev3 { color: #9a6700; } .sev4 { color: #0969da; } .sev5 { color: #57606a; }
+ol.path-locations { margin: 0.5em 0 0 0; font-family: monospace; }
+pre.code-snippet { margin: 0.5em 0 0 0; padding: 4px; background: #f6f8fa; overflow-x: auto; }`;
+
+// Hides the violations that do not match the selected filters and then hides the file groups that have no visible violations
+const HTML_REPORT_SCRIPT: string = `
+function applyFilters() {
+  const engine = document.getElementById('engineFilter').value;
+  const severity = document.getElementById('severityFilter').value;
+  const tag = document.getElementById('tagFilter').value;
+  for (const group of document.querySelectorAll('details.file-group')) {
+    let visibleCount = 0;
+    for (const row of group.querySelectorAll('tr.violation')) {
+      const visible = (engine === '' || row.dataset.engine === engine)
+        && (severity === '' || row.dataset.severity === severity)
+        && (tag === '' || row.dataset.tags.split(',').includes(tag));
+      row.hidden = !visible;
+      visibleCount += visible ? 1 : 0;
+    }
+    group.hidden = visibleCount === 0;
+    group.querySelector('.visible-count').textContent = visibleCount;
+  }
+}
+for (const filter of document.querySelectorAll('.filters select')) {
+  filter.addEventListener('change', applyFilters);
+}`;
+
+/**
+ * Produces a single self-contained html file (with inline styles and script) so that the report can be viewed offline.
+ */
+class HtmlOutputFormatter implements OutputFormatter {
+    format(results: RunResults, options?: OutputOptions): string {
+        return [...this.formatInChunks(results, options)].join('');
+    }
+
+    *formatInChunks(results: RunResults, options?: OutputOptions): Iterable<string> {
+        const violations: Violation[] = results.getViolations();
+        const lines: string[] = [
+            '<!DOCTYPE html>',
+            '<html lang="en">',
+            '<head>',
+            '<meta charset="UTF-8">',
+            '<title>Code Analyzer Report</title>',
+            `<style>${HTML_REPORT_STYLE}\n</style>`,
+            '</head>',
+            '<body>',
+            '<h1>Code Analyzer Report</h1>',
+            `<p>Run directory: <code>${escapeHtml(results.getRunDirectory())}</code></p>`,
+            ...createHtmlSummaryTable(toViolationCountsOutput(results)),
+            ...createHtmlBaselineSummary(results.getBaselinedViolations().length),
+            ...createHtmlFilters(violations)
+        ];
+        yield lines.join('\n');
+        for (const line of createHtmlFileGroups(violations, results.getRunDirectory(), CodeSnippetCreator.fromOptions(options))) {
+            yield '\n' + line;
+        }
+        yield '\n' + [`<script>${HTML_REPORT_SCRIPT}\n</script>`, '</body>', '</html>'].join('\n');
+    }
+}
+
+function createHtmlSummaryTable(counts: ResultsOutput['violationCounts']): string[] {
+    return [
+        '<table class="summary">',
+        '<tr><th>Total</th>' + [1, 2, 3, 4, 5].map(sev => `<th class="sev${sev}">${toSeverityLabel(sev)}</th>`).join('') + '</tr>',
+        `<tr><td>${counts.total}</td><td>${counts.sev1}</td><td>${counts.sev2}</td><td>${counts.sev3}</td><td>${counts.sev4}</td><td>${counts.sev5}</td></tr>`,
+        '</table>'
+    ];
+}
+
+function createHtmlBaselineSummary(baselinedViolationCount: number): string[] {
+    if (baselinedViolationCount == 0) {
+        return [];
+    }
+    return [`<p>Baselined violations (not listed): ${baselinedViolationCount}</p>`];
+}
+
+function createHtmlFilters(violations: Violation[]): string[] {
+    const rules: Rule[] = violations.map(v => v.getRule());
+    const engines: string[] = [...new Set(rules.map(r => r.getEngineName()))].sort();
+    const severities: number[] = [...new Set(rules.map(r => r.getSeverityLevel()))].sort();
+    const tags: string[] = [...new Set(rules.flatMap(r => r.getTags()))].sort();
+    const toOptions = (values: string[], labels: string[]) => values.map((value, i) =>
+        `<option value="${escapeHtml(value)}">${escapeHtml(labels[i])}</option>`).join('');
+    return [
+        '<div class="filters">',
+        `<label>Engine: <select id="engineFilter"><option value="">All</option>${toOptions(engines, engines)}</select></label>`,
+        `<label>Severity: <select id="severityFilter"><option value="">All</option>${toOptions(severities.map(String), severities.map(toSeverityLabel))}</select></label>`,
+        `<label>Tag: <select id="tagFilter"><option value="">All</option>${toOptions(tags, tags)}</select></label>`,
+        '</div>'
+    ];
+}
+
+/**
+ * Produces the lines of the file groups one at a time, so that the output of each violation is only created once its row is reached.
+ */
+function* createHtmlFileGroups(violations: Violation[], runDir: string, codeSnippetCreator?: CodeSnippetCreator): Iterable<string> {
+    if (violations.length == 0) {
+        yield '<p>No violations found.</p>';
+        return;
+    }
+
+    // Groups are listed in the order that their files first appear in the violations, where each violation keeps its id
+    const violationIdsByFile: Map<string, number[]> = new Map();
+    for (let i = 0; i < violations.length; i++) {
+        const groupName: string = getRelativePrimaryFile(violations[i], runDir) || '(no file)';
+        const violationIds: number[] = violationIdsByFile.get(groupName) || [];
+        violationIds.push(i + 1);
+        violationIdsByFile.set(groupName, violationIds);
+    }
+
+    for (const [groupName, violationIds] of violationIdsByFile.entries()) {
+        yield '<details class="file-group" open>';
+        yield `<summary>${escapeHtml(groupName)} (<span class="visible-count">${violationIds.length}</span>)</summary>`;
+        yield '<table class="violations">';
+        yield '<tr><th>Severity</th><th>Rule</th><th>Engine</th><th>Location</th><th>Message</th><th>Resources</th></tr>';
+        for (const id of violationIds) {
+            yield createHtmlViolationRow(createViolationOutput(id, violations[id - 1], runDir, codeSnippetCreator));
+        }
+        yield '</table>';
+        yield '</details>';
+    }
+}
+
+function createHtmlViolationRow(violationOutput: ViolationOutput): string {
+    const location: string = violationOutput.line ?
+        `${violationOutput.line}` + (violationOutput.column ? `:${violationOutput.column}` : '') : '';
+    const pathLocations: string = !violationOutput.pathLocations ? '' : '<ol class="path-locations">' +
+        violationOutput.pathLocations.map(l => `<li>${escapeHtml(l)}</li>`).join('') + '</ol>';
+    const codeSnippets: string = (violationOutput.codeSnippets || []).map(codeSnippet =>
+        `<pre class="code-snippet" title="${escapeHtml(codeSnippet.location)}">${escapeHtml(codeSnippet.snippet)}</pre>`).join('');
+    const resources: string = (violationOutput.resources || []).map(url =>
+        `<a href="${escapeHtml(url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(url)}</a>`).join('<br>');
+    return `<tr class="violation" data-engine="${escapeHtml(violationOutput.engine)}" data-severity="${violationOutput.severity}" data-tags="${escapeHtml(violationOutput.tags.join(','))}" data-fingerprint="${violationOutput.fingerprint}">` +
+        `<td class="sev${violationOutput.severity}">${toSeverityLabel(violationOutput.severity)}</td>` +
+        `<td>${escapeHtml(violationOutput.rule)}</td>` +
+        `<td>${escapeHtml(violationOutput.engine)}</td>` +
+        `<td>${location}</td>` +
+        `<td><div class="message">${escapeHtml(violationOutput.message)}</div>${pathLocations}${codeSnippets}</td>` +
+        `<td>${resources}</td></tr>`;
+}
+
+export function toSeverityLabel(severity: number): string {
+    return `${severity} (${SeverityLevel[severity]})`;
+}
+
+function escapeHtml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+/**
+ * Produces a SARIF 2.1.0 log with one run per engine. Only the parts of the SARIF specification that are needed to
+ * represent our results are modeled here. See https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+type SarifLog = {
+    version: string
+    $schema: string
+    runs: SarifRun[]
+}
+
+type SarifRun = {
+    tool: {
+        driver: {
+            name: string
+            rules: SarifRule[]
+        }
+    }
+    results: SarifResult[]
+}
+
+type SarifRule = {
+    id: string
+    shortDescription: { text: string }
+    fullDescription: { text: string }
+    helpUri?: string
+    defaultConfiguration: { level: SarifLevel }
+    properties: {
+        severity: number
+        type: string
+        tags: string[]
+        resourceUrls: string[]
+    }
+}
+
+type SarifResult = {
+    ruleId: string
+    ruleIndex: number
+    level: SarifLevel
+    message: { text: string }
+    locations: SarifLocation[]
+    relatedLocations?: SarifLocation[]
+    fingerprints: { [fingerprintType: string]: string }
+    suppressions?: SarifSuppression[]
+    codeFlows?: {
+        threadFlows: {
+            locations: { location: SarifLocation }[]
+        }[]
+    }[]
+}
+
+type SarifLocation = {
+    physicalLocation: {
+        artifactLocation: { uri: string }
+        region?: {
+            startLine: number
+            startColumn?: number
+            endLine?: number
+            endColumn?: number
+        }
+    }
+}
+
+type SarifSuppression = {
+    kind: 'inSource' | 'external'
+    justification?: string
+}
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+// The versioned name that the fingerprints of violations are listed under in the fingerprints of each SARIF result
+const SARIF_FINGERPRINT_TYPE: string = 'codeAnalyzerFingerprint/v1';
+
+class SarifOutputFormatter implements OutputFormatter {
+    format(results: RunResults): string {
+        return [...this.formatInChunks(results)].join('');
+    }
+
+    *formatInChunks(results: RunResults): Iterable<string> {
+        const sarifLogWithoutRuns: SarifLog = {
+            version: '2.1.0',
+            $schema: 'https://raw.githubusercontent.com/oasis-tcs/sarif-spec/master/Schemata/sarif-schema-2.1.0.json',
+            runs: []
+        };
+        yield* fillLastEmptyJsonArray(JSON.stringify(sarifLogWithoutRuns, undefined, 2), results.getEngineNames(),
+            engineName => toSarifRunInChunks(engineName, results));
+    }
+}
+
+// A violation along with its suppression, if it has one, from which a SARIF result is created
+type SarifResultSource = [Violation, SarifSuppression | undefined];
+
+// Baselined violations are suppressed by the baseline file rather than by the source code itself
+const SARIF_BASELINE_SUPPRESSION: SarifSuppression = {
+    kind: 'external',
+    justification: 'The violation matches an entry of the baseline.'
+};
+
+function toSarifRunInChunks(engineName: string, results: RunResults): Iterable<string> {
+    // Suppressed and baselined violations are also listed as results (along with their suppression) so that they can be audited
+    const engineRunResults: EngineRunResults = results.getEngineRunResults(engineName);
+    const resultSources: SarifResultSource[] = [
+        ...engineRunResults.getViolations().map((v): SarifResultSource => [v, undefined]),
+        ...engineRunResults.getSuppressedViolations().map((sv): SarifResultSource => [sv.getViolation(), {
+            kind: 'inSource',
+            justification: sv.getJustification() || undefined
+        }]),
+        ...engineRunResults.getBaselinedViolations().map((v): SarifResultSource => [v, SARIF_BASELINE_SUPPRESSION])
+    ];
+
+    // The rules come from the rule selection, but violations may also come from rules that were never selected (like
+    // the rule for an unexpected engine error), so we add those rules as well.
+    const rules: Rule[] = [...results.getRuleSelection().getRulesFor(engineName)];
+    for (const [violation] of resultSources) {
+        if (!rules.some(r => r.getName() == violation.getRule().getName())) {
+            rules.push(violation.getRule());
+        }
+    }
+
+    const sarifRunWithoutResults: SarifRun = {
+        tool: {
+            driver: {
+                name: engineName,
+                rules: rules.map(toSarifRule)
             }
-            violationNode.node('message').text(violationOutput.message);
-            if (violationOutput.resources) {
-                const resourcesNode: xmlbuilder.XMLElement = violationNode.node('resources');
-                for (const resource of violationOutput.resources) {
-                    resourcesNode.node('resource').text(resource);
-                }
+        },
+        results: []
+    };
+    return fillLastEmptyJsonArray(JSON.stringify(sarifRunWithoutResults, undefined, 2), resultSources, ([v, suppression]) =>
+        [JSON.stringify(toSarifResult(v, rules.findIndex(r => r.getName() == v.getRule().getName()), results.getRunDirectory(), suppression), undefined, 2)]);
+}
+
+function toSarifRule(rule: Rule): SarifRule {
+    return {
+        id: rule.getName(),
+        shortDescription: { text: rule.getDescription() },
+        fullDescription: { text: rule.getDescription() },
+        helpUri: rule.getResourceUrls().length > 0 ? rule.getResourceUrls()[0] : undefined,
+        defaultConfiguration: { level: toSarifLevel(rule.getSeverityLevel()) },
+        properties: {
+            severity: rule.getSeverityLevel(),
+            type: rule.getType(),
+            tags: rule.getTags(),
+            resourceUrls: rule.getResourceUrls()
+        }
+    };
+}
+
+function toSarifResult(violation: Violation, ruleIndex: number, runDir: string, suppression?: SarifSuppression): SarifResult {
+    const rule: Rule = violation.getRule();
+    const codeLocations: CodeLocation[] = violation.getCodeLocations();
+    const primaryLocation: CodeLocation = codeLocations[violation.getPrimaryLocationIndex()];
+    const isPathBased: boolean = [RuleType.DataFlow, RuleType.Flow].includes(rule.getType());
+    const otherLocations: SarifLocation[] = codeLocations.filter(l => l !== primaryLocation)
+        .map(l => toSarifLocation(l, runDir))
+        .filter(l => l !== undefined) as SarifLocation[];
+    const primarySarifLocation: SarifLocation | undefined = toSarifLocation(primaryLocation, runDir);
+
+    return {
+        ruleId: rule.getName(),
+        ruleIndex: ruleIndex,
+        level: toSarifLevel(rule.getSeverityLevel()),
+        message: { text: violation.getMessage() },
+        locations: primarySarifLocation ? [primarySarifLocation] : [],
+        relatedLocations: !isPathBased && otherLocations.length > 0 ? otherLocations : undefined,
+        fingerprints: { [SARIF_FINGERPRINT_TYPE]: violation.getFingerprint() },
+        suppressions: suppression ? [suppression] : undefined,
+        codeFlows: isPathBased && codeLocations.length > 1 ? [{
+            threadFlows: [{
+                locations: (codeLocations.map(l => toSarifLocation(l, runDir))
+                    .filter(l => l !== undefined) as SarifLocation[]).map(l => ({location: l}))
+            }]
+        }] : undefined
+    };
+}
+
+function toSarifLocation(codeLocation: CodeLocation, runDir: string): SarifLocation | undefined {
+    const file: string | undefined = codeLocation.getFile();
+    if (!file) {
+        return undefined;
+    }
+    // SARIF uses uris, so files underneath the run directory are given as relative uris and other files as file uris
+    const uri: string = file.startsWith(runDir) ? makeRelativeIfPossible(file, runDir).split(path.sep).join('/')
+        : pathToFileURL(file).href;
+    const startLine: number | undefined = codeLocation.getStartLine();
+    return {
+        physicalLocation: {
+            artifactLocation: { uri: uri },
+            region: startLine === undefined ? undefined : {
+                startLine: startLine,
+                startColumn: codeLocation.getStartColumn(),
+                endLine: codeLocation.getEndLine(),
+                endColumn: codeLocation.getEndColumn()
             }
         }
+    };
+}
 
-        return violationsNode.end({ pretty: true, allowEmpty: true });
+function toSarifLevel(severity: SeverityLevel): SarifLevel {
+    if (severity <= SeverityLevel.High) {
+        return 'error';
     }
+    return severity == SeverityLevel.Moderate ? 'warning' : 'note';
 }
 
-function toResultsOutput(results: RunResults) {
-    const resultsOutput: ResultsOutput = {
-        runDir: results.getRunDirectory(),
-        violationCounts: {
-            total: results.getViolationCount(),
-            sev1: results.getViolationCountOfSeverity(SeverityLevel.Critical),
-            sev2: results.getViolationCountOfSeverity(SeverityLevel.High),
-            sev3: results.getViolationCountOfSeverity(SeverityLevel.Moderate),
-            sev4: results.getViolationCountOfSeverity(SeverityLevel.Low),
-            sev5: results.getViolationCountOfSeverity(SeverityLevel.Info),
-        },
-        violations: toViolationOutputs(results.getViolations(), results.getRunDirectory())
+/**
+ * Produces JUnit XML where each engine is a testsuite and each selected rule is a testcase, so that rules without
+ * violations show up as passing tests. Since many JUnit consumers only display a single failure per testcase, all of the
+ * violations of a rule are listed within one failure element.
+ */
+class JUnitOutputFormatter implements OutputFormatter {
+    format(results: RunResults): string {
+        return [...this.formatInChunks(results)].join('');
+    }
+
+    *formatInChunks(results: RunResults): Iterable<string> {
+        const testSuites: JUnitTestSuite[] = results.getEngineNames().map(engineName => toJUnitTestSuite(engineName, results));
+        const testSuitesNode: xmlbuilder.XMLElement = xmlbuilder.create('testsuites', {version: '1.0', encoding: 'UTF-8'});
+        testSuitesNode.attribute('name', 'Code Analyzer');
+        testSuitesNode.attribute('tests', testSuites.reduce((total, testSuite) => total + testSuite.rules.length, 0));
+        testSuitesNode.attribute('failures', testSuites.reduce((total, testSuite) => total + countJUnitFailures(testSuite), 0));
+        yield* fillEmptyXmlElement(renderXml(testSuitesNode), 'testsuites', 0, testSuites,
+            testSuite => toJUnitTestSuiteInChunks(testSuite, results.getRunDirectory()));
+    }
+}
+
+type JUnitTestSuite = {
+    engineName: string
+    rules: Rule[]
+    violationsByRule: Map<string, Violation[]>
+}
+
+function toJUnitTestSuite(engineName: string, results: RunResults): JUnitTestSuite {
+    const violations: Violation[] = results.getEngineRunResults(engineName).getViolations();
+    const violationsByRule: Map<string, Violation[]> = new Map();
+    for (const violation of violations) {
+        const ruleViolations: Violation[] = violationsByRule.get(violation.getRule().getName()) || [];
+        ruleViolations.push(violation);
+        violationsByRule.set(violation.getRule().getName(), ruleViolations);
+    }
+
+    // Like with SARIF, violations may come from rules that were never selected (like the rule for an unexpected
+    // engine error), so we add testcases for those rules as well.
+    const rules: Rule[] = [...results.getRuleSelection().getRulesFor(engineName)];
+    for (const violation of violations) {
+        if (!rules.some(r => r.getName() == violation.getRule().getName())) {
+            rules.push(violation.getRule());
+        }
+    }
+    return {engineName, rules, violationsByRule};
+}
+
+function countJUnitFailures(testSuite: JUnitTestSuite): number {
+    return testSuite.rules.filter(r => testSuite.violationsByRule.has(r.getName())).length;
+}
+
+function toJUnitTestSuiteInChunks(testSuite: JUnitTestSuite, runDir: string): Iterable<string> {
+    const testSuiteNode: xmlbuilder.XMLElement = xmlbuilder.create('testsuite', {headless: true});
+    testSuiteNode.attribute('name', testSuite.engineName);
+    testSuiteNode.attribute('tests', testSuite.rules.length);
+    testSuiteNode.attribute('failures', countJUnitFailures(testSuite));
+    return fillEmptyXmlElement(renderXml(testSuiteNode, 1), 'testsuite', 1, testSuite.rules, rule =>
+        [renderXml(createJUnitTestCaseNode(rule, testSuite.engineName, testSuite.violationsByRule.get(rule.getName()) || [], runDir), 2)]);
+}
+
+function createJUnitTestCaseNode(rule: Rule, engineName: string, ruleViolations: Violation[], runDir: string): xmlbuilder.XMLElement {
+    const testCaseNode: xmlbuilder.XMLElement = xmlbuilder.create('testcase', {headless: true});
+    testCaseNode.attribute('name', rule.getName());
+    testCaseNode.attribute('classname', engineName);
+    if (ruleViolations.length > 0) {
+        const failureNode: xmlbuilder.XMLElement = testCaseNode.node('failure');
+        failureNode.attribute('message', `${ruleViolations.length} violation(s) of rule "${rule.getName()}"`);
+        failureNode.attribute('type', SeverityLevel[rule.getSeverityLevel()]);
+        failureNode.text(ruleViolations.map(v => toJUnitFailureDetail(v, runDir)).join('\n'));
+    }
+    return testCaseNode;
+}
+
+function toJUnitFailureDetail(violation: Violation, runDir: string): string {
+    const location: string = createLocationString(violation.getCodeLocations()[violation.getPrimaryLocationIndex()], runDir);
+    return `${location ? location + ': ' : ''}${violation.getMessage()} (fingerprint: ${violation.getFingerprint()})`;
+}
+
+// Pull request comments are commonly limited to 65536 characters, so we leave some room for anything that is added around the summary
+export const MARKDOWN_MAX_CHARACTERS: number = 60000;
+const MARKDOWN_MAX_LISTED_VIOLATIONS: number = 100;
+const MARKDOWN_MAX_TOP_ENTRIES: number = 5;
+export const MARKDOWN_RESERVED_CHARACTERS: number = 200; // For the lines that wrap the list of violations
+
+/**
+ * Produces a Markdown summary that is meant to be posted as a pull request comment. The list of violations is capped
+ * both by count and by size, listing the most severe violations first so that the least severe ones are the ones omitted.
+ */
+class MarkdownOutputFormatter implements OutputFormatter {
+    format(results: RunResults): string {
+        return [...this.formatInChunks(results)].join('');
+    }
+
+    *formatInChunks(results: RunResults): Iterable<string> {
+        const counts: ResultsOutput['violationCounts'] = toViolationCountsOutput(results);
+        const lines: string[] = [
+            '## Code Analyzer Results',
+            '',
+            '| Severity | Violations |',
+            '| --- | ---: |',
+            ...[1, 2, 3, 4, 5].map(sev => `| ${toSeverityLabel(sev)} | ${counts[`sev${sev}` as keyof typeof counts]} |`),
+            `| **Total** | **${counts.total}** |`
+        ];
+        const violations: Violation[] = results.getViolations();
+        if (violations.length == 0) {
+            lines.push('', 'No violations found.');
+            yield lines.join('\n');
+            return;
+        }
+
+        const runDir: string = results.getRunDirectory();
+        lines.push('', '### Top rules', '', '| Rule | Engine | Violations |', '| --- | --- | ---: |',
+            ...getTopEntries(violations.map(v => v.getRule()), r => `${r.getEngineName()}:${r.getName()}`).map(([r, count]) =>
+                `| ${escapeMarkdownTableCell(r.getName())} | ${escapeMarkdownTableCell(r.getEngineName())} | ${count} |`));
+        const files: string[] = violations.map(v => getRelativePrimaryFile(v, runDir)).filter(f => f !== undefined) as string[];
+        if (files.length > 0) {
+            lines.push('', '### Top files', '', '| File | Violations |', '| --- | ---: |',
+                ...getTopEntries(files, f => f).map(([f, count]) => `| ${escapeMarkdownTableCell(f)} | ${count} |`));
+        }
+
+        const summary: string = lines.join('\n');
+        yield summary;
+        for (const line of ['', ...createMarkdownViolationList(violations, runDir, 'Violations',
+                MARKDOWN_MAX_CHARACTERS - MARKDOWN_RESERVED_CHARACTERS - summary.length)]) {
+            yield '\n' + line;
+        }
+    }
+}
+
+/**
+ * Creates a collapsible list of the violations that fits within the provided number of characters, listing the most
+ * severe violations first and stating how many violations were omitted.
+ */
+export function createMarkdownViolationList(violations: Violation[], runDir: string, title: string, maxCharacters: number): string[] {
+    // Since the sort is stable, violations with the same severity stay in their original order
+    const sortedIndices: number[] = [...violations.keys()].sort((i1, i2) =>
+        violations[i1].getRule().getSeverityLevel() - violations[i2].getRule().getSeverityLevel());
+    const violationLines: string[] = [];
+    let remainingCharacters: number = maxCharacters;
+    for (const i of sortedIndices.slice(0, MARKDOWN_MAX_LISTED_VIOLATIONS)) {
+        const violationLine: string = toMarkdownViolationLine(createViolationOutput(i+1, violations[i], runDir));
+        if (violationLine.length + 1 > remainingCharacters) {
+            break;
+        }
+        violationLines.push(violationLine);
+        remainingCharacters -= violationLine.length + 1;
+    }
+    const omittedCount: number = violations.length - violationLines.length;
+
+    const lines: string[] = ['<details>',
+        `<summary>${title} (showing ${violationLines.length} of ${violations.length})</summary>`,
+        '', ...violationLines, '', '</details>'];
+    if (omittedCount > 0) {
+        lines.push('', `_${omittedCount} more violation(s) were omitted._`);
+    }
+    return lines;
+}
+
+/**
+ * Groups the items by the provided key and returns the first item and the item count of the groups with the most items.
+ */
+function getTopEntries<T>(items: T[], toKey: (item: T) => string): [T, number][] {
+    const entries: Map<string, [T, number]> = new Map();
+    for (const item of items) {
+        const key: string = toKey(item);
+        const entry: [T, number] = entries.get(key) || [item, 0];
+        entries.set(key, [entry[0], entry[1] + 1]);
+    }
+    // Since the sort is stable, ties are listed in the order that they first appear in the items
+    return [...entries.values()].sort((e1, e2) => e2[1] - e1[1]).slice(0, MARKDOWN_MAX_TOP_ENTRIES);
+}
+
+function toMarkdownViolationLine(violationOutput: ViolationOutput): string {
+    let location: string = violationOutput.file ? violationOutput.file : '';
+    if (location && violationOutput.line) {
+        location += `:${violationOutput.line}` + (violationOutput.column ? `:${violationOutput.column}` : '');
+    }
+    return `- **${toSeverityLabel(violationOutput.severity)}** \`${violationOutput.rule}\` (${violationOutput.engine})` +
+        (location ? ` at \`${location}\`` : '') + `: ${escapeMarkdownText(violationOutput.message)}` +
+        ` <!-- fingerprint: ${violationOutput.fingerprint} -->`; // Hidden when rendered, but available to tools that read the comment
+}
+
+export function escapeMarkdownTableCell(value: string): string {
+    return escapeMarkdownText(value).replace(/\|/g, '\\|');
+}
+
+function escapeMarkdownText(value: string): string {
+    // Since the violations are listed within an html details element, we also escape the characters that html would interpret
+    return value.replace(/\r?\n/g, ' ').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function toViolationCountsOutput(results: RunResults): ResultsOutput['violationCounts'] {
+    return {
+        total: results.getViolationCount(),
+        sev1: results.getViolationCountOfSeverity(SeverityLevel.Critical),
+        sev2: results.getViolationCountOfSeverity(SeverityLevel.High),
+        sev3: results.getViolationCountOfSeverity(SeverityLevel.Moderate),
+        sev4: results.getViolationCountOfSeverity(SeverityLevel.Low),
+        sev5: results.getViolationCountOfSeverity(SeverityLevel.Info),
     };
-    return resultsOutput;
 }
 
-function toViolationOutputs(violations: Violation[], runDir: string): ViolationOutput[] {
+export function toViolationOutputs(violations: Violation[], runDir: string, codeSnippetCreator?: CodeSnippetCreator): ViolationOutput[] {
     const violationOutputs: ViolationOutput[] = [];
     for (let i = 0; i < violations.length; i++) {
         const violation: Violation = violations[i];
-        const row: ViolationOutput = createViolationOutput(i+1, violation, runDir);
+        const row: ViolationOutput = createViolationOutput(i+1, violation, runDir, codeSnippetCreator);
         violationOutputs.push(row)
     }
     return violationOutputs;
 }
 
-function createViolationOutput(id: number, violation: Violation, runDir: string): ViolationOutput {
+function createViolationOutput(id: number, violation: Violation, runDir: string, codeSnippetCreator?: CodeSnippetCreator): ViolationOutput {
     const rule: Rule = violation.getRule();
     const codeLocations: CodeLocation[] = violation.getCodeLocations();
     const primaryLocation: CodeLocation = codeLocations[violation.getPrimaryLocationIndex()];
@@ -191,10 +987,17 @@ function createViolationOutput(id: number, violation: Violation, runDir: string)
         endColumn: primaryLocation.getEndColumn(),
         pathLocations: [RuleType.DataFlow, RuleType.Flow].includes(rule.getType()) ? createPathLocations(codeLocations, runDir) : undefined,
         message: violation.getMessage(),
-        resources: violation.getResourceUrls()
+        resources: violation.getResourceUrls(),
+        fingerprint: violation.getFingerprint(),
+        codeSnippets: codeSnippetCreator?.createCodeSnippetOutputs(codeLocations, runDir)
     };
 }
 
+function getRelativePrimaryFile(violation: Violation, runDir: string): string | undefined {
+    const primaryFile: string | undefined = violation.getCodeLocations()[violation.getPrimaryLocationIndex()].getFile();
+    return primaryFile ? makeRelativeIfPossible(primaryFile, runDir) : undefined;
+}
+
 function createPathLocations(codeLocations: CodeLocation[], runDir: string): string[] {
     return codeLocations.map(l => createLocationString(l, runDir)).filter(s => s.length > 0);
 }
@@ -218,4 +1021,105 @@ function makeRelativeIfPossible(file: string, rootDir: string): string {
         file = file.substring(rootDir.length);
     }
     return file;
-}
\ No newline at end of file
+}
+
+/**
+ * Creates the code snippets of code locations, where each snippet lists the lines of the code location along with some
+ * context lines around them. The lines of the code location are prefixed with '>' and are followed by a line of '^'
+ * characters underneath the flagged columns, like:
+ *     2 |     public void doSomething() {
+ *   > 3 |         insert new Account();
+ *       |         ^^^^^^^^^^^^^^^^^^^^^
+ *     4 |     }
+ * Code locations whose lines can't be read (like when a violation points to a zip archive) don't get a code snippet.
+ */
+class CodeSnippetCreator {
+    private readonly fileLinesReader: FileLinesReader = new FileLinesReader();
+    private readonly contextLines: number;
+    private readonly maxLineLength: number;
+
+    static fromOptions(options?: OutputOptions): CodeSnippetCreator | undefined {
+        return options?.includeCodeSnippets ? new CodeSnippetCreator(
+            options.codeSnippetContextLines ?? DEFAULT_CODE_SNIPPET_CONTEXT_LINES,
+            options.codeSnippetMaxLineLength ?? DEFAULT_CODE_SNIPPET_MAX_LINE_LENGTH) : undefined;
+    }
+
+    private constructor(contextLines: number, maxLineLength: number) {
+        this.contextLines = contextLines;
+        this.maxLineLength = maxLineLength;
+    }
+
+    createCodeSnippetOutputs(codeLocations: CodeLocation[], runDir: string): CodeSnippetOutput[] {
+        const codeSnippetOutputs: CodeSnippetOutput[] = [];
+        for (const codeLocation of codeLocations) {
+            const snippet: string | undefined = this.createSnippet(codeLocation);
+            if (snippet !== undefined) {
+                codeSnippetOutputs.push({location: createLocationString(codeLocation, runDir), snippet: snippet});
+            }
+        }
+        return codeSnippetOutputs;
+    }
+
+    private createSnippet(codeLocation: CodeLocation): string | undefined {
+        const file: string | undefined = codeLocation.getFile();
+        const startLine: number | undefined = codeLocation.getStartLine();
+        const fileLines: string[] = file ? this.fileLinesReader.getFileLines(file) : [];
+        if (!startLine || startLine > fileLines.length) {
+            return undefined;
+        }
+        const endLine: number = Math.min(Math.max(codeLocation.getEndLine() ?? startLine, startLine), fileLines.length);
+        const firstLine: number = Math.max(1, startLine - this.contextLines);
+        const lastLine: number = Math.min(fileLines.length, endLine + this.contextLines);
+        const lineNumberWidth: number = `${lastLine}`.length;
+
+        const snippetLines: string[] = [];
+        for (let line = firstLine; line <= lastLine; line++) {
+            const code: string = fileLines[line - 1];
+            const isFlagged: boolean = line >= startLine && line <= endLine;
+            snippetLines.push(`${isFlagged ? '>' : ' '} ${`${line}`.padStart(lineNumberWidth)} | ${this.capLength(code)}`);
+            if (isFlagged) {
+                const [markerStart, markerEnd] = getMarkerColumns(codeLocation, line, endLine, code);
+                if (markerStart <= this.maxLineLength) {
+                    // We keep any tabs that come before the marker so that the marker lines up with the code
+                    const indentation: string = code.substring(0, markerStart - 1).padEnd(markerStart - 1).replace(/[^\t]/g, ' ');
+                    const marker: string = '^'.repeat(Math.min(markerEnd, this.maxLineLength + 1) - markerStart);
+                    snippetLines.push(`  ${' '.repeat(lineNumberWidth)} | ${indentation}${marker}`);
+                }
+            }
+        }
+        return snippetLines.join('\n');
+    }
+
+    private capLength(code: string): string {
+        return code.length > this.maxLineLength ? code.substring(0, this.maxLineLength) + '...' : code;
+    }
+}
+
+/**
+ * Returns the first column and the column after the last column that are flagged on the line of the code location.
+ */
+function getMarkerColumns(codeLocation: CodeLocation, line: number, endLine: number, code: string): [number, number] {
+    const startLine: number = codeLocation.getStartLine() as number;
+    const endColumn: number | undefined = codeLocation.getEndColumn();
+    const markerStart: number = line == startLine ? (codeLocation.getStartColumn() ?? 1) : code.search(/\S|$/) + 1;
+    let markerEnd: number;
+    if (line < endLine) {
+        markerEnd = code.length + 1;
+    } else if (endColumn !== undefined && codeLocation.getEndLine() == endLine) {
+        markerEnd = endColumn;
+    } else if (codeLocation.getEndLine() !== undefined) {
+        markerEnd = code.length + 1;
+    } else {
+        markerEnd = markerStart + 1; // Without an end, we just mark the start column
+    }
+    return [markerStart, Math.max(markerEnd, markerStart + 1)];
+}
+
+// Since classes are not hoisted, the built-in formatters can only be registered after all of them have been declared
+OutputFormatter.register(OutputFormat.CSV, new CsvOutputFormatter());
+OutputFormatter.register(OutputFormat.HTML, new HtmlOutputFormatter());
+OutputFormatter.register(OutputFormat.JSON, new JsonOutputFormatter());
+OutputFormatter.register(OutputFormat.JUNIT, new JUnitOutputFormatter());
+OutputFormatter.register(OutputFormat.MARKDOWN, new MarkdownOutputFormatter());
+OutputFormatter.register(OutputFormat.SARIF, new SarifOutputFormatter());
+OutputFormatter.register(OutputFormat.XML, new XmlOutputFormatter());
@@ -0,0 +1,201 @@
+import {CodeLocation, EngineRunResults, RunResults, RunResultsImpl, UndefinedCodeLocation, Violation} from "./results";
+import {Rule, RuleSelection, RuleSelectionImpl, SeverityLevel} from "./rules";
+import {SuppressedViolation, SuppressedViolationImpl} from "./suppressions";
+import {toAbsolutePath} from "./utils";
+import path from "node:path";
+
+/**
+ * Merges the results of multiple runs (like the runs of the shards of a workspace) into a single set of results.
+ * Since each run may have happened in a different run directory (like when shards run on different CI agents), the
+ * files underneath the run directory of each run are moved underneath the run directory of the merged results, which
+ * defaults to the run directory of the first results. Violations that are identical after this (like when multiple
+ * shards report the same violation) are only kept once.
+ */
+export class RunResultsMerger {
+    public static merge(runResultsList: RunResults[], runDir?: string): RunResults {
+        const mergedRunDir: string | undefined = runDir !== undefined ? toRunDirectory(runDir) : runResultsList[0]?.getRunDirectory();
+        const mergedResults: RunResultsImpl = new RunResultsImpl(mergedRunDir, mergeRuleSelections(runResultsList));
+
+        const engineRunResultsByEngine: Map<string, [EngineRunResults, string][]> = new Map();
+        for (const runResults of runResultsList) {
+            for (const engineName of runResults.getEngineNames()) {
+                if (!engineRunResultsByEngine.has(engineName)) {
+                    engineRunResultsByEngine.set(engineName, []);
+                }
+                engineRunResultsByEngine.get(engineName)!.push([runResults.getEngineRunResults(engineName), runResults.getRunDirectory()]);
+            }
+        }
+        for (const [engineName, engineRunResultsList] of engineRunResultsByEngine.entries()) {
+            mergedResults.addEngineRunResults(new MergedEngineRunResults(engineName, engineRunResultsList, mergedResults.getRunDirectory()));
+        }
+        return mergedResults;
+    }
+}
+
+function toRunDirectory(folder: string): string {
+    const absoluteFolder: string = toAbsolutePath(folder);
+    return absoluteFolder.endsWith(path.sep) ? absoluteFolder : absoluteFolder + path.sep;
+}
+
+function mergeRuleSelections(runResultsList: RunResults[]): RuleSelection {
+    const mergedRuleSelection: RuleSelectionImpl = new RuleSelectionImpl();
+    for (const runResults of runResultsList) {
+        const ruleSelection: RuleSelection = runResults.getRuleSelection();
+        for (const engineName of ruleSelection.getEngineNames()) {
+            const mergedRuleNames: Set<string> = new Set(mergedRuleSelection.getRulesFor(engineName).map(r => r.getName()));
+            ruleSelection.getRulesFor(engineName).filter(r => !mergedRuleNames.has(r.getName()))
+                .forEach(r => mergedRuleSelection.addRule(r, ruleSelection.getSelectionReasons(engineName, r.getName())));
+        }
+    }
+    return mergedRuleSelection;
+}
+
+class MergedEngineRunResults implements EngineRunResults {
+    private readonly engineName: string;
+    private readonly violations: Violation[];
+    private readonly baselinedViolations: Violation[];
+    private readonly suppressedViolations: SuppressedViolation[];
+
+    constructor(engineName: string, engineRunResultsList: [EngineRunResults, string][], runDir: string) {
+        this.engineName = engineName;
+        const violations: Map<string, Violation> = new Map();
+        const baselinedViolations: Map<string, Violation> = new Map();
+        const suppressedViolations: Map<string, SuppressedViolation> = new Map();
+        for (const [engineRunResults, fromRunDir] of engineRunResultsList) {
+            for (const violation of engineRunResults.getViolations()) {
+                addIfNotAlreadyAdded(violations, rebaseViolation(violation, fromRunDir, runDir));
+            }
+            for (const violation of engineRunResults.getBaselinedViolations()) {
+                addIfNotAlreadyAdded(baselinedViolations, rebaseViolation(violation, fromRunDir, runDir));
+            }
+            for (const suppressedViolation of engineRunResults.getSuppressedViolations()) {
+                const violation: Violation = rebaseViolation(suppressedViolation.getViolation(), fromRunDir, runDir);
+                const key: string = toViolationKey(violation);
+                if (!suppressedViolations.has(key)) {
+                    suppressedViolations.set(key, new SuppressedViolationImpl(violation, suppressedViolation.getJustification()));
+                }
+            }
+        }
+        this.violations = [...violations.values()];
+        this.baselinedViolations = [...baselinedViolations.values()];
+        this.suppressedViolations = [...suppressedViolations.values()];
+    }
+
+    getEngineName(): string {
+        return this.engineName;
+    }
+
+    getViolationCount(): number {
+        return this.violations.length;
+    }
+
+    getViolationCountOfSeverity(severity: SeverityLevel): number {
+        return this.violations.filter(v => v.getRule().getSeverityLevel() == severity).length;
+    }
+
+    getViolations(): Violation[] {
+        return this.violations;
+    }
+
+    getBaselinedViolations(): Violation[] {
+        return this.baselinedViolations;
+    }
+
+    getSuppressedViolations(): SuppressedViolation[] {
+        return this.suppressedViolations;
+    }
+}
+
+function addIfNotAlreadyAdded(violationsByKey: Map<string, Violation>, violation: Violation): void {
+    const key: string = toViolationKey(violation);
+    if (!violationsByKey.has(key)) {
+        violationsByKey.set(key, violation);
+    }
+}
+
+// Violations are identical when they have the same rule, message, fingerprint, and code locations
+function toViolationKey(violation: Violation): string {
+    return JSON.stringify([
+        violation.getRule().getEngineName(),
+        violation.getRule().getName(),
+        violation.getMessage(),
+        violation.getFingerprint(),
+        violation.getPrimaryLocationIndex(),
+        violation.getCodeLocations().map(l => [l.getFile(), l.getStartLine(), l.getStartColumn(), l.getEndLine(), l.getEndColumn()])
+    ]);
+}
+
+function rebaseViolation(violation: Violation, fromRunDir: string, toRunDir: string): Violation {
+    return fromRunDir == toRunDir ? violation : new RebasedViolation(violation, fromRunDir, toRunDir);
+}
+
+/**
+ * Wraps a violation so that the files of its code locations that are underneath one run directory are moved underneath
+ * another run directory. Since fingerprints are based on the files relative to the run directory, the fingerprint of
+ * the violation stays the same.
+ */
+class RebasedViolation implements Violation {
+    private readonly violation: Violation;
+    private readonly codeLocations: CodeLocation[];
+
+    constructor(violation: Violation, fromRunDir: string, toRunDir: string) {
+        this.violation = violation;
+        this.codeLocations = violation.getCodeLocations().map(l =>
+            l.getFile() === undefined ? UndefinedCodeLocation.INSTANCE : new RebasedCodeLocation(l, fromRunDir, toRunDir));
+    }
+
+    getRule(): Rule {
+        return this.violation.getRule();
+    }
+
+    getMessage(): string {
+        return this.violation.getMessage();
+    }
+
+    getCodeLocations(): CodeLocation[] {
+        return this.codeLocations;
+    }
+
+    getPrimaryLocationIndex(): number {
+        return this.violation.getPrimaryLocationIndex();
+    }
+
+    getResourceUrls(): string[] {
+        return this.violation.getResourceUrls();
+    }
+
+    getFingerprint(): string {
+        return this.violation.getFingerprint();
+    }
+}
+
+class RebasedCodeLocation implements CodeLocation {
+    private readonly codeLocation: CodeLocation;
+    private readonly file: string;
+
+    constructor(codeLocation: CodeLocation, fromRunDir: string, toRunDir: string) {
+        this.codeLocation = codeLocation;
+        const file: string = codeLocation.getFile() as string;
+        this.file = file.startsWith(fromRunDir) ? toRunDir + file.substring(fromRunDir.length) : file;
+    }
+
+    getFile(): string {
+        return this.file;
+    }
+
+    getStartLine(): number | undefined {
+        return this.codeLocation.getStartLine();
+    }
+
+    getStartColumn(): number | undefined {
+        return this.codeLocation.getStartColumn();
+    }
+
+    getEndLine(): number | undefined {
+        return this.codeLocation.getEndLine();
+    }
+
+    getEndColumn(): number | undefined {
+        return this.codeLocation.getEndColumn();
+    }
+}
@@ -1,8 +1,20 @@
-import {Rule, RuleSelection, SeverityLevel, UnexpectedEngineErrorRule} from "./rules"
+import {
+    EngineCancelledRule,
+    EngineTimeoutRule,
+    Rule,
+    RuleSelection,
+    RuleSelectionImpl,
+    SeverityLevel,
+    UnexpectedEngineErrorRule
+} from "./rules"
 import * as engApi from "@salesforce/code-analyzer-engine-api";
 import {getMessage} from "./messages";
 import {toAbsolutePath} from "./utils";
-import {OutputFormat, OutputFormatter} from "./output-format";
+import {OutputFormat, OutputFormatter, OutputOptions} from "./output-format";
+import {Baseline, BaselinePartition} from "./baseline";
+import {partitionSuppressedViolations, SuppressedViolation, SuppressionPartition} from "./suppressions";
+import {createFingerprint, FingerprintGenerator} from "./fingerprints";
+import fs from "node:fs";
 import path from "node:path";
 
 export interface CodeLocation {
@@ -19,6 +31,14 @@ export interface Violation {
     getCodeLocations(): CodeLocation[]
     getPrimaryLocationIndex(): number
     getResourceUrls(): string[]
+
+    /**
+     * Returns an identifier of the violation that stays the same across runs as long as the violation's rule, file,
+     * message, and flagged code stay the same, even if the code moves to another line.
+     * Note that this method was added after the first release of this interface, so any implementations of Violation
+     * outside of this package need to add it.
+     */
+    getFingerprint(): string
 }
 
 export interface EngineRunResults {
@@ -26,16 +46,23 @@ export interface EngineRunResults {
     getViolationCount(): number
     getViolationCountOfSeverity(severity: SeverityLevel): number
     getViolations(): Violation[]
+    getBaselinedViolations(): Violation[]
+    getSuppressedViolations(): SuppressedViolation[]
 }
 
 export interface RunResults {
     getRunDirectory(): string
+    getRuleSelection(): RuleSelection
     getViolationCount(): number
     getViolationCountOfSeverity(severity: SeverityLevel): number
     getViolations(): Violation[]
+    getBaselinedViolations(): Violation[]
+    getSuppressedViolations(): SuppressedViolation[]
     getEngineNames(): string[]
     getEngineRunResults(engineName: string): EngineRunResults
-    toFormattedOutput(format: OutputFormat): string
+    toFormattedOutput(format: OutputFormat | string, options?: OutputOptions): string
+    writeToFile(file: string, format?: OutputFormat | string, options?: OutputOptions): void
+    writeToFiles(files: string[], options?: OutputOptions): void
 }
 
 
@@ -95,10 +122,12 @@ export class UndefinedCodeLocation implements CodeLocation {
 export class ViolationImpl implements Violation {
     private readonly apiViolation: engApi.Violation;
     private readonly rule: Rule;
+    private readonly fingerprint: string;
 
-    constructor(apiViolation: engApi.Violation, rule: Rule) {
+    constructor(apiViolation: engApi.Violation, rule: Rule, fingerprintGenerator: FingerprintGenerator) {
         this.apiViolation = apiViolation;
         this.rule = rule;
+        this.fingerprint = fingerprintGenerator.generateFingerprint(this);
     }
 
     getRule(): Rule {
@@ -123,6 +152,10 @@ export class ViolationImpl implements Violation {
         return !this.apiViolation.resourceUrls ? urls :
             [...urls, ...this.apiViolation.resourceUrls.filter(url => !urls.includes(url))];
     }
+
+    getFingerprint(): string {
+        return this.fingerprint;
+    }
 }
 
 export class UnexpectedEngineErrorViolation implements Violation {
@@ -155,17 +188,58 @@ export class UnexpectedEngineErrorViolation implements Violation {
     getResourceUrls(): string[] {
         return [];
     }
+
+    getFingerprint(): string {
+        return createFingerprint([this.rule.getEngineName(), this.rule.getName(), this.getMessage()]);
+    }
+}
+
+export class AbortedEngineRunViolation implements Violation {
+    private readonly rule: Rule;
+    private readonly message: string;
+
+    constructor(rule: Rule, message: string) {
+        this.rule = rule;
+        this.message = message;
+    }
+
+    getRule(): Rule {
+        return this.rule;
+    }
+
+    getMessage(): string {
+        return this.message;
+    }
+
+    getCodeLocations(): CodeLocation[] {
+        return [UndefinedCodeLocation.INSTANCE];
+    }
+
+    getPrimaryLocationIndex(): number {
+        return 0;
+    }
+
+    getResourceUrls(): string[] {
+        return [];
+    }
+
+    getFingerprint(): string {
+        return createFingerprint([this.rule.getEngineName(), this.rule.getName(), this.message]);
+    }
 }
 
 export class EngineRunResultsImpl implements EngineRunResults {
     private readonly engineName: string;
-    private readonly apiEngineRunResults: engApi.EngineRunResults;
-    private readonly ruleSelection: RuleSelection;
+    private readonly partition: SuppressionPartition;
 
-    constructor(engineName: string, apiEngineRunResults: engApi.EngineRunResults, ruleSelection: RuleSelection) {
+    constructor(engineName: string, apiEngineRunResults: engApi.EngineRunResults, ruleSelection: RuleSelection, runDir: string,
+                emitWarning: (message: string) => void) {
         this.engineName = engineName;
-        this.apiEngineRunResults = apiEngineRunResults;
-        this.ruleSelection = ruleSelection;
+        const fingerprintGenerator: FingerprintGenerator = new FingerprintGenerator(runDir);
+        // The violations that are suppressed by inline suppression markers are reported separately (along with the
+        // justification from their marker) instead of being counted among the violations.
+        this.partition = partitionSuppressedViolations(apiEngineRunResults.violations.map(v =>
+            new ViolationImpl(v, ruleSelection.getRule(engineName, v.ruleName), fingerprintGenerator)), emitWarning);
     }
 
     getEngineName(): string {
@@ -173,7 +247,7 @@ export class EngineRunResultsImpl implements EngineRunResults {
     }
 
     getViolationCount(): number {
-        return this.apiEngineRunResults.violations.length;
+        return this.partition.unsuppressedViolations.length;
     }
 
     getViolationCountOfSeverity(severity: SeverityLevel): number {
@@ -181,8 +255,53 @@ export class EngineRunResultsImpl implements EngineRunResults {
     }
 
     getViolations(): Violation[] {
-        return this.apiEngineRunResults.violations.map(v =>
-            new ViolationImpl(v, this.ruleSelection.getRule(this.engineName, v.ruleName)));
+        return this.partition.unsuppressedViolations;
+    }
+
+    getBaselinedViolations(): Violation[] {
+        return [];
+    }
+
+    getSuppressedViolations(): SuppressedViolation[] {
+        return this.partition.suppressedViolations;
+    }
+}
+
+/**
+ * Wraps the results of an engine so that the violations that are found in the baseline are reported separately as
+ * baselined violations instead of being counted among the violations.
+ */
+export class BaselineFilteredEngineRunResults implements EngineRunResults {
+    private readonly engineRunResults: EngineRunResults;
+    private readonly partition: BaselinePartition;
+
+    constructor(engineRunResults: EngineRunResults, baseline: Baseline, runDir: string) {
+        this.engineRunResults = engineRunResults;
+        this.partition = baseline.partitionViolations(engineRunResults.getViolations(), runDir);
+    }
+
+    getEngineName(): string {
+        return this.engineRunResults.getEngineName();
+    }
+
+    getViolationCount(): number {
+        return this.partition.newViolations.length;
+    }
+
+    getViolationCountOfSeverity(severity: SeverityLevel): number {
+        return this.partition.newViolations.filter(v => v.getRule().getSeverityLevel() == severity).length;
+    }
+
+    getViolations(): Violation[] {
+        return this.partition.newViolations;
+    }
+
+    getBaselinedViolations(): Violation[] {
+        return this.partition.baselinedViolations;
+    }
+
+    getSuppressedViolations(): SuppressedViolation[] {
+        return this.engineRunResults.getSuppressedViolations();
     }
 }
 
@@ -210,13 +329,67 @@ export class UnexpectedErrorEngineRunResults implements EngineRunResults {
     getViolations(): Violation[] {
         return [this.violation];
     }
+
+    getBaselinedViolations(): Violation[] {
+        return [];
+    }
+
+    getSuppressedViolations(): SuppressedViolation[] {
+        return [];
+    }
+}
+
+export class AbortedEngineRunResults implements EngineRunResults {
+    private readonly engineName: string;
+    private readonly violation: Violation;
+
+    private constructor(engineName: string, violation: Violation) {
+        this.engineName = engineName;
+        this.violation = violation;
+    }
+
+    static forTimeout(engineName: string, timeoutSeconds: number): AbortedEngineRunResults {
+        return new AbortedEngineRunResults(engineName, new AbortedEngineRunViolation(new EngineTimeoutRule(engineName),
+            getMessage('EngineTimeoutViolationMessage', engineName, timeoutSeconds)));
+    }
+
+    static forCancellation(engineName: string): AbortedEngineRunResults {
+        return new AbortedEngineRunResults(engineName, new AbortedEngineRunViolation(new EngineCancelledRule(engineName),
+            getMessage('EngineCancelledViolationMessage', engineName)));
+    }
+
+    getEngineName(): string {
+        return this.engineName;
+    }
+
+    getViolationCount(): number {
+        return 1;
+    }
+
+    getViolationCountOfSeverity(severity: SeverityLevel): number {
+        return severity == this.violation.getRule().getSeverityLevel() ? 1 : 0;
+    }
+
+    getViolations(): Violation[] {
+        return [this.violation];
+    }
+
+    getBaselinedViolations(): Violation[] {
+        return [];
+    }
+
+    getSuppressedViolations(): SuppressedViolation[] {
+        return [];
+    }
 }
 
 export class RunResultsImpl implements RunResults {
+    private readonly ruleSelection: RuleSelection;
     private readonly runDir: string;
     private readonly engineRunResultsMap: Map<string, EngineRunResults> = new Map();
 
-    constructor(runDir: string = process.cwd() + path.sep) {
+    constructor(runDir: string = process.cwd() + path.sep, ruleSelection: RuleSelection = new RuleSelectionImpl()) {
+        this.ruleSelection = ruleSelection;
         this.runDir = runDir;
     }
 
@@ -224,11 +397,25 @@ export class RunResultsImpl implements RunResults {
         return this.runDir;
     }
 
+    getRuleSelection(): RuleSelection {
+        return this.ruleSelection;
+    }
+
     getViolations(): Violation[] {
         return Array.from(this.engineRunResultsMap.values()).flatMap(
             engineRunResults => engineRunResults.getViolations());
     }
 
+    getBaselinedViolations(): Violation[] {
+        return Array.from(this.engineRunResultsMap.values()).flatMap(
+            engineRunResults => engineRunResults.getBaselinedViolations());
+    }
+
+    getSuppressedViolations(): SuppressedViolation[] {
+        return Array.from(this.engineRunResultsMap.values()).flatMap(
+            engineRunResults => engineRunResults.getSuppressedViolations());
+    }
+
     getViolationCount(): number {
         let count = 0;
         for (const engineRunResults of this.engineRunResultsMap.values()) {
@@ -258,8 +445,41 @@ export class RunResultsImpl implements RunResults {
         return engineRunResults;
     }
 
-    toFormattedOutput(format: OutputFormat): string {
-        return OutputFormatter.forFormat(format).format(this);
+    toFormattedOutput(format: OutputFormat | string, options?: OutputOptions): string {
+        return OutputFormatter.forFormat(format).format(this, options);
+    }
+
+    /**
+     * Writes the formatted results to the file, creating its parent folders if needed. If the format is not provided,
+     * then it is determined from the extension of the file.
+     */
+    writeToFile(file: string, format?: OutputFormat | string, options?: OutputOptions): void {
+        const formatter: OutputFormatter = OutputFormatter.forFormat(format ?? OutputFormatter.getFormatForFile(file));
+        this.writeFormattedOutputToFile(formatter, toAbsolutePath(file), options);
+    }
+
+    /**
+     * Writes the formatted results to each of the files, determining the format of each file from its extension.
+     * All of the formats are determined before any file is written so that an unsupported extension doesn't leave
+     * behind a partial set of files.
+     */
+    writeToFiles(files: string[], options?: OutputOptions): void {
+        const formatters: OutputFormatter[] = files.map(file => OutputFormatter.forFormat(OutputFormatter.getFormatForFile(file)));
+        files.forEach((file, i) => this.writeFormattedOutputToFile(formatters[i], toAbsolutePath(file), options));
+    }
+
+    private writeFormattedOutputToFile(formatter: OutputFormatter, file: string, options?: OutputOptions): void {
+        fs.mkdirSync(path.dirname(file), {recursive: true});
+        const fileDescriptor: number = fs.openSync(file, 'w');
+        try {
+            const chunks: Iterable<string> = formatter.formatInChunks ?
+                formatter.formatInChunks(this, options) : [formatter.format(this, options)];
+            for (const chunk of chunks) {
+                fs.writeSync(fileDescriptor, chunk, null, 'utf8');
+            }
+        } finally {
+            fs.closeSync(fileDescriptor);
+        }
     }
 
     addEngineRunResults(engineRunResults: EngineRunResults): void {
@@ -0,0 +1,68 @@
+import {escapeMarkdownTableCell, toSeverityLabel} from "./output-format";
+import {RuleSelection, RuleSelectionOutputFormat, RuleSelectionOutputFormatter, RuleSelectionReason} from "./rules";
+
+type RuleSelectionOutput = {
+    ruleCount: number
+    rules: SelectedRuleOutput[]
+}
+
+type SelectedRuleOutput = {
+    rule: string
+    engine: string
+    severity: number
+    tags: string[]
+    selectedBy: RuleSelectionReason[]
+}
+
+class JsonRuleSelectionOutputFormatter implements RuleSelectionOutputFormatter {
+    format(ruleSelection: RuleSelection): string {
+        return JSON.stringify(toRuleSelectionOutput(ruleSelection), undefined, 2);
+    }
+}
+
+/**
+ * Produces a Markdown report that lists each selected rule along with the selectors that selected it and the attributes
+ * of the rule that each selector matched, which helps to find out why an unexpected rule was selected.
+ */
+class MarkdownRuleSelectionOutputFormatter implements RuleSelectionOutputFormatter {
+    format(ruleSelection: RuleSelection): string {
+        const ruleSelectionOutput: RuleSelectionOutput = toRuleSelectionOutput(ruleSelection);
+        const lines: string[] = ['## Code Analyzer Rule Selection', ''];
+        if (ruleSelectionOutput.ruleCount == 0) {
+            lines.push('No rules were selected.');
+            return lines.join('\n');
+        }
+        lines.push(
+            `${ruleSelectionOutput.ruleCount} ${ruleSelectionOutput.ruleCount == 1 ? 'rule was' : 'rules were'} selected.`,
+            '',
+            '| Engine | Rule | Severity | Selected by |',
+            '| --- | --- | --- | --- |',
+            ...ruleSelectionOutput.rules.map(r => `| ${escapeMarkdownTableCell(r.engine)} | ${escapeMarkdownTableCell(r.rule)} | ` +
+                `${toSeverityLabel(r.severity)} | ${r.selectedBy.map(toSelectionReasonText).join('<br>')} |`));
+        return lines.join('\n');
+    }
+}
+
+function toSelectionReasonText(selectionReason: RuleSelectionReason): string {
+    const matchedAttributesText: string = selectionReason.matchedAttributes.map(a => `${a.attribute}: ${a.value}`).join(', ');
+    return escapeMarkdownTableCell(selectionReason.selector + (matchedAttributesText.length > 0 ? ` (${matchedAttributesText})` : ''));
+}
+
+function toRuleSelectionOutput(ruleSelection: RuleSelection): RuleSelectionOutput {
+    const rules: SelectedRuleOutput[] = ruleSelection.getEngineNames().flatMap(engineName =>
+        ruleSelection.getRulesFor(engineName).map(rule => ({
+            rule: rule.getName(),
+            engine: engineName,
+            severity: rule.getSeverityLevel(),
+            tags: rule.getTags(),
+            selectedBy: ruleSelection.getSelectionReasons(engineName, rule.getName())
+        })));
+    return {
+        ruleCount: rules.length,
+        rules: rules
+    };
+}
+
+// Since classes are not hoisted, the built-in formatters can only be registered after all of them have been declared
+RuleSelectionOutputFormatter.register(RuleSelectionOutputFormat.JSON, new JsonRuleSelectionOutputFormatter());
+RuleSelectionOutputFormatter.register(RuleSelectionOutputFormat.MARKDOWN, new MarkdownRuleSelectionOutputFormatter());
@@ -1,4 +1,5 @@
 import * as engApi from "@salesforce/code-analyzer-engine-api"
+import {FormatterRegistry} from "./formatter-registry";
 import {getMessage} from "./messages";
 
 export enum SeverityLevel {
@@ -31,6 +32,71 @@ export interface RuleSelection {
     getEngineNames(): string[]
     getRulesFor(engineName: string): Rule[]
     getRule(engineName: string, ruleName: string): Rule
+
+    /**
+     * Returns the reasons why the rule was selected, which is one reason for each selector that matched the rule.
+     * Rules that were not selected by selectors, like the rules of results that were read back from JSON output, have no reasons.
+     */
+    getSelectionReasons(engineName: string, ruleName: string): RuleSelectionReason[]
+    toFormattedOutput(format: RuleSelectionOutputFormat | string): string
+}
+
+export type RuleSelectionReason = {
+    selector: string
+    matchedAttributes: MatchedRuleAttribute[]
+}
+
+export enum RuleAttribute {
+    Engine = "engine",
+    Name = "name",
+    Severity = "severity",
+    Tag = "tag"
+}
+
+export type MatchedRuleAttribute = {
+    attribute: RuleAttribute
+    value: string
+}
+
+export enum RuleSelectionOutputFormat {
+    JSON = "JSON",
+    MARKDOWN = "MARKDOWN"
+}
+
+/**
+ * Unlike the formatters of run results and comparisons, this formatter is declared next to the rule selection rather
+ * than next to its built-in implementations (see rule-selection-output-format.ts), so that this module doesn't depend on
+ * the output formatting modules.
+ */
+export abstract class RuleSelectionOutputFormatter {
+    private static readonly registry: FormatterRegistry<RuleSelectionOutputFormatter> = new FormatterRegistry('rule selection output');
+
+    abstract format(ruleSelection: RuleSelection): string
+
+    /**
+     * Registers a formatter with the provided format name so that RuleSelection.toFormattedOutput can produce output
+     * in that format. Like with OutputFormatter.register, registering the same formatter again is a no-op, whereas
+     * registering a different formatter with the same format name errors unless the previous formatter is unregistered
+     * first.
+     */
+    static register(formatName: string, formatter: RuleSelectionOutputFormatter): void {
+        RuleSelectionOutputFormatter.registry.register(formatName, formatter);
+    }
+
+    /**
+     * Unregisters the formatter with the provided format name, returning whether a formatter was registered with it.
+     */
+    static unregister(formatName: string): boolean {
+        return RuleSelectionOutputFormatter.registry.unregister(formatName);
+    }
+
+    static getRegisteredFormats(): string[] {
+        return RuleSelectionOutputFormatter.registry.getRegisteredFormats();
+    }
+
+    static forFormat(format: RuleSelectionOutputFormat | string): RuleSelectionOutputFormatter {
+        return RuleSelectionOutputFormatter.registry.getFormatter(format);
+    }
 }
 
 
@@ -74,24 +140,6 @@ export class RuleImpl implements Rule {
     getType(): RuleType {
         return this.ruleDesc.type as RuleType;
     }
-
-    matchesRuleSelector(ruleSelector: string): boolean {
-        const sevNumber: number = this.getSeverityLevel().valueOf();
-        const sevName: string = SeverityLevel[sevNumber];
-        const selectables: string[] = [
-            "all",
-            this.getEngineName().toLowerCase(),
-            this.getName().toLowerCase(),
-            sevName.toLowerCase(),
-            String(sevNumber),
-            ...this.getTags().map(t => t.toLowerCase())
-        ]
-        for (const selectorPart of ruleSelector.toLowerCase().split(':')) {
-            const partMatched: boolean = selectables.some(s => s == selectorPart);
-            if (!partMatched) return false;
-        }
-        return true;
-    }
 }
 
 export class UnexpectedEngineErrorRule implements Rule {
@@ -130,15 +178,37 @@ export class UnexpectedEngineErrorRule implements Rule {
     }
 }
 
+export class EngineTimeoutRule extends UnexpectedEngineErrorRule {
+    getDescription(): string {
+        return getMessage('EngineTimeoutRuleDescription', this.getEngineName());
+    }
+
+    getName(): string {
+        return "EngineTimeout";
+    }
+}
+
+export class EngineCancelledRule extends UnexpectedEngineErrorRule {
+    getDescription(): string {
+        return getMessage('EngineCancelledRuleDescription', this.getEngineName());
+    }
+
+    getName(): string {
+        return "EngineCancelled";
+    }
+}
+
 export class RuleSelectionImpl implements RuleSelection {
     private readonly ruleMap: Map<string, Rule[]> = new Map();
+    private readonly selectionReasonsMap: Map<Rule, RuleSelectionReason[]> = new Map();
 
-    addRule(rule: Rule) {
+    addRule(rule: Rule, selectionReasons: RuleSelectionReason[] = []) {
         const engineName = rule.getEngineName();
         if (!this.ruleMap.has(engineName)) {
             this.ruleMap.set(engineName, []);
         }
         this.ruleMap.get(engineName)!.push(rule);
+        this.selectionReasonsMap.set(rule, selectionReasons);
     }
 
     getCount(): number {
@@ -165,4 +235,12 @@ export class RuleSelectionImpl implements RuleSelection {
         }
         throw new Error(getMessage('RuleDoesNotExistInSelection', ruleName, engineName));
     }
+
+    getSelectionReasons(engineName: string, ruleName: string): RuleSelectionReason[] {
+        return this.selectionReasonsMap.get(this.getRule(engineName, ruleName)) as RuleSelectionReason[];
+    }
+
+    toFormattedOutput(format: RuleSelectionOutputFormat | string): string {
+        return RuleSelectionOutputFormatter.forFormat(format).format(this);
+    }
 }
\ No newline at end of file
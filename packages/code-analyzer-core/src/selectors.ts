@@ -0,0 +1,434 @@
+import {MatchedRuleAttribute, Rule, RuleAttribute, SeverityLevel} from "./rules";
+import {getMessage} from "./messages";
+import {escapeRegExp, getEditDistance} from "./utils";
+
+/**
+ * A parsed rule selector that can be checked against rules. Rule selectors have the following grammar, where the
+ * operators are listed from lowest to highest precedence and matching is case-insensitive:
+ *   <selector>,<selector>      Matches rules that match either selector (OR)
+ *   <selector>:<selector>      Matches rules that match both selectors (AND)
+ *   !<selector>                Matches rules that don't match the selector (NOT)
+ *   (<selector>)               Groups a selector, like "eslint:(Security,Performance)"
+ *   severity<op><value>        Compares the severity level of rules, where <op> is one of <, <=, >, >=, = and <value>
+ *                              is a severity level number or name. Note that more severe levels have lower numbers.
+ *   <name>                     Matches rules whose engine name, rule name, severity level (name or number), or one of
+ *                              whose tags is the name, or all rules if the name is "all". A name containing "*"
+ *                              wildcards matches rules whose rule name matches the wildcard pattern.
+ */
+export interface RuleSelectorExpression {
+    matches(rule: Rule): boolean
+
+    /**
+     * Returns the attributes of the rule that caused the selector to match it, assuming that the selector matches the
+     * rule. Selectors that match without a particular attribute, like "all" or a negated selector, contribute none.
+     */
+    getMatchedAttributes(rule: Rule): MatchedRuleAttribute[]
+
+    /**
+     * Returns the names within the selector (like the engine names, rule names, and tags), which excludes the operators
+     * and comparisons.
+     */
+    getNames(): string[]
+}
+
+const COMPARISON_OPERATORS: string[] = ['<=', '>=', '<', '>', '='];
+const SEVERITY_COMPARISON_FIELD: string = 'severity';
+
+type Token = {
+    value: string
+    position: number // The 1-based position of the token within the selector, used for error messages
+    isOperator: boolean
+}
+
+/**
+ * Named rule sets (like the ones from the rule_sets configuration value) whose names can be used within rule selectors.
+ * A rule set matches the rules that match any of its selectors, except for the rules that match one of its negated
+ * selectors, like ["retire-js", "regex:Security", "!Low"]. A rule set with only negated selectors starts from all rules.
+ * Rule set names are matched case-insensitively and take precedence over the other names, except within the rule set
+ * itself (and the rule sets that it refers to), where the name has its usual meaning. This way a rule set can extend
+ * what it redefines, like a "Recommended" rule set of ["Recommended", "pmd:Security"].
+ */
+export class RuleSets {
+    private readonly ruleSetNames: string[];
+    private readonly ruleSelectorsByName: Map<string, string[]> = new Map();
+    private readonly parsedSelectorsCache: Map<string, RuleSelectorExpression> = new Map();
+    private readonly ruleSetExpressions: Map<string, RuleSelectorExpression> = new Map();
+    private readonly ruleSetsBeingResolved: Set<string> = new Set();
+
+    constructor(ruleSets: Record<string, string[]> = {}) {
+        this.ruleSetNames = Object.keys(ruleSets);
+        for (const [name, ruleSelectors] of Object.entries(ruleSets)) {
+            this.ruleSelectorsByName.set(name.toLowerCase(), ruleSelectors);
+        }
+    }
+
+    getNames(): string[] {
+        return this.ruleSetNames;
+    }
+
+    hasRuleSet(name: string): boolean {
+        return this.ruleSelectorsByName.has(name.toLowerCase());
+    }
+
+    /**
+     * Parses the rule selector, throwing an error that describes what is wrong with the selector if it is malformed.
+     */
+    parseRuleSelector(ruleSelector: string): RuleSelectorExpression {
+        if (!this.parsedSelectorsCache.has(ruleSelector)) {
+            this.parsedSelectorsCache.set(ruleSelector, new RuleSelectorParser(ruleSelector, this).parse());
+        }
+        return this.parsedSelectorsCache.get(ruleSelector) as RuleSelectorExpression;
+    }
+
+    getRuleSetExpression(name: string): RuleSelectorExpression | undefined {
+        const key: string = name.toLowerCase();
+        if (!this.ruleSelectorsByName.has(key) || this.ruleSetsBeingResolved.has(key)) {
+            return undefined;
+        } else if (this.ruleSetExpressions.has(key)) {
+            return this.ruleSetExpressions.get(key);
+        }
+
+        // A rule set that is resolved while resolving another rule set isn't cached, since the names within it can
+        // have a different meaning than when the rule set is resolved on its own
+        const isNested: boolean = this.ruleSetsBeingResolved.size > 0;
+        this.ruleSetsBeingResolved.add(key);
+        try {
+            const expressions: RuleSelectorExpression[] = (this.ruleSelectorsByName.get(key) as string[])
+                .map(ruleSelector => new RuleSelectorParser(ruleSelector, this).parse());
+            const ruleSetExpression: RuleSelectorExpression = new RuleSetExpression(
+                expressions.filter(e => !(e instanceof NotExpression)), expressions.filter(e => e instanceof NotExpression));
+            if (!isNested) {
+                this.ruleSetExpressions.set(key, ruleSetExpression);
+            }
+            return ruleSetExpression;
+        } finally {
+            this.ruleSetsBeingResolved.delete(key);
+        }
+    }
+}
+
+const NO_RULE_SETS: RuleSets = new RuleSets();
+
+/**
+ * Parses the rule selector without any rule sets, throwing an error that describes what is wrong with the selector if
+ * it is malformed.
+ */
+export function parseRuleSelector(ruleSelector: string): RuleSelectorExpression {
+    return NO_RULE_SETS.parseRuleSelector(ruleSelector);
+}
+
+/**
+ * Returns whether the name can be used as the name of a rule set, which requires it to be a single name within a selector.
+ */
+export function isValidRuleSetName(name: string): boolean {
+    return /^[^\s<>=,:!()]+$/.test(name);
+}
+
+class RuleSelectorParser {
+    private readonly ruleSelector: string;
+    private readonly ruleSets: RuleSets;
+    private readonly tokens: Token[];
+    private index: number = 0;
+
+    constructor(ruleSelector: string, ruleSets: RuleSets) {
+        this.ruleSelector = ruleSelector;
+        this.ruleSets = ruleSets;
+        this.tokens = tokenize(ruleSelector);
+    }
+
+    parse(): RuleSelectorExpression {
+        const expression: RuleSelectorExpression = this.parseOr();
+        if (this.index < this.tokens.length) {
+            throw this.createUnexpectedTokenError(this.tokens[this.index]);
+        }
+        return expression;
+    }
+
+    private parseOr(): RuleSelectorExpression {
+        const expressions: RuleSelectorExpression[] = [this.parseAnd()];
+        while (this.consumeIfOperator(',')) {
+            expressions.push(this.parseAnd());
+        }
+        return expressions.length == 1 ? expressions[0] : new OrExpression(expressions);
+    }
+
+    private parseAnd(): RuleSelectorExpression {
+        const expressions: RuleSelectorExpression[] = [this.parseNot()];
+        while (this.consumeIfOperator(':')) {
+            expressions.push(this.parseNot());
+        }
+        return expressions.length == 1 ? expressions[0] : new AndExpression(expressions);
+    }
+
+    private parseNot(): RuleSelectorExpression {
+        return this.consumeIfOperator('!') ? new NotExpression(this.parseNot()) : this.parsePrimary();
+    }
+
+    private parsePrimary(): RuleSelectorExpression {
+        const token: Token = this.consumeToken();
+        if (token.isOperator && token.value == '(') {
+            const expression: RuleSelectorExpression = this.parseOr();
+            const closingToken: Token = this.consumeToken();
+            if (!closingToken.isOperator || closingToken.value != ')') {
+                throw this.createUnexpectedTokenError(closingToken);
+            }
+            return expression;
+        } else if (token.isOperator) {
+            throw this.createUnexpectedTokenError(token);
+        }
+
+        const nextToken: Token | undefined = this.tokens[this.index];
+        if (nextToken && COMPARISON_OPERATORS.includes(nextToken.value)) {
+            this.index++;
+            return this.createSeverityComparison(token, nextToken, this.consumeToken());
+        }
+        return this.ruleSets.getRuleSetExpression(token.value) ?? new NameExpression(token.value);
+    }
+
+    private createSeverityComparison(fieldToken: Token, operatorToken: Token, valueToken: Token): RuleSelectorExpression {
+        const severityLevel: SeverityLevel | undefined = toSeverityLevel(valueToken.value);
+        if (fieldToken.value.toLowerCase() != SEVERITY_COMPARISON_FIELD || valueToken.isOperator || severityLevel === undefined) {
+            throw new Error(getMessage('RuleSelectorInvalidComparison', this.ruleSelector,
+                `${fieldToken.value}${operatorToken.value}${valueToken.value}`, COMPARISON_OPERATORS.join(', '),
+                Object.keys(SeverityLevel).filter(k => isNaN(Number(k))).join(', ')));
+        }
+        return new SeverityComparisonExpression(operatorToken.value, severityLevel);
+    }
+
+    private consumeIfOperator(operator: string): boolean {
+        const token: Token | undefined = this.tokens[this.index];
+        if (token && token.isOperator && token.value == operator) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private consumeToken(): Token {
+        if (this.index >= this.tokens.length) {
+            throw new Error(getMessage('RuleSelectorUnexpectedEnd', this.ruleSelector));
+        }
+        return this.tokens[this.index++];
+    }
+
+    private createUnexpectedTokenError(token: Token): Error {
+        return new Error(getMessage('RuleSelectorUnexpectedToken', this.ruleSelector, token.value, token.position));
+    }
+}
+
+function tokenize(ruleSelector: string): Token[] {
+    const tokens: Token[] = [];
+    const tokenRegex: RegExp = /\s*(<=|>=|[<>=,:!()]|[^\s<>=,:!()]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokenRegex.exec(ruleSelector)) !== null) {
+        tokens.push({
+            value: match[1],
+            position: match.index + match[0].length - match[1].length + 1,
+            isOperator: /^(<=|>=|[<>=,:!()])$/.test(match[1])
+        });
+    }
+    return tokens;
+}
+
+function toSeverityLevel(value: string): SeverityLevel | undefined {
+    const severityNumber: number = Number(value);
+    if (Number.isInteger(severityNumber) && severityNumber in SeverityLevel) {
+        return severityNumber as SeverityLevel;
+    }
+    const severityName: string | undefined = Object.keys(SeverityLevel).find(k => isNaN(Number(k)) && k.toLowerCase() == value.toLowerCase());
+    return severityName ? SeverityLevel[severityName as keyof typeof SeverityLevel] : undefined;
+}
+
+class OrExpression implements RuleSelectorExpression {
+    private readonly expressions: RuleSelectorExpression[];
+
+    constructor(expressions: RuleSelectorExpression[]) {
+        this.expressions = expressions;
+    }
+
+    matches(rule: Rule): boolean {
+        return this.expressions.some(e => e.matches(rule));
+    }
+
+    getMatchedAttributes(rule: Rule): MatchedRuleAttribute[] {
+        return toUniqueAttributes(this.expressions.filter(e => e.matches(rule)).flatMap(e => e.getMatchedAttributes(rule)));
+    }
+
+    getNames(): string[] {
+        return this.expressions.flatMap(e => e.getNames());
+    }
+}
+
+class AndExpression implements RuleSelectorExpression {
+    private readonly expressions: RuleSelectorExpression[];
+
+    constructor(expressions: RuleSelectorExpression[]) {
+        this.expressions = expressions;
+    }
+
+    matches(rule: Rule): boolean {
+        return this.expressions.every(e => e.matches(rule));
+    }
+
+    getMatchedAttributes(rule: Rule): MatchedRuleAttribute[] {
+        return toUniqueAttributes(this.expressions.flatMap(e => e.getMatchedAttributes(rule)));
+    }
+
+    getNames(): string[] {
+        return this.expressions.flatMap(e => e.getNames());
+    }
+}
+
+class NotExpression implements RuleSelectorExpression {
+    private readonly expression: RuleSelectorExpression;
+
+    constructor(expression: RuleSelectorExpression) {
+        this.expression = expression;
+    }
+
+    matches(rule: Rule): boolean {
+        return !this.expression.matches(rule);
+    }
+
+    getMatchedAttributes(_rule: Rule): MatchedRuleAttribute[] {
+        return []; // A rule matches a negated selector because of the attributes that it doesn't have
+    }
+
+    getNames(): string[] {
+        return this.expression.getNames();
+    }
+}
+
+class SeverityComparisonExpression implements RuleSelectorExpression {
+    private readonly operator: string;
+    private readonly severityLevel: SeverityLevel;
+
+    constructor(operator: string, severityLevel: SeverityLevel) {
+        this.operator = operator;
+        this.severityLevel = severityLevel;
+    }
+
+    matches(rule: Rule): boolean {
+        const ruleSeverityLevel: SeverityLevel = rule.getSeverityLevel();
+        switch (this.operator) {
+            case '<':
+                return ruleSeverityLevel < this.severityLevel;
+            case '<=':
+                return ruleSeverityLevel <= this.severityLevel;
+            case '>':
+                return ruleSeverityLevel > this.severityLevel;
+            case '>=':
+                return ruleSeverityLevel >= this.severityLevel;
+            default:
+                return ruleSeverityLevel == this.severityLevel;
+        }
+    }
+
+    getMatchedAttributes(rule: Rule): MatchedRuleAttribute[] {
+        return [{attribute: RuleAttribute.Severity, value: SeverityLevel[rule.getSeverityLevel()]}];
+    }
+
+    getNames(): string[] {
+        return [];
+    }
+}
+
+class RuleSetExpression implements RuleSelectorExpression {
+    private readonly includeExpressions: RuleSelectorExpression[];
+    private readonly excludeExpressions: RuleSelectorExpression[];
+
+    constructor(includeExpressions: RuleSelectorExpression[], excludeExpressions: RuleSelectorExpression[]) {
+        this.includeExpressions = includeExpressions;
+        this.excludeExpressions = excludeExpressions;
+    }
+
+    matches(rule: Rule): boolean {
+        const included: boolean = this.includeExpressions.length > 0 ?
+            this.includeExpressions.some(e => e.matches(rule)) : this.excludeExpressions.length > 0;
+        // Since the exclude expressions are negated selectors, the rules that they match are the ones to keep
+        return included && this.excludeExpressions.every(e => e.matches(rule));
+    }
+
+    getMatchedAttributes(rule: Rule): MatchedRuleAttribute[] {
+        return toUniqueAttributes(this.includeExpressions.filter(e => e.matches(rule)).flatMap(e => e.getMatchedAttributes(rule)));
+    }
+
+    getNames(): string[] {
+        return []; // The selectors of a rule set come from the configuration rather than from the selector that refers to it
+    }
+}
+
+class NameExpression implements RuleSelectorExpression {
+    private readonly originalName: string;
+    private readonly name: string;
+    private readonly wildcardRegex?: RegExp;
+
+    constructor(name: string) {
+        this.originalName = name;
+        this.name = name.toLowerCase();
+        if (name.includes('*')) {
+            this.wildcardRegex = new RegExp('^' + name.split('*').map(escapeRegExp).join('.*') + '$', 'i');
+        }
+    }
+
+    matches(rule: Rule): boolean {
+        return this.wildcardRegex ? this.wildcardRegex.test(rule.getName()) :
+            this.name == 'all' || this.getMatchedAttributes(rule).length > 0;
+    }
+
+    getMatchedAttributes(rule: Rule): MatchedRuleAttribute[] {
+        if (this.wildcardRegex) {
+            return [{attribute: RuleAttribute.Name, value: rule.getName()}];
+        }
+        const sevNumber: number = rule.getSeverityLevel().valueOf();
+        const candidates: (MatchedRuleAttribute & {selectables: string[]})[] = [
+            {attribute: RuleAttribute.Engine, value: rule.getEngineName(), selectables: [rule.getEngineName()]},
+            {attribute: RuleAttribute.Name, value: rule.getName(), selectables: [rule.getName()]},
+            {attribute: RuleAttribute.Severity, value: SeverityLevel[sevNumber], selectables: [SeverityLevel[sevNumber], String(sevNumber)]},
+            ...rule.getTags().map(t => ({attribute: RuleAttribute.Tag, value: t, selectables: [t]}))
+        ];
+        return candidates.filter(c => c.selectables.some(s => s.toLowerCase() == this.name))
+            .map(c => ({attribute: c.attribute, value: c.value}));
+    }
+
+    getNames(): string[] {
+        return [this.originalName];
+    }
+}
+
+function toUniqueAttributes(matchedAttributes: MatchedRuleAttribute[]): MatchedRuleAttribute[] {
+    return matchedAttributes.filter((a1, i) =>
+        matchedAttributes.findIndex(a2 => a2.attribute == a1.attribute && a2.value == a1.value) == i);
+}
+
+/**
+ * Returns the names within the selector that don't match any of the rules. Since severity levels are always valid
+ * names, they aren't returned even if none of the rules have the severity level.
+ */
+export function findUnmatchedNames(selectorExpression: RuleSelectorExpression, rules: Rule[]): string[] {
+    return [...new Set(selectorExpression.getNames())].filter(name => toSeverityLevel(name) === undefined &&
+        !rules.some(rule => parseRuleSelector(name).matches(rule)));
+}
+
+const MAX_SUGGESTIONS: number = 3;
+
+/**
+ * Returns the candidates (like the available engine names, rule names, tags, and severity names) that are closest to a
+ * name that didn't match any rules, which is most likely misspelled. Only candidates that are within a few edits of
+ * the name are suggested, and the closest candidates come first.
+ */
+export function suggestSelectorNames(name: string, candidates: string[]): string[] {
+    const maxEditDistance: number = Math.max(1, Math.floor(name.length / 3));
+    const suggestions: {candidate: string, editDistance: number}[] = [];
+    for (const candidate of candidates) {
+        if (suggestions.some(s => s.candidate.toLowerCase() == candidate.toLowerCase())) {
+            continue;
+        }
+        const editDistance: number = getEditDistance(name.toLowerCase(), candidate.toLowerCase());
+        if (editDistance <= maxEditDistance) {
+            suggestions.push({candidate: candidate, editDistance: editDistance});
+        }
+    }
+    return suggestions.sort((s1, s2) => s1.editDistance - s2.editDistance || s1.candidate.localeCompare(s2.candidate))
+        .slice(0, MAX_SUGGESTIONS).map(s => s.candidate);
+}
@@ -0,0 +1,201 @@
+import {CodeLocation, Violation} from "./results";
+import {parseRuleSelector, RuleSelectorExpression} from "./selectors";
+import {getMessage} from "./messages";
+import {escapeRegExp, FileLinesReader} from "./utils";
+import path from "node:path";
+
+export const SUPPRESSION_MARKER: string = 'code-analyzer-suppress';
+
+enum SuppressionScope {
+    SameLine = "SameLine",
+    NextLine = "NextLine",
+    File = "File"
+}
+
+type SuppressionMarker = {
+    scope: SuppressionScope
+    line: number // The line that the marker suppresses violations on, which is unused for the File scope
+    ruleSelector?: RuleSelectorExpression // An undefined selector means that all rules are suppressed
+    justification: string
+}
+
+export type SuppressionPartition = {
+    unsuppressedViolations: Violation[]
+    suppressedViolations: SuppressedViolation[]
+}
+
+export interface SuppressedViolation {
+    getViolation(): Violation
+    getJustification(): string
+}
+
+const C_STYLE_COMMENT_STARTS: string[] = ['//', '/*'];
+const XML_STYLE_COMMENT_STARTS: string[] = ['<!--'];
+const HASH_STYLE_COMMENT_STARTS: string[] = ['#'];
+const SQL_STYLE_COMMENT_STARTS: string[] = ['--', '/*'];
+const COMMENT_STARTS_BY_FILE_EXTENSION: Record<string, string[]> = {
+    '.apex': C_STYLE_COMMENT_STARTS,
+    '.cls': C_STYLE_COMMENT_STARTS,
+    '.trigger': C_STYLE_COMMENT_STARTS,
+    '.java': C_STYLE_COMMENT_STARTS,
+    '.js': C_STYLE_COMMENT_STARTS,
+    '.cjs': C_STYLE_COMMENT_STARTS,
+    '.mjs': C_STYLE_COMMENT_STARTS,
+    '.jsx': C_STYLE_COMMENT_STARTS,
+    '.ts': C_STYLE_COMMENT_STARTS,
+    '.tsx': C_STYLE_COMMENT_STARTS,
+    '.css': ['/*'],
+    '.scss': C_STYLE_COMMENT_STARTS,
+    '.less': C_STYLE_COMMENT_STARTS,
+    '.html': XML_STYLE_COMMENT_STARTS,
+    '.htm': XML_STYLE_COMMENT_STARTS,
+    '.xml': XML_STYLE_COMMENT_STARTS,
+    '.page': XML_STYLE_COMMENT_STARTS,
+    '.component': XML_STYLE_COMMENT_STARTS,
+    '.cmp': XML_STYLE_COMMENT_STARTS,
+    '.app': XML_STYLE_COMMENT_STARTS,
+    '.evt': XML_STYLE_COMMENT_STARTS,
+    '.intf': XML_STYLE_COMMENT_STARTS,
+    '.design': XML_STYLE_COMMENT_STARTS,
+    '.svg': XML_STYLE_COMMENT_STARTS,
+    '.vue': [...C_STYLE_COMMENT_STARTS, ...XML_STYLE_COMMENT_STARTS],
+    '.py': HASH_STYLE_COMMENT_STARTS,
+    '.rb': HASH_STYLE_COMMENT_STARTS,
+    '.sh': HASH_STYLE_COMMENT_STARTS,
+    '.yml': HASH_STYLE_COMMENT_STARTS,
+    '.yaml': HASH_STYLE_COMMENT_STARTS,
+    '.properties': HASH_STYLE_COMMENT_STARTS,
+    '.sql': SQL_STYLE_COMMENT_STARTS,
+    '.soql': SQL_STYLE_COMMENT_STARTS
+};
+// For files with extensions that we don't know about, we accept the most common comment syntaxes
+const DEFAULT_COMMENT_STARTS: string[] = [...C_STYLE_COMMENT_STARTS, ...XML_STYLE_COMMENT_STARTS, ...HASH_STYLE_COMMENT_STARTS];
+
+/**
+ * Splits the violations into the ones that are not suppressed and the ones that are suppressed by inline suppression
+ * markers in the files of their primary code locations. The supported markers are:
+ *   code-analyzer-suppress(<selectors>) <justification>
+ *       Suppresses violations on the same line if the marker comes after code, otherwise on the next line.
+ *   code-analyzer-suppress-next-line(<selectors>) <justification>
+ *       Suppresses violations on the next line.
+ *   code-analyzer-suppress-file(<selectors>) <justification>
+ *       Suppresses violations anywhere in the file.
+ * The markers must be at the start of a comment using the comment syntax of the file's language. The selectors are a
+ * rule selector expression (like "regex:TrailingWhitespaceRule" or "(pmd,eslint):!Low") which can be omitted to suppress
+ * all rules. Markers with malformed selectors don't suppress any violations and are reported with the emitWarning callback.
+ * Binary files (like zip archives) are never searched for markers.
+ */
+export function partitionSuppressedViolations(violations: Violation[], emitWarning: (message: string) => void): SuppressionPartition {
+    const fileLinesReader: FileLinesReader = new FileLinesReader();
+    const markersCache: Map<string, SuppressionMarker[]> = new Map();
+    const partition: SuppressionPartition = {unsuppressedViolations: [], suppressedViolations: []};
+    for (const violation of violations) {
+        const primaryLocation: CodeLocation = violation.getCodeLocations()[violation.getPrimaryLocationIndex()];
+        const file: string | undefined = primaryLocation.getFile();
+        if (file && !markersCache.has(file)) {
+            markersCache.set(file, findSuppressionMarkers(file, fileLinesReader.getFileLines(file), emitWarning));
+        }
+        const markers: SuppressionMarker[] = file ? markersCache.get(file) as SuppressionMarker[] : [];
+        const matchingMarker: SuppressionMarker | undefined = markers.find(m =>
+            (m.scope == SuppressionScope.File || m.line == primaryLocation.getStartLine())
+            && (!m.ruleSelector || m.ruleSelector.matches(violation.getRule())));
+        if (matchingMarker) {
+            partition.suppressedViolations.push(new SuppressedViolationImpl(violation, matchingMarker.justification));
+        } else {
+            partition.unsuppressedViolations.push(violation);
+        }
+    }
+    return partition;
+}
+
+function findSuppressionMarkers(file: string, lines: string[], emitWarning: (message: string) => void): SuppressionMarker[] {
+    const commentStarts: string[] = COMMENT_STARTS_BY_FILE_EXTENSION[path.extname(file).toLowerCase()] || DEFAULT_COMMENT_STARTS;
+    const markerRegex: RegExp = new RegExp(`(${commentStarts.map(escapeRegExp).join('|')})\\s*${SUPPRESSION_MARKER}` +
+        `(-next-line|-file)?(?![\\w-])(.*)$`);
+
+    const markers: SuppressionMarker[] = [];
+    let pendingNextLineMarkers: Omit<SuppressionMarker, 'line'>[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        const lineNumber: number = i + 1;
+        const match: RegExpExecArray | null = markerRegex.exec(lines[i]);
+        const hasCodeBeforeMarker: boolean = match ? lines[i].substring(0, match.index).trim().length > 0 : true;
+
+        // A marker for the next line applies to the next line that is not just another marker, so that markers can be stacked
+        if (pendingNextLineMarkers.length > 0 && hasCodeBeforeMarker) {
+            markers.push(...pendingNextLineMarkers.map(m => ({...m, line: lineNumber})));
+            pendingNextLineMarkers = [];
+        }
+        if (!match) {
+            continue;
+        }
+
+        const [ruleSelectorText, textAfterRuleSelector] = splitOffRuleSelector(match[3]);
+        let ruleSelector: RuleSelectorExpression | undefined = undefined;
+        if (ruleSelectorText.trim().length > 0) {
+            try {
+                ruleSelector = parseRuleSelector(ruleSelectorText);
+            } catch (err) {
+                // A malformed selector in a marker shouldn't fail the whole run, so the marker just doesn't suppress anything
+                emitWarning(getMessage('SuppressionMarkerHasMalformedRuleSelector', lineNumber, file, (err as Error).message));
+                continue;
+            }
+        }
+        const marker: Omit<SuppressionMarker, 'line' | 'scope'> = {
+            ruleSelector: ruleSelector,
+            justification: toJustification(textAfterRuleSelector)
+        };
+        if (match[2] == '-file') {
+            markers.push({...marker, scope: SuppressionScope.File, line: lineNumber});
+        } else if (match[2] == '-next-line' || !hasCodeBeforeMarker) {
+            pendingNextLineMarkers.push({...marker, scope: SuppressionScope.NextLine});
+        } else {
+            markers.push({...marker, scope: SuppressionScope.SameLine, line: lineNumber});
+        }
+    }
+    return markers;
+}
+
+/**
+ * Splits the text that follows the marker into the rule selector within the parentheses (which may contain parentheses
+ * of its own) and the text after the parentheses. If the parentheses are not balanced, then the rest of the text is
+ * returned as the rule selector so that it fails to parse.
+ */
+function splitOffRuleSelector(textAfterMarker: string): [string, string] {
+    // Whitespace is allowed between the marker and the rule selector, like "code-analyzer-suppress (stub1RuleA)"
+    if (!/^\s*\(/.test(textAfterMarker)) {
+        return ['', textAfterMarker];
+    }
+    textAfterMarker = textAfterMarker.trimStart();
+    let depth: number = 0;
+    for (let i = 0; i < textAfterMarker.length; i++) {
+        if (textAfterMarker[i] == '(') {
+            depth++;
+        } else if (textAfterMarker[i] == ')' && --depth == 0) {
+            return [textAfterMarker.substring(1, i), textAfterMarker.substring(i + 1)];
+        }
+    }
+    return [textAfterMarker, ''];
+}
+
+function toJustification(textAfterMarker: string): string {
+    // Removes the end of the comment (for comment syntaxes that have one) from the text that follows the marker
+    return textAfterMarker.replace(/(\*\/|-->)\s*$/, '').trim();
+}
+
+export class SuppressedViolationImpl implements SuppressedViolation {
+    private readonly violation: Violation;
+    private readonly justification: string;
+
+    constructor(violation: Violation, justification: string) {
+        this.violation = violation;
+        this.justification = justification;
+    }
+
+    getViolation(): Violation {
+        return this.violation;
+    }
+
+    getJustification(): string {
+        return this.justification;
+    }
+}
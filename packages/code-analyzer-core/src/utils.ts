@@ -1,8 +1,45 @@
+import fs from "node:fs";
 import path from "node:path";
 
-export function toAbsolutePath(fileOrFolder: string): string {
+export function toAbsolutePath(fileOrFolder: string, baseFolder: string = process.cwd()): string {
     // Convert slashes to platform specific slashes and then convert to absolute path
-    return path.resolve(fileOrFolder.replace(/[\\/]/g, path.sep));
+    return path.resolve(baseFolder, fileOrFolder.replace(/[\\/]/g, path.sep));
+}
+
+/**
+ * Returns the file relative to the run directory (when it is underneath it) with forward slashes, so that anything that
+ * is compared across runs (like baselines and fingerprints) doesn't depend on where or on what platform the code was
+ * checked out.
+ */
+export function toPortableFilePath(file: string, runDir: string): string {
+    const relativeFile: string = file.startsWith(runDir) ? file.substring(runDir.length) : file;
+    return relativeFile.split(path.sep).join('/');
+}
+
+/**
+ * Trims the value and collapses each run of whitespace into a single space, so that changes in indentation or line
+ * wrapping don't count as changes.
+ */
+export function normalizeWhitespace(value: string): string {
+    return value.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Reads the lines of files, caching the lines of each file so that each file is only read once.
+ */
+export class FileLinesReader {
+    private readonly fileLinesCache: Map<string, string[]> = new Map();
+
+    /**
+     * Returns the lines of the file, or no lines if the file does not exist or is a binary file (like a zip archive).
+     */
+    getFileLines(file: string): string[] {
+        if (!this.fileLinesCache.has(file)) {
+            const contents: string = fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : '';
+            this.fileLinesCache.set(file, contents.length == 0 || contents.includes('\0') ? [] : contents.split(/\r?\n/));
+        }
+        return this.fileLinesCache.get(file) as string[];
+    }
 }
 
 export interface Clock {
@@ -25,4 +62,46 @@ export class SimpleUniqueIdGenerator implements UniqueIdGenerator {
     getUniqueId(prefix: string): string {
         return `${prefix}${++this.counter}`;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Maps each item to a result using the async mapFcn while never having more than concurrencyLimit calls in flight.
+ * The returned results are in the same order as the items, regardless of the order in which the calls complete.
+ */
+export async function mapWithConcurrencyLimit<T, R>(items: T[], concurrencyLimit: number, mapFcn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex: number = 0;
+    async function processRemainingItems(): Promise<void> {
+        while (nextIndex < items.length) {
+            const currentIndex: number = nextIndex++;
+            results[currentIndex] = await mapFcn(items[currentIndex]);
+        }
+    }
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < Math.min(concurrencyLimit, items.length); i++) {
+        workers.push(processRemainingItems());
+    }
+    await Promise.all(workers);
+    return results;
+}
+
+export function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Returns the Levenshtein distance between the two values, which is the number of single character insertions,
+ * deletions, and substitutions that are needed to change one value into the other.
+ */
+export function getEditDistance(value1: string, value2: string): number {
+    let previousRow: number[] = Array.from({length: value2.length + 1}, (_, j) => j);
+    for (let i = 1; i <= value1.length; i++) {
+        const currentRow: number[] = [i];
+        for (let j = 1; j <= value2.length; j++) {
+            const substitutionCost: number = value1[i - 1] == value2[j - 1] ? 0 : 1;
+            currentRow.push(Math.min(previousRow[j] + 1, currentRow[j - 1] + 1, previousRow[j - 1] + substitutionCost));
+        }
+        previousRow = currentRow;
+    }
+    return previousRow[value2.length];
+}
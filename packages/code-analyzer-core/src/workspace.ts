@@ -1,6 +1,15 @@
 import * as engApi from "@salesforce/code-analyzer-engine-api"
 import fs from "node:fs";
 import path from "node:path";
+import ignore, {Ignore} from "ignore";
+import {Minimatch} from "minimatch";
+
+export const CODE_ANALYZER_IGNORE_FILE: string = '.code_analyzer_ignore';
+export const GITIGNORE_FILE: string = '.gitignore';
+
+export const DEFAULT_INCLUDE_PATTERNS: string[] = ['**'];
+export const DEFAULT_EXCLUDE_PATTERNS: string[] = ['**/node_modules/**', '**/.git/**', '**/.github/**',
+    '**/code_analyzer_config.yml', '**/code_analyzer_config.yaml', `**/${GITIGNORE_FILE}`, `**/${CODE_ANALYZER_IGNORE_FILE}`];
 
 export interface Workspace {
     getWorkspaceId(): string
@@ -8,14 +17,57 @@ export interface Workspace {
     getExpandedFiles(): Promise<string[]>
 }
 
+/**
+ * A shard holds a portion of the files of a workspace so that the shards of a workspace can be run separately (like on
+ * separate CI agents) with their results merged afterward. The files and folders of a shard are just its own files, but
+ * engines that need the context of the entire project can still get all of the files of the workspace.
+ */
+export interface WorkspaceShard extends Workspace {
+    getShardIndex(): number
+    getShardCount(): number
+    getAllExpandedFiles(): Promise<string[]>
+}
+
+export type WorkspaceOptions = {
+    // The ignore files found in this folder and in the folders between it and the workspace's files and folders also
+    // apply to the workspace's files and folders. The include and exclude patterns are relative to this folder.
+    rootFolder: string
+
+    // The names of the gitignore-syntax files that specify which files and folders should be ignored
+    ignoreFileNames: string[]
+
+    // The glob patterns of the files to include, where a file must match at least one of them to be included
+    includePatterns: string[]
+
+    // The glob patterns of the files and folders to exclude, which take precedence over the include patterns
+    excludePatterns: string[]
+}
+
+function createDefaultWorkspaceOptions(): WorkspaceOptions {
+    return {
+        rootFolder: process.cwd(),
+        ignoreFileNames: [CODE_ANALYZER_IGNORE_FILE],
+        includePatterns: DEFAULT_INCLUDE_PATTERNS,
+        excludePatterns: DEFAULT_EXCLUDE_PATTERNS
+    };
+}
+
 export class WorkspaceImpl implements Workspace, engApi.Workspace {
     private readonly workspaceId: string;
+    private readonly options: WorkspaceOptions;
     private readonly filesAndFolders: string[];
     private expandedFiles?: string[];
 
-    constructor(workspaceId: string, absFilesAndFolders: string[]) {
+    constructor(workspaceId: string, absFilesAndFolders: string[], options: WorkspaceOptions = createDefaultWorkspaceOptions()) {
         this.workspaceId = workspaceId;
-        this.filesAndFolders = removeRedundantPaths(absFilesAndFolders).filter(isWantedPath);
+        this.options = options;
+        const globPatterns: GlobPatterns = new GlobPatterns(options);
+        const ignoreRules: IgnoreRules = new IgnoreRules(options.ignoreFileNames);
+        this.filesAndFolders = removeRedundantPaths(absFilesAndFolders).filter(p => {
+            const isFolder: boolean = fs.statSync(p).isDirectory();
+            return globPatterns.isWanted(p, isFolder) &&
+                !ignoreRules.isIgnored(p, ignoreRules.getAncestorRules(p, options.rootFolder), isFolder);
+        });
     }
 
     getWorkspaceId(): string {
@@ -28,12 +80,77 @@ export class WorkspaceImpl implements Workspace, engApi.Workspace {
 
     async getExpandedFiles(): Promise<string[]> {
         if (!this.expandedFiles) {
-            this.expandedFiles = (await expandToListAllFiles(this.filesAndFolders)).filter(isWantedPath);
+            this.expandedFiles = await expandToListAllFiles(this.filesAndFolders, this.options);
         }
         return this.expandedFiles as string[];
     }
 }
 
+export class WorkspaceShardImpl implements WorkspaceShard, engApi.Workspace {
+    private readonly workspaceId: string;
+    private readonly shardIndex: number;
+    private readonly shardCount: number;
+    private readonly files: string[];
+    private readonly allFiles: string[];
+
+    constructor(workspaceId: string, shardIndex: number, shardCount: number, files: string[], allFiles: string[]) {
+        this.workspaceId = workspaceId;
+        this.shardIndex = shardIndex;
+        this.shardCount = shardCount;
+        this.files = files;
+        this.allFiles = allFiles;
+    }
+
+    getWorkspaceId(): string {
+        return this.workspaceId;
+    }
+
+    getShardIndex(): number {
+        return this.shardIndex;
+    }
+
+    getShardCount(): number {
+        return this.shardCount;
+    }
+
+    getFilesAndFolders(): string[] {
+        return this.files;
+    }
+
+    async getExpandedFiles(): Promise<string[]> {
+        return this.files;
+    }
+
+    async getAllExpandedFiles(): Promise<string[]> {
+        return this.allFiles;
+    }
+}
+
+// Each file counts as if it were this many bytes larger so that many small files are not all put into the same shard,
+// since engines also spend time on each file regardless of its size
+const SHARD_FILE_OVERHEAD_BYTES: number = 1024;
+
+/**
+ * Splits the files into the specified number of shards, balancing the shards by the number and size of their files.
+ * Since the files are assigned from largest to smallest (with ties broken by path) to the shard with the least total
+ * size so far, the same files always result in the same shards. The files of each shard are sorted.
+ */
+export async function splitIntoShards(absFiles: string[], shardCount: number): Promise<string[][]> {
+    const fileSizes: Map<string, number> = new Map();
+    await Promise.all(absFiles.map(async f => fileSizes.set(f, (await fs.promises.stat(f)).size + SHARD_FILE_OVERHEAD_BYTES)));
+    const filesFromLargestToSmallest: string[] = [...absFiles].sort((f1, f2) =>
+        (fileSizes.get(f2) as number) - (fileSizes.get(f1) as number) || (f1 < f2 ? -1 : 1)); // Files are unique, so their paths are never equal
+
+    const shards: string[][] = Array.from({length: shardCount}, () => []);
+    const shardSizes: number[] = new Array(shardCount).fill(0);
+    for (const file of filesFromLargestToSmallest) {
+        const smallestShardIndex: number = shardSizes.indexOf(Math.min(...shardSizes));
+        shards[smallestShardIndex].push(file);
+        shardSizes[smallestShardIndex] += fileSizes.get(file) as number;
+    }
+    return shards.map(files => files.sort());
+}
+
 /**
  *  Removes redundant paths.
  *  If a user supplies a parent folder and subfolder of file underneath the parent folder, then we can safely
@@ -54,30 +171,137 @@ function removeRedundantPaths(absolutePaths: string[]): string[] {
 }
 
 /**
- * Returns whether a path should be included or not (like those that live under a "node_modules" folder should not be)
- * Idea: in the future, we might consider having a .code_analyzer_ignore file or something that users can create
- */
-function isWantedPath(absolutePath: string): boolean {
-    const unwantedFolders: string[] = ['node_modules', '.git', '.github'];
-    const unwantedFiles: string[] = ['code_analyzer_config.yml', 'code_analyzer_config.yaml', '.gitignore'];
-    return !unwantedFolders.some(f => absolutePath.includes(`${path.sep}${f}${path.sep}`)) &&
-        !unwantedFiles.includes(path.basename(absolutePath));
-}
-
-/**
- * Expands a list of files and/or folders to be a list of all contained files, including the files found in subfolders
+ * Expands a list of files and/or folders to be a list of all contained files, including the files found in subfolders.
+ * If workspace options are provided, then the files and folders that are not wanted by the include and exclude patterns
+ * or that are ignored by the ignore files are skipped.
  */
-export async function expandToListAllFiles(absoluteFileOrFolderPaths: string[]): Promise<string[]> {
+export async function expandToListAllFiles(absoluteFileOrFolderPaths: string[], options?: WorkspaceOptions): Promise<string[]> {
+    const globPatterns: GlobPatterns | undefined = options ? new GlobPatterns(options) : undefined;
+    const ignoreRules: IgnoreRules = new IgnoreRules(options ? options.ignoreFileNames : []);
     const allFiles: string[] = [];
-    async function processPath(currentPath: string): Promise<void> {
-        if ((await fs.promises.stat(currentPath)).isDirectory()) {
+    async function processPath(currentPath: string, ancestorRules: FolderIgnoreRules[]): Promise<void> {
+        const isFolder: boolean = (await fs.promises.stat(currentPath)).isDirectory();
+        if ((globPatterns && !globPatterns.isWanted(currentPath, isFolder)) || ignoreRules.isIgnored(currentPath, ancestorRules, isFolder)) {
+            return;
+        } else if (isFolder) {
             const subPaths: string[] = await fs.promises.readdir(currentPath);
             const absSubPaths: string[] = subPaths.map(f => path.join(currentPath, f));
-            await Promise.all(absSubPaths.map(processPath)); // Process subdirectories recursively
+            const rulesForSubPaths: FolderIgnoreRules[] = ignoreRules.appendRulesFromFolder(ancestorRules, currentPath);
+            await Promise.all(absSubPaths.map(p => processPath(p, rulesForSubPaths))); // Process subdirectories recursively
         } else {
             allFiles.push(currentPath);
         }
     }
-    await Promise.all(absoluteFileOrFolderPaths.map(processPath));
+    await Promise.all(absoluteFileOrFolderPaths.map(p =>
+        processPath(p, options ? ignoreRules.getAncestorRules(p, options.rootFolder) : [])));
     return allFiles.sort();
-}
\ No newline at end of file
+}
+
+/**
+ * Determines which files and folders are wanted based on the include and exclude glob patterns, which are matched
+ * against paths relative to the root folder. Paths that are not underneath the root folder are matched as absolute
+ * paths so that patterns starting with "**" (like the default exclude patterns) still apply to them.
+ */
+class GlobPatterns {
+    private readonly rootFolder: string;
+    private readonly includeMatchers: Minimatch[];
+    private readonly excludeMatchers: Minimatch[];
+
+    constructor(options: WorkspaceOptions) {
+        this.rootFolder = options.rootFolder;
+        this.includeMatchers = options.includePatterns.map(p => new Minimatch(p, {dot: true}));
+        this.excludeMatchers = options.excludePatterns.map(p => new Minimatch(p, {dot: true}));
+    }
+
+    /**
+     * Returns whether a path is wanted. A folder is wanted as long as it is not excluded since files underneath it may
+     * still be included. A file must also be included by at least one of the include patterns.
+     */
+    isWanted(absPath: string, isFolder: boolean): boolean {
+        const matchablePath: string = this.toMatchablePath(absPath, isFolder);
+        if (this.excludeMatchers.some(m => m.match(matchablePath))) {
+            return false;
+        }
+        return isFolder || this.includeMatchers.some(m => m.match(matchablePath));
+    }
+
+    private toMatchablePath(absPath: string, isFolder: boolean): string {
+        const relPath: string = path.relative(this.rootFolder, absPath);
+        const pathToMatch: string = relPath.startsWith('..') || path.isAbsolute(relPath) ? absPath : relPath;
+        // Glob patterns use forward slashes and a trailing slash allows folder patterns like "someFolder/**" to match folders
+        return pathToMatch.split(path.sep).join('/') + (isFolder ? '/' : '');
+    }
+}
+
+type FolderIgnoreRules = {
+    folder: string
+    matcher: Ignore
+}
+
+/**
+ * Applies the rules from gitignore-syntax ignore files, where the rules from an ignore file apply to everything
+ * underneath the folder that contains it. Just like with git, the rules from ignore files in deeper folders take
+ * precedence, so they can use negation patterns (like "!someFile.cls") to re-include what a parent folder ignores.
+ */
+class IgnoreRules {
+    private readonly ignoreFileNames: string[];
+    private readonly rulesCache: Map<string, FolderIgnoreRules | undefined> = new Map();
+
+    constructor(ignoreFileNames: string[]) {
+        this.ignoreFileNames = ignoreFileNames;
+    }
+
+    /**
+     * Returns the rules (ordered from outermost to innermost folder) from the ignore files in the rootFolder and in
+     * the folders between the rootFolder and the specified path. Paths not underneath the rootFolder have no such rules.
+     */
+    getAncestorRules(absPath: string, rootFolder: string): FolderIgnoreRules[] {
+        const relPath: string = path.relative(rootFolder, absPath);
+        if (relPath.length == 0 || relPath.startsWith('..') || path.isAbsolute(relPath)) {
+            return [];
+        }
+        let ancestorRules: FolderIgnoreRules[] = [];
+        let currentFolder: string = rootFolder;
+        for (const pathPart of relPath.split(path.sep)) {
+            ancestorRules = this.appendRulesFromFolder(ancestorRules, currentFolder);
+            currentFolder = path.join(currentFolder, pathPart);
+        }
+        return ancestorRules;
+    }
+
+    appendRulesFromFolder(rules: FolderIgnoreRules[], absFolder: string): FolderIgnoreRules[] {
+        if (!this.rulesCache.has(absFolder)) {
+            this.rulesCache.set(absFolder, this.loadRulesFromFolder(absFolder));
+        }
+        const folderRules: FolderIgnoreRules | undefined = this.rulesCache.get(absFolder);
+        return folderRules ? [...rules, folderRules] : rules;
+    }
+
+    isIgnored(absPath: string, ancestorRules: FolderIgnoreRules[], isFolder: boolean): boolean {
+        let ignored: boolean = false;
+        for (const folderRules of ancestorRules) {
+            // The ignore matcher expects relative paths with forward slashes and folders to have a trailing slash
+            const relPath: string = path.relative(folderRules.folder, absPath).split(path.sep).join('/') + (isFolder ? '/' : '');
+            const result = folderRules.matcher.test(relPath);
+            if (result.ignored) {
+                ignored = true;
+            } else if (result.unignored) {
+                ignored = false;
+            }
+        }
+        return ignored;
+    }
+
+    private loadRulesFromFolder(absFolder: string): FolderIgnoreRules | undefined {
+        const ignoreFiles: string[] = this.ignoreFileNames.map(f => path.join(absFolder, f))
+            .filter(f => fs.existsSync(f) && fs.statSync(f).isFile());
+        if (ignoreFiles.length == 0) {
+            return undefined;
+        }
+        const matcher: Ignore = ignore();
+        for (const ignoreFile of ignoreFiles) {
+            matcher.add(fs.readFileSync(ignoreFile, 'utf-8'));
+        }
+        return {folder: absFolder, matcher: matcher};
+    }
+}
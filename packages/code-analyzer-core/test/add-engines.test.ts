@@ -101,6 +101,41 @@ describe("Tests for adding engines to Code Analyzer", () => {
         expect(codeAnalyzer.getEngineNames().sort()).toEqual(["stubEngine1", "stubEngine2"]);
     });
 
+    it('When engines are added from a module, then the module that each engine came from is available', async () => {
+        const pluginModulePath: string = require.resolve('./stubs');
+        await codeAnalyzer.dynamicallyAddEnginePlugin(pluginModulePath);
+        await codeAnalyzer.addEnginePlugin(new stubs.FutureEnginePlugin());
+
+        expect(codeAnalyzer.getEnginePluginModule('stubEngine1')).toEqual(pluginModulePath);
+        expect(codeAnalyzer.getEnginePluginModule('stubEngine2')).toEqual(pluginModulePath);
+        expect(codeAnalyzer.getEnginePluginModule('future')).toBeUndefined();
+        expect(codeAnalyzer.getEnginePluginModule('doesNotExist')).toBeUndefined();
+    });
+
+    it('When calling dynamicallyAddCustomEnginePlugins, then the modules from config are resolved from the config root and added', async () => {
+        codeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromFile(path.resolve(__dirname, 'test-data', 'sample-config-04.yaml')));
+        await codeAnalyzer.dynamicallyAddCustomEnginePlugins();
+
+        expect(codeAnalyzer.getEngineNames().sort()).toEqual(["stubEngine1", "stubEngine2"]);
+        expect(codeAnalyzer.getEnginePluginModule('stubEngine1')).toEqual(path.resolve(__dirname, 'stubs.ts'));
+    });
+
+    it('When calling dynamicallyAddCustomEnginePlugins and some modules fail, then errors are logged and the other modules are still added', async () => {
+        codeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromObject({
+            custom_engine_plugin_modules: ['doesNotExist', './test-helpers', './stubs']
+        }, __dirname));
+        codeAnalyzer.onEvent(EventType.LogEvent, (event: LogEvent) => logEvents.push(event));
+        await codeAnalyzer.dynamicallyAddCustomEnginePlugins();
+
+        expect(codeAnalyzer.getEngineNames().sort()).toEqual(["stubEngine1", "stubEngine2"]);
+        const errorEvents: LogEvent[] = getLogEventsOfLevel(LogLevel.Error, logEvents);
+        expect(errorEvents.length).toEqual(2);
+        expect(errorEvents[0].message).toContain(getMessage('FailedToAddCustomEnginePluginModule', 'doesNotExist',
+            'custom_engine_plugin_modules', ''));
+        expect(errorEvents[1].message).toEqual(getMessage('FailedToAddCustomEnginePluginModule', './test-helpers',
+            'custom_engine_plugin_modules', getMessage('FailedToDynamicallyAddEnginePlugin', path.resolve(__dirname, 'test-helpers.ts'))));
+    });
+
     it('When calling dynamicallyAddEnginePlugin on a module that is missing a createEnginePlugin function, then an error is thrown', async () => {
         const badPluginModulePath: string = require.resolve('./test-helpers');
         expect(codeAnalyzer.dynamicallyAddEnginePlugin(badPluginModulePath)).rejects.toThrow(
@@ -0,0 +1,175 @@
+import {Baseline, RunResults, SeverityLevel, Violation} from "../src";
+import * as stubs from "./stubs";
+import {getMessage} from "../src/messages";
+import {changeWorkingDirectoryToPackageRoot, SampleClassFixture, setUpSampleClassFixture} from "./test-helpers";
+import fs from "node:fs";
+import path from "node:path";
+
+changeWorkingDirectoryToPackageRoot();
+
+describe("Tests for baselines", () => {
+    const fixture: SampleClassFixture = setUpSampleClassFixture('baseline-test-');
+
+    function getLines(violations: Violation[]): number[] {
+        return violations.map(v => v.getCodeLocations()[v.getPrimaryLocationIndex()].getStartLine() as number);
+    }
+
+    it("When creating a baseline from run results, then it contains an entry for each violation with the file relative to the run directory", async () => {
+        fixture.stubEngine1.resultsToReturn = {violations: [stubs.getSampleViolationForStub1RuleA()]};
+        const runResults: RunResults = await fixture.codeAnalyzer.run(fixture.selection, {workspace: await fixture.codeAnalyzer.createWorkspace(['test'])});
+
+        const baseline: Baseline = Baseline.fromRunResults(runResults);
+
+        expect(baseline.getViolationCount()).toEqual(1);
+        const baselineContent = JSON.parse(baseline.toJsonString());
+        expect(baselineContent.violations).toHaveLength(1);
+        expect(baselineContent.violations[0]).toEqual({
+            engine: 'stubEngine1',
+            rule: 'stub1RuleA',
+            file: 'test/config.test.ts',
+            line: 3,
+            message: 'SomeViolationMessage1',
+            codeHash: expect.stringMatching(/^[0-9a-f]{64}$/)
+        });
+    });
+
+    it("When running with a baseline that contains all of the violations, then they are all reported as baselined instead", async () => {
+        const baseline: Baseline = Baseline.fromRunResults(await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3), fixture.createViolation('stub1RuleC', 6)]));
+
+        const runResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3), fixture.createViolation('stub1RuleC', 6)], baseline);
+
+        expect(runResults.getViolationCount()).toEqual(0);
+        expect(runResults.getViolations()).toEqual([]);
+        expect(runResults.getViolationCountOfSeverity(SeverityLevel.Low)).toEqual(0);
+        expect(runResults.getBaselinedViolations().map(v => v.getRule().getName())).toEqual(['stub1RuleA', 'stub1RuleC']);
+        expect(runResults.getEngineRunResults('stubEngine1').getBaselinedViolations()).toHaveLength(2);
+        expect(runResults.getEngineRunResults('stubEngine1').getSuppressedViolations()).toEqual([]);
+    });
+
+    it("When running without a baseline, then no violations are reported as baselined", async () => {
+        const runResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3)]);
+
+        expect(runResults.getViolationCount()).toEqual(1);
+        expect(runResults.getBaselinedViolations()).toEqual([]);
+    });
+
+    it("When new violations are found that are not in the baseline, then only the new violations are counted", async () => {
+        const baseline: Baseline = Baseline.fromRunResults(await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3)]));
+
+        const runResults: RunResults = await fixture.runWithViolations([
+            fixture.createViolation('stub1RuleA', 3),
+            fixture.createViolation('stub1RuleA', 3, 'SomeOtherMessage'),
+            fixture.createViolation('stub1RuleC', 3),
+            fixture.createViolation('stub1RuleA', 1)
+        ], baseline);
+
+        expect(runResults.getViolationCount()).toEqual(3);
+        expect(runResults.getViolationCountOfSeverity(SeverityLevel.Low)).toEqual(2);
+        expect(runResults.getViolationCountOfSeverity(SeverityLevel.Moderate)).toEqual(1);
+        expect(runResults.getBaselinedViolations()).toHaveLength(1);
+    });
+
+    it("When lines are added above a baselined violation, then the violation is still matched even though its line number changed", async () => {
+        const baseline: Baseline = Baseline.fromRunResults(await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3)]));
+        const originalLines: string[] = fs.readFileSync(fixture.sampleFile, 'utf8').split('\n');
+        fs.writeFileSync(fixture.sampleFile, ['// Some new comment', '// Another new comment', ...originalLines].join('\n'));
+
+        const runResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 5)], baseline);
+
+        expect(runResults.getViolationCount()).toEqual(0);
+        expect(getLines(runResults.getBaselinedViolations())).toEqual([5]);
+    });
+
+    it("When the code on the line of a baselined violation changes, then the violation is no longer matched", async () => {
+        const baseline: Baseline = Baseline.fromRunResults(await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3)]));
+        fs.writeFileSync(fixture.sampleFile, fs.readFileSync(fixture.sampleFile, 'utf8').replace(
+            '        insert new Account();', '        insert new Contact();'));
+
+        const runResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3)], baseline);
+
+        expect(runResults.getViolationCount()).toEqual(1);
+        expect(runResults.getBaselinedViolations()).toEqual([]);
+    });
+
+    it("When only the indentation of the code of a baselined violation changes, then the violation is still matched", async () => {
+        const baseline: Baseline = Baseline.fromRunResults(await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3)]));
+        fs.writeFileSync(fixture.sampleFile, fs.readFileSync(fixture.sampleFile, 'utf8').replace(
+            '        insert new Account();', '\tinsert   new Account();  '));
+
+        const runResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3)], baseline);
+
+        expect(runResults.getViolationCount()).toEqual(0);
+    });
+
+    it("When a baselined violation is duplicated on another line with the same code, then only the violation closest to the baselined line is matched", async () => {
+        const baseline: Baseline = Baseline.fromRunResults(await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 6)]));
+
+        const runResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3), fixture.createViolation('stub1RuleA', 6)], baseline);
+
+        expect(getLines(runResults.getViolations())).toEqual([3]);
+        expect(getLines(runResults.getBaselinedViolations())).toEqual([6]);
+    });
+
+    it("When the code of a violation can not be read since its line is past the end of its file, then it is matched without comparing code", async () => {
+        const baseline: Baseline = Baseline.fromRunResults(await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 8)]));
+        fs.writeFileSync(fixture.sampleFile, 'public class SomeClass {}');
+
+        const runResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 8)], baseline);
+
+        expect(runResults.getViolationCount()).toEqual(0);
+        expect(getLines(runResults.getBaselinedViolations())).toEqual([8]);
+    });
+
+    it("When an engine throws an unexpected error, then the resulting violation is never baselined", async () => {
+        fixture.stubEngine1.runRules = () => { throw new Error('SomeErrorMessage'); };
+        const baseline: Baseline = Baseline.fromRunResults(await fixture.runWithViolations([]));
+        expect(baseline.getViolationCount()).toEqual(0);
+
+        const runResults: RunResults = await fixture.runWithViolations([], baseline);
+
+        expect(runResults.getViolationCount()).toEqual(1);
+        expect(runResults.getBaselinedViolations()).toEqual([]);
+    });
+
+    it("When a baseline entry does not have a line or code hash, then it matches violations with the same engine, rule, file, and message", async () => {
+        const baseline: Baseline = Baseline.fromJsonString(JSON.stringify({violations: [
+            {engine: 'stubEngine1', rule: 'stub1RuleA', file: fixture.sampleFile.split(path.sep).join('/'), message: 'SomeMessage'}
+        ]}));
+
+        const runResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 6)], baseline);
+
+        expect(runResults.getViolationCount()).toEqual(0);
+        expect(getLines(runResults.getBaselinedViolations())).toEqual([6]);
+    });
+
+    it("When writing a baseline to a file and reading it back, then the same baseline is returned", async () => {
+        const baseline: Baseline = Baseline.fromRunResults(await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3), fixture.createViolation('stub1RuleC', 6)]));
+        const baselineFile: string = path.join(fixture.tempFolder, 'baseline.json');
+
+        baseline.writeToFile(baselineFile);
+
+        expect(fs.readFileSync(baselineFile, 'utf8')).toEqual(baseline.toJsonString());
+        expect(Baseline.fromFile(baselineFile)).toEqual(baseline);
+    });
+
+    it("When reading a baseline from a file that does not exist, then throw an error", () => {
+        const nonExistingFile: string = path.join(fixture.tempFolder, 'doesNotExist.json');
+        expect(() => Baseline.fromFile(nonExistingFile)).toThrow(getMessage('BaselineFileDoesNotExist', nonExistingFile));
+    });
+
+    it("When baseline content can not be parsed, then throw an error", () => {
+        expect(() => Baseline.fromJsonString('{oops')).toThrow(getMessage('BaselineContentFailedToParse', ''));
+    });
+
+    it.each([
+        '[]',
+        'null',
+        '{}',
+        '{"violations": [null]}',
+        '{"violations": [{"engine": "stubEngine1", "rule": "stub1RuleA", "message": "SomeMessage"}]}',
+        '{"violations": [{"engine": "stubEngine1", "rule": "stub1RuleA", "file": "a.cls", "message": "SomeMessage", "line": "3"}]}',
+        '{"violations": [{"engine": "stubEngine1", "rule": "stub1RuleA", "file": "a.cls", "message": "SomeMessage", "codeHash": 3}]}'
+    ])("When baseline content is invalid, then throw an error. Content: %s", (jsonString: string) => {
+        expect(() => Baseline.fromJsonString(jsonString)).toThrow(getMessage('BaselineContentInvalid'));
+    });
+});
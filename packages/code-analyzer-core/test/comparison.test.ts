@@ -0,0 +1,229 @@
+import {
+    ComparisonCategory,
+    ComparisonOutputFormat,
+    ComparisonOutputFormatter,
+    OutputFormat,
+    RunResults,
+    RunResultsComparison,
+    SeverityLevel,
+    Violation
+} from "../src";
+import {getMessage} from "../src/messages";
+import {changeWorkingDirectoryToPackageRoot, SampleClassFixture, setUpSampleClassFixture} from "./test-helpers";
+import fs from "node:fs";
+import path from "node:path";
+
+changeWorkingDirectoryToPackageRoot();
+
+describe("Tests for comparing run results", () => {
+    const fixture: SampleClassFixture = setUpSampleClassFixture('comparison-test-');
+
+    function toRuleAndLine(violation: Violation): string {
+        return `${violation.getRule().getName()}:${violation.getCodeLocations()[violation.getPrimaryLocationIndex()].getStartLine()}`;
+    }
+
+    it("When comparing run results, then violations are classified as new, fixed, or unchanged", async () => {
+        const previousResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3), fixture.createViolation('stub1RuleC', 6)]);
+        const currentResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3), fixture.createViolation('stub1RuleB', 6)]);
+
+        const comparison: RunResultsComparison = RunResultsComparison.compare(previousResults, currentResults);
+
+        expect(comparison.getViolations(ComparisonCategory.New).map(toRuleAndLine)).toEqual(['stub1RuleB:6']);
+        expect(comparison.getViolations(ComparisonCategory.Fixed).map(toRuleAndLine)).toEqual(['stub1RuleC:6']);
+        expect(comparison.getViolations(ComparisonCategory.Unchanged)).toEqual([currentResults.getViolations()[0]]);
+        expect(comparison.getViolationCount(ComparisonCategory.New)).toEqual(1);
+        expect(comparison.getViolationCountOfSeverity(ComparisonCategory.New, SeverityLevel.High)).toEqual(1);
+        expect(comparison.getViolationCountOfSeverity(ComparisonCategory.Fixed, SeverityLevel.Moderate)).toEqual(1);
+        expect(comparison.getViolationCountOfSeverity(ComparisonCategory.Unchanged, SeverityLevel.Low)).toEqual(1);
+        expect(comparison.getViolationCountOfSeverity(ComparisonCategory.Unchanged, SeverityLevel.High)).toEqual(0);
+        expect(comparison.getRunDirectory()).toEqual(currentResults.getRunDirectory());
+        expect(comparison.getPreviousRunDirectory()).toEqual(previousResults.getRunDirectory());
+    });
+
+    it("When lines are added above a violation, then it is unchanged even though its line number changed", async () => {
+        const previousResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3)]);
+        const originalLines: string[] = fs.readFileSync(fixture.sampleFile, 'utf8').split('\n');
+        fs.writeFileSync(fixture.sampleFile, ['// Some new comment', ...originalLines].join('\n'));
+        const currentResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 4)]);
+
+        const comparison: RunResultsComparison = RunResultsComparison.compare(previousResults, currentResults);
+
+        expect(comparison.getViolationCount(ComparisonCategory.New)).toEqual(0);
+        expect(comparison.getViolationCount(ComparisonCategory.Fixed)).toEqual(0);
+        expect(comparison.getViolations(ComparisonCategory.Unchanged).map(toRuleAndLine)).toEqual(['stub1RuleA:4']);
+    });
+
+    it("When the same violation occurs more times than before, then only the extra occurrence is new", async () => {
+        const previousResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3)]);
+        const currentResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3), fixture.createViolation('stub1RuleA', 6)]);
+
+        const comparison: RunResultsComparison = RunResultsComparison.compare(previousResults, currentResults);
+
+        expect(comparison.getViolationCount(ComparisonCategory.New)).toEqual(1);
+        expect(comparison.getViolationCount(ComparisonCategory.Fixed)).toEqual(0);
+        expect(comparison.getViolationCount(ComparisonCategory.Unchanged)).toEqual(1);
+    });
+
+    it("When comparing with previously saved JSON output, then the result is the same as comparing with the run results", async () => {
+        const previousResults: RunResults = await fixture.runWithViolations([
+            fixture.createViolation('stub1RuleA', 3), fixture.createViolation('stub1RuleC', 6), fixture.createViolation('stub1RuleE', 8)]);
+        const currentResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3), fixture.createViolation('stub1RuleB', 6)]);
+
+        const comparison: RunResultsComparison = RunResultsComparison.compareWithJsonOutput(
+            previousResults.toFormattedOutput(OutputFormat.JSON), currentResults);
+
+        expect(comparison.toFormattedOutput(ComparisonOutputFormat.JSON)).toEqual(
+            RunResultsComparison.compare(previousResults, currentResults).toFormattedOutput(ComparisonOutputFormat.JSON));
+        const fixedViolations: Violation[] = comparison.getViolations(ComparisonCategory.Fixed);
+        expect(fixedViolations.map(toRuleAndLine)).toEqual(['stub1RuleC:6', 'stub1RuleE:8']);
+        expect(fixedViolations[0].getCodeLocations()[0].getFile()).toEqual(fixture.sampleFile);
+        expect(fixedViolations[0].getCodeLocations()[0].getEndColumn()).toEqual(30);
+        expect(fixedViolations[0].getRule().getSeverityLevel()).toEqual(SeverityLevel.Moderate);
+        expect(fixedViolations[1].getResourceUrls()).toEqual(['https://example.com/stub1RuleE', 'https://example.com/stub1RuleE_2']);
+    });
+
+    it("When comparing with a JSON output file that has path locations, then the code locations are restored", async () => {
+        const otherFile: string = path.join(fixture.tempFolder, 'OtherClass.cls');
+        fs.writeFileSync(otherFile, 'public class OtherClass {}');
+        const previousJsonFile: string = path.join(fixture.tempFolder, 'previous.json');
+        fs.writeFileSync(previousJsonFile, JSON.stringify({
+            runDir: fixture.tempFolder + path.sep,
+            violations: [{
+                rule: 'stub2RuleC', engine: 'stubEngine2', severity: 2, type: 'DataFlow', tags: [],
+                file: 'SomeClass.cls', line: 3, column: 9, endLine: 3, endColumn: 30,
+                pathLocations: ['OtherClass.cls:1', 'SomeClass.cls:3:9', path.join(fixture.tempFolder, 'Unknown.cls')],
+                message: 'SomeMessage', fingerprint: 'SomeFingerprint'
+            }]
+        }));
+
+        const comparison: RunResultsComparison = RunResultsComparison.compareWithJsonOutputFile(previousJsonFile, await fixture.runWithViolations([]));
+
+        const fixedViolation: Violation = comparison.getViolations(ComparisonCategory.Fixed)[0];
+        expect(fixedViolation.getPrimaryLocationIndex()).toEqual(1);
+        expect(fixedViolation.getCodeLocations().map(l => [l.getFile(), l.getStartLine(), l.getStartColumn(), l.getEndLine(), l.getEndColumn()])).toEqual([
+            [otherFile, 1, undefined, undefined, undefined],
+            [fixture.sampleFile, 3, 9, 3, 30],
+            [path.join(fixture.tempFolder, 'Unknown.cls'), undefined, undefined, undefined, undefined]
+        ]);
+        expect(fixedViolation.getRule().getType()).toEqual('DataFlow');
+        expect(fixedViolation.getRule().getTags()).toEqual([]);
+        expect(fixedViolation.getRule().getDescription()).toEqual('');
+        expect(fixedViolation.getRule().getResourceUrls()).toEqual([]);
+        expect(fixedViolation.getResourceUrls()).toEqual([]);
+    });
+
+    it("When an engine throws an unexpected error in both runs, then the violation without a file is unchanged when compared with JSON output", async () => {
+        fixture.stubEngine1.runRules = () => { throw new Error('SomeErrorMessage'); };
+        const previousResults: RunResults = await fixture.runWithViolations([]);
+        const currentResults: RunResults = await fixture.runWithViolations([]);
+
+        const comparison: RunResultsComparison = RunResultsComparison.compareWithJsonOutput(
+            previousResults.toFormattedOutput(OutputFormat.JSON), currentResults);
+
+        expect(comparison.getViolationCount(ComparisonCategory.New)).toEqual(0);
+        expect(comparison.getViolationCount(ComparisonCategory.Unchanged)).toEqual(1);
+    });
+
+    it("When formatting a comparison as JSON, then it contains the counts and violations of each category", async () => {
+        const previousResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleC', 6)]);
+        const currentResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleB', 6)]);
+
+        const comparisonOutput = JSON.parse(RunResultsComparison.compare(previousResults, currentResults).toFormattedOutput(ComparisonOutputFormat.JSON));
+
+        expect(comparisonOutput.runDir).toEqual(currentResults.getRunDirectory());
+        expect(comparisonOutput.previousRunDir).toEqual(previousResults.getRunDirectory());
+        expect(comparisonOutput.violationCounts).toEqual({
+            new: {total: 1, sev1: 0, sev2: 1, sev3: 0, sev4: 0, sev5: 0},
+            fixed: {total: 1, sev1: 0, sev2: 0, sev3: 1, sev4: 0, sev5: 0},
+            unchanged: {total: 0, sev1: 0, sev2: 0, sev3: 0, sev4: 0, sev5: 0}
+        });
+        expect(comparisonOutput.newViolations).toHaveLength(1);
+        expect(comparisonOutput.newViolations[0].rule).toEqual('stub1RuleB');
+        expect(comparisonOutput.fixedViolations[0].rule).toEqual('stub1RuleC');
+        expect(comparisonOutput.fixedViolations[0].file).toEqual(fixture.sampleFile);
+        expect(comparisonOutput.unchangedViolations).toEqual([]);
+    });
+
+    it("When formatting a comparison as Markdown, then it contains a table of counts per category and lists only the new violations", async () => {
+        const previousResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3), fixture.createViolation('stub1RuleC', 6)]);
+        const currentResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3), fixture.createViolation('stub1RuleB', 6, 'SomeNewMessage')]);
+
+        const markdown: string = RunResultsComparison.compare(previousResults, currentResults).toFormattedOutput(ComparisonOutputFormat.MARKDOWN);
+
+        expect(markdown).toContain('## Code Analyzer Comparison\n\n| Severity | New | Fixed | Unchanged |\n| --- | ---: | ---: | ---: |\n' +
+            '| 1 (Critical) | 0 | 0 | 0 |\n| 2 (High) | 1 | 0 | 0 |\n| 3 (Moderate) | 0 | 1 | 0 |\n| 4 (Low) | 0 | 0 | 1 |\n' +
+            '| 5 (Info) | 0 | 0 | 0 |\n| **Total** | **1** | **1** | **1** |');
+        expect(markdown).toContain('<summary>New violations (showing 1 of 1)</summary>');
+        expect(markdown).toContain('`stub1RuleB` (stubEngine1)');
+        expect(markdown).toContain('SomeNewMessage');
+        expect(markdown).not.toContain('`stub1RuleC`');
+        expect(markdown).not.toContain('`stub1RuleA`');
+    });
+
+    it("When formatting a comparison without new violations as Markdown, then it states that no new violations were found", async () => {
+        const previousResults: RunResults = await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3)]);
+        const currentResults: RunResults = await fixture.runWithViolations([]);
+
+        const markdown: string = RunResultsComparison.compare(previousResults, currentResults).toFormattedOutput(ComparisonOutputFormat.MARKDOWN);
+
+        expect(markdown).toContain('| **Total** | **0** | **1** | **0** |');
+        expect(markdown.endsWith('\n\nNo new violations found.')).toEqual(true);
+    });
+
+    it("When formatting a comparison with an unsupported format, then throw an error that lists the registered formats", async () => {
+        const comparison: RunResultsComparison = RunResultsComparison.compare(await fixture.runWithViolations([]), await fixture.runWithViolations([]));
+        expect(() => comparison.toFormattedOutput('oops')).toThrow(getMessage('UnsupportedOutputFormat', 'comparison output', 'oops', 'comparison output',
+            ComparisonOutputFormatter.getRegisteredFormats().join(', ')));
+    });
+
+    it("When all built-in comparison formats are checked, then they are all registered", () => {
+        expect(ComparisonOutputFormatter.getRegisteredFormats()).toEqual(expect.arrayContaining(Object.values(ComparisonOutputFormat)));
+    });
+
+    it("When a custom comparison formatter is registered, then comparisons can be formatted using its format name", async () => {
+        const comparison: RunResultsComparison = RunResultsComparison.compare(await fixture.runWithViolations([]),
+            await fixture.runWithViolations([fixture.createViolation('stub1RuleA', 3)]));
+        const formatter: ComparisonOutputFormatter = {
+            format: (c: RunResultsComparison) => `New violation count: ${c.getViolationCount(ComparisonCategory.New)}`
+        };
+        ComparisonOutputFormatter.register('SomeCustomComparisonFormat', formatter);
+        ComparisonOutputFormatter.register('SomeCustomComparisonFormat', formatter); // Registering the same formatter again is a no-op
+
+        expect(comparison.toFormattedOutput('SomeCustomComparisonFormat')).toEqual('New violation count: 1');
+        expect(() => ComparisonOutputFormatter.register('SomeCustomComparisonFormat', {format: () => 'someOtherOutput'})).toThrow(
+            getMessage('DuplicateOutputFormat', 'comparison output', 'SomeCustomComparisonFormat'));
+    });
+
+    it("When a comparison formatter is unregistered, then another formatter can be registered with its format name", async () => {
+        const comparison: RunResultsComparison = RunResultsComparison.compare(await fixture.runWithViolations([]), await fixture.runWithViolations([]));
+        ComparisonOutputFormatter.register('SomeReplacedComparisonFormat', {format: () => 'someOutput'});
+
+        expect(ComparisonOutputFormatter.unregister('SomeReplacedComparisonFormat')).toEqual(true);
+        expect(ComparisonOutputFormatter.unregister('SomeReplacedComparisonFormat')).toEqual(false);
+        ComparisonOutputFormatter.register('SomeReplacedComparisonFormat', {format: () => 'someReplacedOutput'});
+        expect(comparison.toFormattedOutput('SomeReplacedComparisonFormat')).toEqual('someReplacedOutput');
+    });
+
+    it("When comparing with a JSON output file that does not exist, then throw an error", async () => {
+        const nonExistingFile: string = path.join(fixture.tempFolder, 'doesNotExist.json');
+        expect(() => RunResultsComparison.compareWithJsonOutputFile(nonExistingFile, {} as RunResults)).toThrow(
+            getMessage('JsonOutputFileDoesNotExist', nonExistingFile));
+    });
+
+    it("When JSON output can not be parsed, then throw an error", () => {
+        expect(() => RunResultsComparison.compareWithJsonOutput('{oops', {} as RunResults)).toThrow(getMessage('JsonOutputFailedToParse', ''));
+    });
+
+    it.each([
+        '[]',
+        'null',
+        '{"violations": []}',
+        '{"runDir": "/some/dir", "violations": [null]}',
+        '{"runDir": "/some/dir", "violations": [{"rule": "r", "engine": "e", "severity": 3, "type": "Standard", "tags": [], "message": "m", "fingerprint": 3}]}',
+        '{"runDir": "/some/dir", "violations": [{"rule": "r", "engine": "e", "severity": 9, "type": "Standard", "tags": [], "message": "m", "fingerprint": "f"}]}',
+        '{"runDir": "/some/dir", "violations": [{"rule": "r", "engine": "e", "severity": 3, "type": "Standard", "tags": [], "message": "m", "fingerprint": "f", "line": "3"}]}',
+        '{"runDir": "/some/dir", "violations": [{"rule": "r", "engine": "e", "severity": 3, "type": "Standard", "tags": [], "message": "m", "fingerprint": "f", "pathLocations": [3]}]}'
+    ])("When JSON output is invalid, then throw an error. Content: %s", (jsonString: string) => {
+        expect(() => RunResultsComparison.compareWithJsonOutput(jsonString, {} as RunResults)).toThrow(getMessage('JsonOutputInvalid'));
+    });
+});
@@ -10,12 +10,21 @@ describe("Tests for creating and accessing configuration values", () => {
     it("When constructing config withDefaults then default values are returned", () => {
         const conf: CodeAnalyzerConfig = CodeAnalyzerConfig.withDefaults();
 
+        expect(conf.getConfigRoot()).toEqual(process.cwd());
         expect(conf.getLogFolder()).toEqual(os.tmpdir());
+        expect(conf.getMaxLogFiles()).toEqual(10);
         expect(conf.getCustomEnginePluginModules()).toEqual([]);
+        expect(conf.getMaxConcurrentEngines()).toEqual(4);
+        expect(conf.getEngineRunTimeoutSeconds()).toEqual(0);
+        expect(conf.getHonorGitignore()).toEqual(false);
+        expect(conf.getWorkspaceIncludePatterns()).toEqual(['**']);
+        expect(conf.getWorkspaceExcludePatterns()).toEqual(['**/node_modules/**', '**/.git/**', '**/.github/**',
+            '**/code_analyzer_config.yml', '**/code_analyzer_config.yaml', '**/.gitignore', '**/.code_analyzer_ignore']);
         expect(conf.getRuleOverridesFor("stubEngine1")).toEqual({});
         expect(conf.getEngineConfigFor("stubEngine1")).toEqual({});
         expect(conf.getRuleOverridesFor("stubEngine2")).toEqual({});
         expect(conf.getEngineConfigFor("stubEngine2")).toEqual({});
+        expect(conf.getRuleSets()).toEqual({});
     });
 
     it("When configuration file does not exist, then throw an error", () => {
@@ -35,6 +44,7 @@ describe("Tests for creating and accessing configuration values", () => {
 
     it("When constructing config from yaml file then values from file are parsed correctly", () => {
         const conf: CodeAnalyzerConfig = CodeAnalyzerConfig.fromFile(path.resolve(__dirname, 'test-data', 'sample-config-01.yaml'));
+        expect(conf.getConfigRoot()).toEqual(path.resolve(__dirname, 'test-data'));
         expect(conf.getLogFolder()).toEqual(path.resolve(__dirname, 'test-data', 'sampleLogFolder'));
         expect(conf.getRuleOverridesFor('stubEngine1')).toEqual({
             stub1RuleB: {
@@ -202,4 +212,172 @@ describe("Tests for creating and accessing configuration values", () => {
         expect(() => CodeAnalyzerConfig.fromObject({custom_engine_plugin_modules: 'oops'})).toThrow(
             getMessage('ConfigValueNotAValidStringArray','custom_engine_plugin_modules', '"oops"'));
     });
+
+    it("When max_concurrent_engines is a positive integer, then it is used", () => {
+        const conf: CodeAnalyzerConfig = CodeAnalyzerConfig.fromObject({max_concurrent_engines: 2});
+        expect(conf.getMaxConcurrentEngines()).toEqual(2);
+    });
+
+    it("When max_concurrent_engines is not a positive integer, then throw an error", () => {
+        expect(() => CodeAnalyzerConfig.fromObject({max_concurrent_engines: 0})).toThrow(
+            getMessage('ConfigValueNotAPositiveInteger','max_concurrent_engines', '0'));
+
+        expect(() => CodeAnalyzerConfig.fromObject({max_concurrent_engines: 2.5})).toThrow(
+            getMessage('ConfigValueNotAPositiveInteger','max_concurrent_engines', '2.5'));
+
+        expect(() => CodeAnalyzerConfig.fromObject({max_concurrent_engines: '3'})).toThrow(
+            getMessage('ConfigValueNotAPositiveInteger','max_concurrent_engines', '"3"'));
+    });
+
+    it("When engine_run_timeout_seconds is a non-negative number, then it is used", () => {
+        expect(CodeAnalyzerConfig.fromObject({engine_run_timeout_seconds: 90}).getEngineRunTimeoutSeconds()).toEqual(90);
+        expect(CodeAnalyzerConfig.fromObject({engine_run_timeout_seconds: 0.5}).getEngineRunTimeoutSeconds()).toEqual(0.5);
+        expect(CodeAnalyzerConfig.fromObject({engine_run_timeout_seconds: 0}).getEngineRunTimeoutSeconds()).toEqual(0);
+    });
+
+    it("When engine_run_timeout_seconds is not a non-negative number, then throw an error", () => {
+        expect(() => CodeAnalyzerConfig.fromObject({engine_run_timeout_seconds: -1})).toThrow(
+            getMessage('ConfigValueNotANonNegativeNumber','engine_run_timeout_seconds', '-1'));
+
+        expect(() => CodeAnalyzerConfig.fromObject({engine_run_timeout_seconds: 'oops'})).toThrow(
+            getMessage('ConfigValueNotANonNegativeNumber','engine_run_timeout_seconds', '"oops"'));
+    });
+
+    it("When workspace.honor_gitignore is a boolean, then it is used", () => {
+        expect(CodeAnalyzerConfig.fromObject({workspace: {honor_gitignore: true}}).getHonorGitignore()).toEqual(true);
+        expect(CodeAnalyzerConfig.fromObject({workspace: {}}).getHonorGitignore()).toEqual(false);
+    });
+
+    it("When workspace.include is specified, then it replaces the default patterns, whereas workspace.exclude is added to the default patterns", () => {
+        const conf: CodeAnalyzerConfig = CodeAnalyzerConfig.fromObject({workspace: {include: ['src/**'], exclude: ['**/*.min.js']}});
+        expect(conf.getWorkspaceIncludePatterns()).toEqual(['src/**']);
+        expect(conf.getWorkspaceExcludePatterns()).toEqual([...CodeAnalyzerConfig.withDefaults().getWorkspaceExcludePatterns(), '**/*.min.js']);
+        expect(CodeAnalyzerConfig.fromObject({workspace: {exclude: []}}).getWorkspaceExcludePatterns()).toEqual(
+            CodeAnalyzerConfig.withDefaults().getWorkspaceExcludePatterns());
+    });
+
+    it("When workspace.use_default_excludes is false, then only the specified exclude patterns are used", () => {
+        expect(CodeAnalyzerConfig.fromObject({workspace: {exclude: ['**/*.min.js'], use_default_excludes: false}})
+            .getWorkspaceExcludePatterns()).toEqual(['**/*.min.js']);
+        expect(CodeAnalyzerConfig.fromObject({workspace: {use_default_excludes: false}}).getWorkspaceExcludePatterns()).toEqual([]);
+        expect(() => CodeAnalyzerConfig.fromObject({workspace: {use_default_excludes: 'false'}})).toThrow(
+            getMessage('ConfigValueMustBeOfType', 'workspace.use_default_excludes', 'boolean', 'string'));
+    });
+
+    it("When workspace.include or workspace.exclude is not a string array, then throw an error", () => {
+        expect(() => CodeAnalyzerConfig.fromObject({workspace: {include: 'src/**'}})).toThrow(
+            getMessage('ConfigValueNotAValidStringArray', 'workspace.include', '"src/**"'));
+        expect(() => CodeAnalyzerConfig.fromObject({workspace: {exclude: [3]}})).toThrow(
+            getMessage('ConfigValueNotAValidStringArray', 'workspace.exclude', '[3]'));
+    });
+
+    it("When workspace or workspace.honor_gitignore has an invalid type, then throw an error", () => {
+        expect(() => CodeAnalyzerConfig.fromObject({workspace: ['oops']})).toThrow(
+            getMessage('ConfigValueMustBeOfType', 'workspace', 'object', 'array'));
+        expect(() => CodeAnalyzerConfig.fromObject({workspace: {honor_gitignore: 'true'}})).toThrow(
+            getMessage('ConfigValueMustBeOfType', 'workspace.honor_gitignore', 'boolean', 'string'));
+    });
+
+    it("When config_root is not specified in a config object, then the provided default config root is used", () => {
+        expect(CodeAnalyzerConfig.fromObject({}).getConfigRoot()).toEqual(process.cwd());
+        expect(CodeAnalyzerConfig.fromObject({}, 'test').getConfigRoot()).toEqual(path.resolve('test'));
+        expect(CodeAnalyzerConfig.fromJsonString('{}', 'src').getConfigRoot()).toEqual(path.resolve('src'));
+        expect(CodeAnalyzerConfig.fromYamlString('{}', 'src').getConfigRoot()).toEqual(path.resolve('src'));
+    });
+
+    it("When config_root is specified, then it is used instead of the default config root", () => {
+        const conf: CodeAnalyzerConfig = CodeAnalyzerConfig.fromObject({config_root: 'test-data'}, 'test');
+        expect(conf.getConfigRoot()).toEqual(path.resolve('test', 'test-data'));
+        const absoluteConfigRoot: string = path.resolve('test', 'test-data');
+        expect(CodeAnalyzerConfig.fromObject({config_root: absoluteConfigRoot}, 'src').getConfigRoot()).toEqual(absoluteConfigRoot);
+    });
+
+    it("When a config file specifies a relative config_root, then it is resolved against the folder of the config file instead of the cwd", () => {
+        const configFile: string = path.resolve('test', 'test-data', 'sample-config-05.yaml');
+        const originalCwd: string = process.cwd();
+        process.chdir(path.resolve('src'));
+        try {
+            expect(CodeAnalyzerConfig.fromFile(configFile).getConfigRoot()).toEqual(
+                path.join(path.dirname(configFile), 'sampleWorkspace'));
+        } finally {
+            process.chdir(originalCwd);
+        }
+    });
+
+    it("When log_folder is relative, then it is resolved against the config_root instead of the cwd", () => {
+        expect(CodeAnalyzerConfig.fromObject({config_root: 'test', log_folder: 'test-data/sampleLogFolder'}).getLogFolder()).toEqual(
+            path.resolve('test', 'test-data', 'sampleLogFolder'));
+
+        const configFile: string = path.resolve('test', 'test-data', 'sample-config-03.json');
+        const originalCwd: string = process.cwd();
+        process.chdir(path.resolve('src'));
+        try {
+            expect(CodeAnalyzerConfig.fromFile(configFile).getLogFolder()).toEqual(path.join(path.dirname(configFile), 'sampleLogFolder'));
+        } finally {
+            process.chdir(originalCwd);
+        }
+    });
+
+    it("When config_root does not exist or is not a folder, then throw an error", () => {
+        const nonExistingFolder: string = path.resolve(__dirname, "doesNotExist");
+        expect(() => CodeAnalyzerConfig.fromObject({config_root: nonExistingFolder})).toThrow(
+            getMessage('ConfigValueFolderMustExist', 'config_root', nonExistingFolder));
+
+        const notAFolder: string = path.resolve(__dirname, "config.test.ts");
+        expect(() => CodeAnalyzerConfig.fromObject({config_root: notAFolder})).toThrow(
+            getMessage('ConfigValueMustBeFolder', 'config_root', notAFolder));
+
+        expect(() => CodeAnalyzerConfig.fromObject({config_root: 3})).toThrow(
+            getMessage('ConfigValueMustBeOfType', 'config_root', 'string', 'number'));
+    });
+
+    it("When max_log_files is not a positive integer, then throw an error", () => {
+        expect(CodeAnalyzerConfig.fromObject({max_log_files: 3}).getMaxLogFiles()).toEqual(3);
+        expect(() => CodeAnalyzerConfig.fromObject({max_log_files: -2})).toThrow(
+            getMessage('ConfigValueNotAPositiveInteger','max_log_files', '-2'));
+    });
+
+    it("When rule overrides contain the disabled, description, resource_urls, and add_tags values, then they are used", () => {
+        const someRuleOverrides: object = {
+            someRule1: {disabled: true},
+            someRule2: {disabled: false, description: 'Some description', resource_urls: [], add_tags: ['SomeTag']},
+            someRule3: {tags: ['Performance'], add_tags: ['SomeTag'], resource_urls: ['https://example.com/someRule3']}
+        };
+        const conf: CodeAnalyzerConfig = CodeAnalyzerConfig.fromObject({rules: {someEngine: someRuleOverrides}});
+        expect(conf.getRuleOverridesFor('someEngine')).toEqual(someRuleOverrides);
+    });
+
+    it("When the disabled, description, resource_urls, or add_tags values of a rule have invalid values, then throw an error", () => {
+        expect(() => CodeAnalyzerConfig.fromObject({rules: {someEngine: {someRule: {disabled: 'true'}}}})).toThrow(
+            getMessage('ConfigValueMustBeOfType', 'rules.someEngine.someRule.disabled', 'boolean', 'string'));
+        expect(() => CodeAnalyzerConfig.fromObject({rules: {someEngine: {someRule: {description: ['oops']}}}})).toThrow(
+            getMessage('ConfigValueMustBeOfType', 'rules.someEngine.someRule.description', 'string', 'array'));
+        expect(() => CodeAnalyzerConfig.fromObject({rules: {someEngine: {someRule: {resource_urls: 'https://example.com'}}}})).toThrow(
+            getMessage('ConfigValueNotAValidStringArray', 'rules.someEngine.someRule.resource_urls', '"https://example.com"'));
+        expect(() => CodeAnalyzerConfig.fromObject({rules: {someEngine: {someRule: {add_tags: [3]}}}})).toThrow(
+            getMessage('ConfigValueNotAValidStringArray', 'rules.someEngine.someRule.add_tags', '[3]'));
+    });
+
+    it("When rule_sets is specified with valid rule sets, then they are returned", () => {
+        const ruleSets: object = {
+            security_gate: ['retire-js', 'regex:Security', '!Low'],
+            default: ['Recommended,severity<=2'],
+            empty: []
+        };
+        expect(CodeAnalyzerConfig.fromObject({rule_sets: ruleSets}).getRuleSets()).toEqual(ruleSets);
+    });
+
+    it("When rule_sets has an invalid value, rule set name, or rule selector, then throw an error", () => {
+        expect(() => CodeAnalyzerConfig.fromObject({rule_sets: ['Security']})).toThrow(
+            getMessage('ConfigValueMustBeOfType', 'rule_sets', 'object', 'array'));
+        expect(() => CodeAnalyzerConfig.fromObject({rule_sets: {'security gate': ['Security']}})).toThrow(
+            getMessage('ConfigValueNotAValidRuleSetName', 'rule_sets', 'security gate'));
+        expect(() => CodeAnalyzerConfig.fromObject({rule_sets: {'a:b': ['Security']}})).toThrow(
+            getMessage('ConfigValueNotAValidRuleSetName', 'rule_sets', 'a:b'));
+        expect(() => CodeAnalyzerConfig.fromObject({rule_sets: {security_gate: 'Security'}})).toThrow(
+            getMessage('ConfigValueNotAValidStringArray', 'rule_sets.security_gate', '"Security"'));
+        expect(() => CodeAnalyzerConfig.fromObject({rule_sets: {security_gate: ['(Security']}})).toThrow(
+            getMessage('ConfigValueNotAValidRuleSelector', 'rule_sets.security_gate',
+                getMessage('RuleSelectorUnexpectedEnd', '(Security')));
+    });
 });
\ No newline at end of file
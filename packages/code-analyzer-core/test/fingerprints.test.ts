@@ -0,0 +1,107 @@
+import {RunResults} from "../src";
+import {changeWorkingDirectoryToPackageRoot, SampleClassFixture, setUpSampleClassFixture} from "./test-helpers";
+import * as engApi from "@salesforce/code-analyzer-engine-api";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+changeWorkingDirectoryToPackageRoot();
+
+describe("Tests for violation fingerprints", () => {
+    const fixture: SampleClassFixture = setUpSampleClassFixture('fingerprints-test-');
+
+    async function getFingerprints(violations: engApi.Violation[]): Promise<string[]> {
+        const runResults: RunResults = await fixture.runWithViolations(violations);
+        return runResults.getViolations().map(v => v.getFingerprint());
+    }
+
+    it("When getting the fingerprint of a violation, then it is a sha256 hash", async () => {
+        const fingerprints: string[] = await getFingerprints([fixture.createViolation('stub1RuleA', 3)]);
+        expect(fingerprints).toEqual([expect.stringMatching(/^[0-9a-f]{64}$/)]);
+    });
+
+    it("When lines are added above a violation, then its fingerprint does not change even though its line number changed", async () => {
+        const fingerprintsBefore: string[] = await getFingerprints([fixture.createViolation('stub1RuleA', 3)]);
+        const originalLines: string[] = fs.readFileSync(fixture.sampleFile, 'utf8').split('\n');
+        fs.writeFileSync(fixture.sampleFile, ['// Some new comment', '// Another new comment', ...originalLines].join('\n'));
+
+        const fingerprintsAfter: string[] = await getFingerprints([fixture.createViolation('stub1RuleA', 5)]);
+
+        expect(fingerprintsAfter).toEqual(fingerprintsBefore);
+    });
+
+    it("When only the indentation of the code of a violation changes, then its fingerprint does not change", async () => {
+        const fingerprintsBefore: string[] = await getFingerprints([fixture.createViolation('stub1RuleA', 3)]);
+        fs.writeFileSync(fixture.sampleFile, fs.readFileSync(fixture.sampleFile, 'utf8').replace(
+            '        insert new Account();', '\tinsert   new Account();  '));
+
+        const fingerprintsAfter: string[] = await getFingerprints([fixture.createViolation('stub1RuleA', 3)]);
+
+        expect(fingerprintsAfter).toEqual(fingerprintsBefore);
+    });
+
+    it("When the code of a violation changes, then its fingerprint changes", async () => {
+        const fingerprintsBefore: string[] = await getFingerprints([fixture.createViolation('stub1RuleA', 3)]);
+        fs.writeFileSync(fixture.sampleFile, fs.readFileSync(fixture.sampleFile, 'utf8').replace(
+            '        insert new Account();', '        insert new Contact();'));
+
+        const fingerprintsAfter: string[] = await getFingerprints([fixture.createViolation('stub1RuleA', 3)]);
+
+        expect(fingerprintsAfter).not.toEqual(fingerprintsBefore);
+    });
+
+    it("When violations differ by rule or message, then they have different fingerprints", async () => {
+        const fingerprints: string[] = await getFingerprints([
+            fixture.createViolation('stub1RuleA', 3),
+            fixture.createViolation('stub1RuleC', 3),
+            fixture.createViolation('stub1RuleA', 3, 'SomeOtherMessage')
+        ]);
+
+        expect(new Set(fingerprints).size).toEqual(3);
+    });
+
+    it("When violations are on different lines with the same code, then they have different fingerprints that are stable across runs", async () => {
+        const fingerprints1: string[] = await getFingerprints([fixture.createViolation('stub1RuleA', 3), fixture.createViolation('stub1RuleA', 6)]);
+        const fingerprints2: string[] = await getFingerprints([fixture.createViolation('stub1RuleA', 3), fixture.createViolation('stub1RuleA', 6)]);
+
+        expect(new Set(fingerprints1).size).toEqual(2);
+        expect(fingerprints2).toEqual(fingerprints1);
+    });
+
+    it("When the same code is checked out in different folders, then the fingerprints are the same since files are relative to the run directory", async () => {
+        const otherTempFolder: string = fs.mkdtempSync(path.join(os.tmpdir(), 'fingerprints-test-'));
+        const otherSampleFile: string = path.join(otherTempFolder, 'SomeClass.cls');
+        fs.copyFileSync(fixture.sampleFile, otherSampleFile);
+        const originalWorkingDirectory: string = process.cwd();
+        try {
+            process.chdir(fixture.tempFolder);
+            const fingerprints1: string[] = await getFingerprints([fixture.createViolation('stub1RuleA', 3)]);
+            process.chdir(otherTempFolder);
+            const fingerprints2: string[] = await getFingerprints([{...fixture.createViolation('stub1RuleA', 3),
+                codeLocations: [{file: otherSampleFile, startLine: 3, startColumn: 9}]}]);
+
+            expect(fingerprints2).toEqual(fingerprints1);
+        } finally {
+            process.chdir(originalWorkingDirectory);
+            fs.rmSync(otherTempFolder, {recursive: true, force: true});
+        }
+    });
+
+    it("When an engine throws an unexpected error, then the resulting violation still has a fingerprint", async () => {
+        fixture.stubEngine1.runRules = () => { throw new Error('SomeErrorMessage'); };
+
+        const fingerprints: string[] = await getFingerprints([]);
+
+        expect(fingerprints).toEqual([expect.stringMatching(/^[0-9a-f]{64}$/)]);
+    });
+
+    it("When a run is cancelled, then the resulting violation still has a fingerprint", async () => {
+        const abortController: AbortController = new AbortController();
+        abortController.abort();
+
+        const runResults: RunResults = await fixture.codeAnalyzer.run(fixture.selection, {
+            workspace: await fixture.codeAnalyzer.createWorkspace([fixture.tempFolder]), abortSignal: abortController.signal});
+
+        expect(runResults.getViolations().map(v => v.getFingerprint())).toEqual([expect.stringMatching(/^[0-9a-f]{64}$/)]);
+    });
+});
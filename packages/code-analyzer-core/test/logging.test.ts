@@ -0,0 +1,82 @@
+import {CodeAnalyzer, CodeAnalyzerConfig, EventType, LogEvent, LogLevel} from "../src";
+import * as stubs from "./stubs";
+import {getMessage} from "../src/messages";
+import {changeWorkingDirectoryToPackageRoot, FixedClock} from "./test-helpers";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+changeWorkingDirectoryToPackageRoot();
+
+describe("Tests for writing log events to a log file in the log folder", () => {
+    const sampleTimestamp: Date = new Date(Date.UTC(2024, 6, 3, 9, 14, 34, 567));
+    let logFolder: string;
+
+    beforeEach(() => {
+        logFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'logging-test-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(logFolder, {recursive: true, force: true});
+    });
+
+    function createCodeAnalyzer(config: object = {}): CodeAnalyzer {
+        const codeAnalyzer: CodeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromObject({log_folder: logFolder, ...config}));
+        codeAnalyzer._setClock(new FixedClock(sampleTimestamp));
+        return codeAnalyzer;
+    }
+
+    function getLogFileNames(): string[] {
+        return fs.readdirSync(logFolder).filter(f => f.endsWith('.log')).sort();
+    }
+
+    it("When no log events are emitted, then no log file is created", () => {
+        createCodeAnalyzer();
+        expect(getLogFileNames()).toEqual([]);
+    });
+
+    it("When core and engines emit log events, then they are all written to a single log file even without listeners", async () => {
+        const codeAnalyzer: CodeAnalyzer = createCodeAnalyzer();
+        await codeAnalyzer.addEnginePlugin(new stubs.StubEnginePlugin());
+        await codeAnalyzer.run(await codeAnalyzer.selectRules(['stubEngine2']), {workspace: await codeAnalyzer.createWorkspace(['test'])});
+
+        expect(getLogFileNames()).toEqual(['sfca-2024-07-03T09-14-34-567Z.log']);
+        const logLines: string[] = fs.readFileSync(path.join(logFolder, 'sfca-2024-07-03T09-14-34-567Z.log'), 'utf-8').split('\n');
+        expect(logLines).toContain(`[2024-07-03T09:14:34.567Z] Debug Core - ${getMessage('EngineAdded', 'stubEngine1')}`);
+        expect(logLines).toContain(`[2024-07-03T09:14:34.567Z] Debug Core - ${getMessage('RunningEngineWithRules', 'stubEngine2', '["stub2RuleA","stub2RuleB","stub2RuleC"]')}`);
+        expect(logLines).toContain('[2024-07-03T09:14:34.567Z] Info  Engine:stubEngine2 - someMiscInfoMessageFromStubEngine2');
+    });
+
+    it("When multiple sessions start at the same time, then each session gets its own log file", async () => {
+        await createCodeAnalyzer().addEnginePlugin(new stubs.StubEnginePlugin());
+        await createCodeAnalyzer().addEnginePlugin(new stubs.StubEnginePlugin());
+
+        expect(getLogFileNames()).toEqual(['sfca-2024-07-03T09-14-34-567Z.log', 'sfca-2024-07-03T09-14-34-567Z_1.log']);
+    });
+
+    it("When a new log file is created, then the oldest log files beyond max_log_files are removed", async () => {
+        for (const oldLogFileName of ['sfca-2024-01-01T00-00-00-000Z.log', 'sfca-2024-02-01T00-00-00-000Z.log', 'sfca-2024-03-01T00-00-00-000Z.log']) {
+            fs.writeFileSync(path.join(logFolder, oldLogFileName), 'someOldLogContent');
+        }
+        fs.writeFileSync(path.join(logFolder, 'someOtherFile.log'), 'shouldNotBeRemoved');
+
+        await createCodeAnalyzer({max_log_files: 2}).addEnginePlugin(new stubs.StubEnginePlugin());
+
+        expect(getLogFileNames()).toEqual(['sfca-2024-03-01T00-00-00-000Z.log', 'sfca-2024-07-03T09-14-34-567Z.log', 'someOtherFile.log']);
+    });
+
+    it("When the log file can not be written to, then a warning is emitted and log events are no longer written to file", async () => {
+        const codeAnalyzer: CodeAnalyzer = createCodeAnalyzer();
+        const logEvents: LogEvent[] = [];
+        codeAnalyzer.onEvent(EventType.LogEvent, (event: LogEvent) => logEvents.push(event));
+        fs.rmSync(logFolder, {recursive: true, force: true});
+
+        await codeAnalyzer.addEnginePlugin(new stubs.StubEnginePlugin());
+
+        const warnEvents: LogEvent[] = logEvents.filter(e => e.logLevel == LogLevel.Warn);
+        expect(warnEvents).toHaveLength(1);
+        expect(warnEvents[0].message).toContain(getMessage('FailedToWriteToLogFile', logFolder, ''));
+        expect(logEvents.filter(e => e.logLevel == LogLevel.Debug)).toHaveLength(2); // The events are still emitted to listeners
+        expect(fs.existsSync(logFolder)).toEqual(false);
+    });
+});
@@ -1,9 +1,25 @@
-import {RunResults, RunResultsImpl} from "../src/results";
-import {CodeAnalyzer, CodeAnalyzerConfig, OutputFormat} from "../src";
+import {CodeLocation, RunResults, RunResultsImpl} from "../src/results";
+import {
+    Baseline,
+    CodeAnalyzer,
+    CodeAnalyzerConfig,
+    JsonResultsReader,
+    OutputFormat,
+    OutputFormatter,
+    OutputOptions,
+    RuleSelection,
+    SeverityLevel,
+    Violation,
+    Workspace
+} from "../src";
+import {getMessage} from "../src/messages";
 import * as fs from "fs";
+import os from "node:os";
 import path from "node:path";
+import {pathToFileURL} from "node:url";
 import {changeWorkingDirectoryToPackageRoot, FixedClock} from "./test-helpers";
 import * as stubs from "./stubs";
+import * as engApi from "@salesforce/code-analyzer-engine-api";
 
 changeWorkingDirectoryToPackageRoot();
 
@@ -88,6 +104,602 @@ describe("Tests for the XML output format", () => {
     });
 });
 
+describe("Tests for the HTML output format", () => {
+    it("When an empty result is provided, we create a html report with summary having zeros", () => {
+        const results: RunResults = new RunResultsImpl();
+        const formattedText: string = results.toFormattedOutput(OutputFormat.HTML);
+        const expectedText: string = getContentsOfExpectedOutputFile('zeroViolations.html');
+        expect(formattedText).toEqual(expectedText);
+    });
+
+    it("When results contain multiple violations, we create a html report with a collapsible group per file", () => {
+        const formattedText: string = runResults.toFormattedOutput(OutputFormat.HTML);
+        const expectedText: string = getContentsOfExpectedOutputFile('multipleViolations.html');
+        expect(formattedText).toEqual(expectedText);
+    });
+
+    it("When results contain violation of type UnexpectedError, we create a html report that groups it without a file", async () => {
+        const resultsWithUnexpectedError: RunResults = await createResultsWithUnexpectedError();
+        const formattedText: string = resultsWithUnexpectedError.toFormattedOutput(OutputFormat.HTML);
+        const expectedText: string = getContentsOfExpectedOutputFile('unexpectedEngineErrorViolation.html');
+        expect(formattedText).toEqual(expectedText);
+    });
+});
+
+describe("Tests for the JUnit output format", () => {
+    it("When an empty result is provided, we create junit xml with no testsuites", () => {
+        const results: RunResults = new RunResultsImpl();
+        const formattedText: string = results.toFormattedOutput(OutputFormat.JUNIT);
+        const expectedText: string = getContentsOfExpectedOutputFile('zeroViolations.junit.xml');
+        expect(formattedText).toEqual(expectedText);
+    });
+
+    it("When results contain multiple violations, we create a testsuite per engine with a testcase per selected rule", () => {
+        const formattedText: string = runResults.toFormattedOutput(OutputFormat.JUNIT);
+        const expectedText: string = getContentsOfExpectedOutputFile('multipleViolations.junit.xml');
+        expect(formattedText).toEqual(expectedText);
+    });
+
+    it("When results contain violation of type UnexpectedError, we create junit xml that includes a failing UnexpectedError testcase", async () => {
+        const resultsWithUnexpectedError: RunResults = await createResultsWithUnexpectedError();
+        const formattedText: string = resultsWithUnexpectedError.toFormattedOutput(OutputFormat.JUNIT);
+        const expectedText: string = getContentsOfExpectedOutputFile('unexpectedEngineErrorViolation.junit.xml');
+        expect(formattedText).toEqual(expectedText);
+    });
+});
+
+describe("Tests for the Markdown output format", () => {
+    it("When an empty result is provided, we create a markdown summary with zero counts and no violations", () => {
+        const results: RunResults = new RunResultsImpl();
+        const formattedText: string = results.toFormattedOutput(OutputFormat.MARKDOWN);
+        const expectedText: string = getContentsOfExpectedOutputFile('zeroViolations.md');
+        expect(formattedText).toEqual(expectedText);
+    });
+
+    it("When results contain multiple violations, we create a markdown summary with the most severe violations listed first", () => {
+        const formattedText: string = runResults.toFormattedOutput(OutputFormat.MARKDOWN);
+        const expectedText: string = getContentsOfExpectedOutputFile('multipleViolations.md');
+        expect(formattedText).toEqual(expectedText);
+    });
+
+    it("When results contain violation of type UnexpectedError, we create a markdown summary without a top files table", async () => {
+        const resultsWithUnexpectedError: RunResults = await createResultsWithUnexpectedError();
+        const formattedText: string = resultsWithUnexpectedError.toFormattedOutput(OutputFormat.MARKDOWN);
+        const expectedText: string = getContentsOfExpectedOutputFile('unexpectedEngineErrorViolation.md');
+        expect(formattedText).toEqual(expectedText);
+    });
+
+    it("When results contain more violations than can be listed, then the list is capped and the omitted violations are counted", async () => {
+        const results: RunResults = await createResultsWithStub1RuleAViolationMessages(Array.from({length: 150}, (_v, i) => `SomeMessage${i}`));
+
+        const formattedText: string = results.toFormattedOutput(OutputFormat.MARKDOWN);
+
+        expect(formattedText).toContain('| stub1RuleA | stubEngine1 | 150 |');
+        expect(formattedText).toContain('<summary>Violations (showing 100 of 150)</summary>');
+        expect(formattedText).toContain('SomeMessage99 <!-- fingerprint: ');
+        expect(formattedText).not.toContain('SomeMessage100');
+        expect(formattedText).toMatch(/_50 more violation\(s\) were omitted._$/);
+    });
+
+    it("When the listed violations would be too large for a pull request comment, then the list is truncated to fit", async () => {
+        const results: RunResults = await createResultsWithStub1RuleAViolationMessages(Array.from({length: 30}, () => 'x'.repeat(5000)));
+
+        const formattedText: string = results.toFormattedOutput(OutputFormat.MARKDOWN);
+
+        expect(formattedText.length).toBeLessThanOrEqual(60000);
+        expect(formattedText).toContain('<summary>Violations (showing 11 of 30)</summary>');
+        expect(formattedText).toMatch(/_19 more violation\(s\) were omitted._$/);
+    });
+});
+
+describe("Tests for the SARIF output format", () => {
+    it("When an empty result is provided, we create a sarif log with no runs", () => {
+        const results: RunResults = new RunResultsImpl();
+        const formattedText: string = results.toFormattedOutput(OutputFormat.SARIF);
+        const expectedText: string = getContentsOfExpectedOutputFile('zeroViolations.sarif');
+        expect(formattedText).toEqual(expectedText);
+    });
+
+    it("When results contain multiple violations, we create a sarif log with a run per engine", () => {
+        const formattedText: string = runResults.toFormattedOutput(OutputFormat.SARIF);
+        const expectedText: string = getContentsOfExpectedOutputFile('multipleViolations.sarif');
+        expect(formattedText).toEqual(expectedText);
+    });
+
+    it("When results contain violation of type UnexpectedError, we create a sarif log that includes the UnexpectedError rule", async () => {
+        const resultsWithUnexpectedError: RunResults = await createResultsWithUnexpectedError();
+        const formattedText: string = resultsWithUnexpectedError.toFormattedOutput(OutputFormat.SARIF);
+        const expectedText: string = getContentsOfExpectedOutputFile('unexpectedEngineErrorViolation.sarif');
+        expect(formattedText).toEqual(expectedText);
+    });
+
+    it("When a Standard violation has multiple locations including a file outside of the run directory, then they become related locations with file uris", async () => {
+        const tempFolder: string = fs.mkdtempSync(path.join(os.tmpdir(), 'output-format-test-'));
+        const fileOutsideRunDir: string = path.join(tempFolder, 'someFile.cls');
+        fs.writeFileSync(fileOutsideRunDir, 'public class someFile {}');
+        try {
+            const codeAnalyzer: CodeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.withDefaults());
+            const stubPlugin: stubs.StubEnginePlugin = new stubs.StubEnginePlugin();
+            await codeAnalyzer.addEnginePlugin(stubPlugin);
+            (stubPlugin.getCreatedEngine('stubEngine1') as stubs.StubEngine1).resultsToReturn = {violations: [{
+                ruleName: 'stub1RuleA',
+                message: 'SomeMessage',
+                codeLocations: [{file: 'test/run.test.ts', startLine: 2, startColumn: 1}, {file: fileOutsideRunDir, startLine: 1, startColumn: 8}],
+                primaryLocationIndex: 0
+            }]};
+            const results: RunResults = await codeAnalyzer.run(await codeAnalyzer.selectRules(['stub1RuleA']),
+                {workspace: await codeAnalyzer.createWorkspace(['test', tempFolder])});
+
+            const sarifResult = JSON.parse(results.toFormattedOutput(OutputFormat.SARIF)).runs[0].results[0];
+
+            expect(sarifResult.locations[0].physicalLocation.artifactLocation.uri).toEqual('test/run.test.ts');
+            expect(sarifResult.relatedLocations).toEqual([{physicalLocation: {
+                artifactLocation: {uri: pathToFileURL(fileOutsideRunDir).href},
+                region: {startLine: 1, startColumn: 8}
+            }}]);
+            expect(sarifResult.codeFlows).toBeUndefined();
+        } finally {
+            fs.rmSync(tempFolder, {recursive: true, force: true});
+        }
+    });
+});
+
+describe("Tests for the output of suppressed violations", () => {
+    let resultsWithSuppressions: RunResults;
+    beforeAll(async () => {
+        resultsWithSuppressions = await createResultsWithSuppressedViolations();
+    });
+
+    it("When results have suppressed violations, then the json output lists them with their justifications after the violations", () => {
+        const resultsOutput = JSON.parse(resultsWithSuppressions.toFormattedOutput(OutputFormat.JSON));
+
+        expect(resultsOutput.violationCounts.total).toEqual(1);
+        expect(resultsOutput.violations.map((v: {id: number, line: number}) => [v.id, v.line])).toEqual([[1, 4]]);
+        expect(resultsOutput.suppressedViolations.map((v: {id: number, line: number, justification: string}) =>
+            [v.id, v.line, v.justification])).toEqual([[2, 3, 'Inserting a single record is intended'], [3, 6, '']]);
+        expect(resultsOutput.suppressedViolations[0].fingerprint).toEqual(
+            resultsWithSuppressions.getSuppressedViolations()[0].getViolation().getFingerprint());
+    });
+
+    it("When results have suppressed violations, then the sarif output lists them as results with in source suppressions", () => {
+        const sarifResults = JSON.parse(resultsWithSuppressions.toFormattedOutput(OutputFormat.SARIF)).runs[0].results;
+
+        expect(sarifResults.map((r: {locations: {physicalLocation: {region: {startLine: number}}}[]}) =>
+            r.locations[0].physicalLocation.region.startLine)).toEqual([4, 3, 6]);
+        expect(sarifResults[0].suppressions).toBeUndefined();
+        expect(sarifResults[1].suppressions).toEqual([{kind: 'inSource', justification: 'Inserting a single record is intended'}]);
+        expect(sarifResults[2].suppressions).toEqual([{kind: 'inSource'}]);
+    });
+});
+
+describe("Tests for the output of baselined violations", () => {
+    let resultsWithBaselinedViolation: RunResults;
+    beforeAll(async () => {
+        resultsWithBaselinedViolation = await createResultsWithBaselinedViolation();
+    });
+
+    it("When results have baselined violations, then the json output lists them after the violations", () => {
+        const resultsOutput = JSON.parse(resultsWithBaselinedViolation.toFormattedOutput(OutputFormat.JSON));
+
+        expect(resultsOutput.violations.map((v: {id: number, rule: string}) => [v.id, v.rule])).toEqual([[1, 'stub1RuleC']]);
+        expect(resultsOutput.suppressedViolations).toEqual([]);
+        expect(resultsOutput.baselinedViolations.map((v: {id: number, rule: string}) => [v.id, v.rule])).toEqual([[2, 'stub1RuleA']]);
+    });
+
+    it("When results have baselined violations, then the sarif output lists them as results with external suppressions", () => {
+        const sarifResults = JSON.parse(resultsWithBaselinedViolation.toFormattedOutput(OutputFormat.SARIF)).runs[0].results;
+
+        expect(sarifResults.map((r: {ruleId: string}) => r.ruleId)).toEqual(['stub1RuleC', 'stub1RuleA']);
+        expect(sarifResults[0].suppressions).toBeUndefined();
+        expect(sarifResults[1].suppressions).toEqual([{kind: 'external', justification: 'The violation matches an entry of the baseline.'}]);
+    });
+
+    it("When results have baselined violations, then the html output has their count but does not list them", () => {
+        const formattedText: string = resultsWithBaselinedViolation.toFormattedOutput(OutputFormat.HTML);
+
+        expect(formattedText).toContain('<p>Baselined violations (not listed): 1</p>');
+        expect(formattedText).toContain('stub1RuleC');
+        expect(formattedText).not.toContain('stub1RuleA');
+    });
+});
+
+describe("Tests for code snippets", () => {
+    let tempFolder: string;
+    let sampleFile: string;
+    beforeEach(() => {
+        tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'code-snippets-test-'));
+        sampleFile = path.join(tempFolder, 'SomeClass.cls');
+        fs.writeFileSync(sampleFile, [
+            'public class SomeClass {',
+            '    public void doSomething() {',
+            '        insert new Account();',
+            '    }',
+            '\tpublic void doSomethingElse() {',
+            '\t\tinsert new Account(Name = \'SomeLongName\');',
+            '\t}',
+            '}'].join('\n'));
+    });
+    afterEach(() => {
+        fs.rmSync(tempFolder, {recursive: true, force: true});
+    });
+
+    async function runWithCodeLocations(codeLocations: engApi.CodeLocation[]): Promise<RunResults> {
+        const codeAnalyzer: CodeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.withDefaults());
+        const stubPlugin: stubs.StubEnginePlugin = new stubs.StubEnginePlugin();
+        await codeAnalyzer.addEnginePlugin(stubPlugin);
+        (stubPlugin.getCreatedEngine('stubEngine1') as stubs.StubEngine1).resultsToReturn = {
+            violations: [{ruleName: 'stub1RuleA', message: 'SomeMessage', codeLocations: codeLocations, primaryLocationIndex: 0}]
+        };
+        return codeAnalyzer.run(await codeAnalyzer.selectRules(['stubEngine1']), {workspace: await codeAnalyzer.createWorkspace([tempFolder])});
+    }
+
+    function getCodeSnippets(results: RunResults, options: OutputOptions): {location: string, snippet: string}[] {
+        return JSON.parse(results.toFormattedOutput(OutputFormat.JSON, {includeCodeSnippets: true, ...options})).violations[0].codeSnippets;
+    }
+
+    it("When code snippets are not requested, then violations do not have code snippets", async () => {
+        const results: RunResults = await runWithCodeLocations([{file: sampleFile, startLine: 3, startColumn: 9}]);
+        expect(JSON.parse(results.toFormattedOutput(OutputFormat.JSON)).violations[0].codeSnippets).toBeUndefined();
+    });
+
+    it("When a code location is on a single line, then its snippet has the context lines and marks the flagged columns", async () => {
+        const results: RunResults = await runWithCodeLocations([{file: sampleFile, startLine: 3, startColumn: 9, endLine: 3, endColumn: 29}]);
+
+        expect(getCodeSnippets(results, {})).toEqual([{
+            location: `${sampleFile}:3:9`,
+            snippet: [
+                '  1 | public class SomeClass {',
+                '  2 |     public void doSomething() {',
+                '> 3 |         insert new Account();',
+                '    |         ^^^^^^^^^^^^^^^^^^^^',
+                '  4 |     }',
+                '  5 | \tpublic void doSomethingElse() {'
+            ].join('\n')
+        }]);
+    });
+
+    it("When a code location spans multiple lines, then each of its lines is flagged", async () => {
+        const results: RunResults = await runWithCodeLocations([{file: sampleFile, startLine: 5, startColumn: 9, endLine: 7, endColumn: 3}]);
+
+        expect(getCodeSnippets(results, {codeSnippetContextLines: 0})[0].snippet).toEqual([
+            '> 5 | \tpublic void doSomethingElse() {',
+            '    | \t       ^^^^^^^^^^^^^^^^^^^^^^^^',
+            '> 6 | \t\tinsert new Account(Name = \'SomeLongName\');',
+            '    | \t\t^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^',
+            '> 7 | \t}',
+            '    | \t^'
+        ].join('\n'));
+    });
+
+    it("When a code location does not have an end, then only its start column is marked", async () => {
+        const results: RunResults = await runWithCodeLocations([{file: sampleFile, startLine: 8, startColumn: 1}]);
+
+        expect(getCodeSnippets(results, {codeSnippetContextLines: 1})[0].snippet).toEqual([
+            '  7 | \t}',
+            '> 8 | }',
+            '    | ^'
+        ].join('\n'));
+    });
+
+    it("When a code location ends past the end of its file, then the lines through the end of the file are flagged", async () => {
+        const results: RunResults = await runWithCodeLocations([{file: sampleFile, startLine: 7, startColumn: 2, endLine: 20}]);
+
+        expect(getCodeSnippets(results, {})[0].snippet).toEqual([
+            '  5 | \tpublic void doSomethingElse() {',
+            '  6 | \t\tinsert new Account(Name = \'SomeLongName\');',
+            '> 7 | \t}',
+            '    | \t^',
+            '> 8 | }',
+            '    | ^'
+        ].join('\n'));
+    });
+
+    it("When lines are longer than the max line length, then they are cut off along with their markers", async () => {
+        const results: RunResults = await runWithCodeLocations([{file: sampleFile, startLine: 6, startColumn: 3, endLine: 6, endColumn: 40}]);
+
+        expect(getCodeSnippets(results, {codeSnippetContextLines: 0, codeSnippetMaxLineLength: 12})[0].snippet).toEqual([
+            '> 6 | \t\tinsert new...',
+            '    | \t\t^^^^^^^^^^'
+        ].join('\n'));
+        expect(getCodeSnippets(results, {codeSnippetContextLines: 0, codeSnippetMaxLineLength: 2})[0].snippet).toEqual(
+            '> 6 | \t\t...');
+    });
+
+    it("When a code location can not be read, like a zip archive or a line past the end of its file, then it does not get a code snippet", async () => {
+        const zipFile: string = path.join(tempFolder, 'someArchive.zip');
+        fs.writeFileSync(zipFile, Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x00, 0x0a, 0x00]));
+        const results: RunResults = await runWithCodeLocations([
+            {file: zipFile, startLine: 1, startColumn: 1},
+            {file: sampleFile, startLine: 20, startColumn: 1},
+            {file: sampleFile, startLine: 2, startColumn: 5, endLine: 2, endColumn: 11}
+        ]);
+
+        expect(getCodeSnippets(results, {codeSnippetContextLines: 0})).toEqual([{
+            location: `${sampleFile}:2:5`,
+            snippet: '> 2 |     public void doSomething() {\n    |     ^^^^^^'
+        }]);
+    });
+
+    it("When code snippets are requested for the xml and html formats, then the snippets are included", async () => {
+        const results: RunResults = await runWithCodeLocations([{file: sampleFile, startLine: 3, startColumn: 9}]);
+        const options: OutputOptions = {includeCodeSnippets: true, codeSnippetContextLines: 0};
+
+        expect(results.toFormattedOutput(OutputFormat.XML, options)).toContain(
+            `<codeSnippet location="${sampleFile}:3:9">&gt; 3 |         insert new Account();\n    |         ^</codeSnippet>`);
+        expect(results.toFormattedOutput(OutputFormat.HTML, options)).toContain(
+            `<pre class="code-snippet" title="${sampleFile}:3:9">&gt; 3 |         insert new Account();\n    |         ^</pre>`);
+    });
+});
+
+describe("Tests for writing results to files", () => {
+    let tempFolder: string;
+    beforeEach(() => {
+        tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'output-format-test-'));
+    });
+    afterEach(() => {
+        fs.rmSync(tempFolder, {recursive: true, force: true});
+    });
+
+    it.each([
+        {fileName: 'results.csv', expectedFormat: OutputFormat.CSV},
+        {fileName: 'results.html', expectedFormat: OutputFormat.HTML},
+        {fileName: 'results.HTM', expectedFormat: OutputFormat.HTML},
+        {fileName: 'results.json', expectedFormat: OutputFormat.JSON},
+        {fileName: 'results.junit.xml', expectedFormat: OutputFormat.JUNIT},
+        {fileName: 'results.JUnit.XML', expectedFormat: OutputFormat.JUNIT},
+        {fileName: 'results.md', expectedFormat: OutputFormat.MARKDOWN},
+        {fileName: 'results.sarif', expectedFormat: OutputFormat.SARIF},
+        {fileName: 'results.xml', expectedFormat: OutputFormat.XML}
+    ])("When writing to a file with a supported extension, then the format is inferred from the extension. File: $fileName", ({fileName, expectedFormat}) => {
+        const outputFile: string = path.join(tempFolder, 'some', 'nonexistent', 'folder', fileName);
+
+        runResults.writeToFile(outputFile);
+
+        expect(fs.readFileSync(outputFile, 'utf8')).toEqual(runResults.toFormattedOutput(expectedFormat));
+    });
+
+    it("When writing empty results to a json or csv file, then the output is the same as the formatted output", () => {
+        const results: RunResults = new RunResultsImpl();
+        results.writeToFiles([path.join(tempFolder, 'results.json'), path.join(tempFolder, 'results.csv')]);
+
+        expect(fs.readFileSync(path.join(tempFolder, 'results.json'), 'utf8')).toEqual(getContentsOfExpectedOutputFile('zeroViolations.json', true));
+        expect(fs.readFileSync(path.join(tempFolder, 'results.csv'), 'utf8')).toEqual(getContentsOfExpectedOutputFile('zeroViolations.csv'));
+    });
+
+    it.each([
+        {fileName: 'multipleViolations.csv', format: OutputFormat.CSV},
+        {fileName: 'multipleViolations.html', format: OutputFormat.HTML},
+        {fileName: 'multipleViolations.json', format: OutputFormat.JSON},
+        {fileName: 'multipleViolations.junit.xml', format: OutputFormat.JUNIT},
+        {fileName: 'multipleViolations.md', format: OutputFormat.MARKDOWN},
+        {fileName: 'multipleViolations.sarif', format: OutputFormat.SARIF},
+        {fileName: 'multipleViolations.xml', format: OutputFormat.XML}
+    ])("When writing results with violations to a file, then the output is written in multiple chunks that make up the expected output. Format: $format", ({fileName, format}) => {
+        const formatter: OutputFormatter = OutputFormatter.forFormat(format);
+        const outputFile: string = path.join(tempFolder, fileName);
+
+        runResults.writeToFile(outputFile);
+
+        const expectedText: string = getContentsOfExpectedOutputFile(fileName, format == OutputFormat.JSON);
+        expect([...formatter.formatInChunks!(runResults)].length).toBeGreaterThan(1);
+        expect(fs.readFileSync(outputFile, 'utf8')).toEqual(expectedText);
+    });
+
+    it.each([
+        {fileName: 'zeroViolations.html', format: OutputFormat.HTML},
+        {fileName: 'zeroViolations.junit.xml', format: OutputFormat.JUNIT},
+        {fileName: 'zeroViolations.md', format: OutputFormat.MARKDOWN},
+        {fileName: 'zeroViolations.sarif', format: OutputFormat.SARIF},
+        {fileName: 'zeroViolations.xml', format: OutputFormat.XML}
+    ])("When writing empty results to a file, then the output is the same as the expected output. Format: $format", ({fileName, format}) => {
+        const outputFile: string = path.join(tempFolder, fileName);
+
+        new RunResultsImpl().writeToFile(outputFile, format);
+
+        expect(fs.readFileSync(outputFile, 'utf8')).toEqual(getContentsOfExpectedOutputFile(fileName));
+    });
+
+    it("When writing to a file with an explicit format, then that format is used regardless of the extension", () => {
+        const outputFile: string = path.join(tempFolder, 'results.xml');
+
+        runResults.writeToFile(outputFile, OutputFormat.JUNIT);
+
+        expect(fs.readFileSync(outputFile, 'utf8')).toEqual(getContentsOfExpectedOutputFile('multipleViolations.junit.xml'));
+    });
+
+    it("When writing to a file with a registered formatter that only provides format, then its output is written", () => {
+        OutputFormatter.register('SomeWholeOutputFormat', {format: () => 'someWholeOutput'});
+        const outputFile: string = path.join(tempFolder, 'results.txt');
+
+        runResults.writeToFile(outputFile, 'SomeWholeOutputFormat');
+
+        expect(fs.readFileSync(outputFile, 'utf8')).toEqual('someWholeOutput');
+    });
+
+    it("When writing to multiple files, then each file is written in the format of its extension", () => {
+        const outputFiles: string[] = ['results.json', 'results.sarif', 'results.csv'].map(f => path.join(tempFolder, f));
+
+        runResults.writeToFiles(outputFiles);
+
+        expect(fs.readFileSync(outputFiles[0], 'utf8')).toEqual(getContentsOfExpectedOutputFile('multipleViolations.json', true));
+        expect(fs.readFileSync(outputFiles[1], 'utf8')).toEqual(getContentsOfExpectedOutputFile('multipleViolations.sarif'));
+        expect(fs.readFileSync(outputFiles[2], 'utf8')).toEqual(getContentsOfExpectedOutputFile('multipleViolations.csv'));
+    });
+
+    it("When writing to multiple files where one has an unsupported extension, then we error without writing any files", () => {
+        const outputFiles: string[] = ['results.json', 'results.txt'].map(f => path.join(tempFolder, f));
+
+        expect(() => runResults.writeToFiles(outputFiles)).toThrow(getMessage('OutputFileExtensionUnsupported',
+            outputFiles[1], '.csv, .htm, .html, .json, .junit.xml, .md, .sarif, .xml'));
+        expect(fs.readdirSync(tempFolder)).toEqual([]);
+    });
+});
+
+describe("Tests for reading results back from the JSON output format", () => {
+    it.each([
+        OutputFormat.CSV,
+        OutputFormat.HTML,
+        OutputFormat.JSON,
+        OutputFormat.JUNIT,
+        OutputFormat.MARKDOWN,
+        OutputFormat.SARIF,
+        OutputFormat.XML
+    ])("When JSON output is read back, then it produces the same %s output as the original results", (format: OutputFormat) => {
+        const readResults: RunResults = JsonResultsReader.readFromJsonString(runResults.toFormattedOutput(OutputFormat.JSON));
+        expect(readResults.toFormattedOutput(format)).toEqual(runResults.toFormattedOutput(format));
+    });
+
+    it.each([
+        {jsonFile: 'multipleViolations.json', csvFile: 'multipleViolations.csv'},
+        {jsonFile: 'unexpectedEngineErrorViolation.json', csvFile: 'unexpectedEngineErrorViolation.csv'},
+        {jsonFile: 'zeroViolations.json', csvFile: 'zeroViolations.csv'}
+    ])("When saved JSON output is read back, then it can be converted to another format offline. File: $jsonFile", ({jsonFile, csvFile}) => {
+        const readResults: RunResults = JsonResultsReader.readFromJsonString(getContentsOfExpectedOutputFile(jsonFile, true));
+        expect(readResults.toFormattedOutput(OutputFormat.CSV)).toEqual(getContentsOfExpectedOutputFile(csvFile));
+    });
+
+    it("When JSON output is read back, then the engines, rules, violations, and code locations are reconstructed", () => {
+        const readResults: RunResults = JsonResultsReader.readFromJsonString(runResults.toFormattedOutput(OutputFormat.JSON));
+
+        expect(readResults.getRunDirectory()).toEqual(runResults.getRunDirectory());
+        expect(readResults.getEngineNames()).toEqual(['stubEngine1', 'stubEngine2']);
+        expect(readResults.getViolationCount()).toEqual(4);
+        expect(readResults.getViolationCountOfSeverity(SeverityLevel.Moderate)).toEqual(2);
+        expect(readResults.getEngineRunResults('stubEngine1').getViolationCountOfSeverity(SeverityLevel.Low)).toEqual(1);
+        expect(readResults.getBaselinedViolations()).toEqual([]);
+        expect(readResults.getSuppressedViolations()).toEqual([]);
+        expect(readResults.getRuleSelection().getRulesFor('stubEngine1').map(r => r.getName())).toEqual(
+            ['stub1RuleA', 'stub1RuleB', 'stub1RuleC', 'stub1RuleD', 'stub1RuleE']);
+        expect(readResults.getRuleSelection().getRule('stubEngine1', 'stub1RuleB').getDescription()).toEqual('Some description for stub1RuleB');
+        expect(readResults.getRuleSelection().getRule('stubEngine1', 'stub1RuleE').getResourceUrls()).toEqual(
+            runResults.getRuleSelection().getRule('stubEngine1', 'stub1RuleE').getResourceUrls());
+
+        const readViolations: Violation[] = readResults.getViolations();
+        const originalViolations: Violation[] = runResults.getViolations();
+        for (let i = 0; i < originalViolations.length; i++) {
+            expect(readViolations[i].getFingerprint()).toEqual(originalViolations[i].getFingerprint());
+            expect(readViolations[i].getMessage()).toEqual(originalViolations[i].getMessage());
+            expect(readViolations[i].getRule().getSeverityLevel()).toEqual(originalViolations[i].getRule().getSeverityLevel());
+            expect(readViolations[i].getRule().getTags()).toEqual(originalViolations[i].getRule().getTags());
+            expect(readViolations[i].getPrimaryLocationIndex()).toEqual(originalViolations[i].getPrimaryLocationIndex());
+            expect(readViolations[i].getCodeLocations().map(toLocationValues)).toEqual(originalViolations[i].getCodeLocations().map(toLocationValues));
+        }
+    });
+
+    it("When JSON output with an unexpected engine error is read back, then the rule of the error is not among the selected rules", async () => {
+        const resultsWithUnexpectedError: RunResults = await createResultsWithUnexpectedError();
+        const readResults: RunResults = JsonResultsReader.readFromJsonString(resultsWithUnexpectedError.toFormattedOutput(OutputFormat.JSON));
+
+        expect(readResults.getViolations().map(v => v.getRule().getName())).toEqual(['UnexpectedEngineError']);
+        expect(readResults.getRuleSelection().getRulesFor('throwingEngine').map(r => r.getName())).toEqual(
+            resultsWithUnexpectedError.getRuleSelection().getRulesFor('throwingEngine').map(r => r.getName()));
+    });
+
+    it("When JSON output without a rules section is read back, then the rules are derived from the violations without their descriptions", () => {
+        const resultsOutput = JSON.parse(runResults.toFormattedOutput(OutputFormat.JSON));
+        delete resultsOutput.rules;
+
+        const readResults: RunResults = JsonResultsReader.readFromJsonString(JSON.stringify(resultsOutput));
+
+        expect(readResults.getEngineNames()).toEqual(['stubEngine1', 'stubEngine2']);
+        expect(readResults.getRuleSelection().getRulesFor('stubEngine1').map(r => r.getName())).toEqual(['stub1RuleA', 'stub1RuleC', 'stub1RuleE']);
+        expect(readResults.getRuleSelection().getRule('stubEngine1', 'stub1RuleA').getDescription()).toEqual('');
+        expect(readResults.getRuleSelection().getRule('stubEngine1', 'stub1RuleE').getResourceUrls()).toEqual(
+            ['https://example.com/stub1RuleE', 'https://example.com/stub1RuleE_2']);
+    });
+
+    it("When JSON output with suppressed violations is read back, then the suppressed violations keep their justifications", async () => {
+        const resultsWithSuppressions: RunResults = await createResultsWithSuppressedViolations();
+        const jsonOutput: string = resultsWithSuppressions.toFormattedOutput(OutputFormat.JSON);
+
+        const readResults: RunResults = JsonResultsReader.readFromJsonString(jsonOutput);
+
+        expect(readResults.getSuppressedViolations().map(sv => [sv.getViolation().getFingerprint(), sv.getJustification()])).toEqual(
+            resultsWithSuppressions.getSuppressedViolations().map(sv => [sv.getViolation().getFingerprint(), sv.getJustification()]));
+        expect(readResults.toFormattedOutput(OutputFormat.JSON)).toEqual(jsonOutput);
+        expect(readResults.toFormattedOutput(OutputFormat.SARIF)).toEqual(resultsWithSuppressions.toFormattedOutput(OutputFormat.SARIF));
+    });
+
+    it("When JSON output with baselined violations is read back, then the baselined violations are kept apart from the violations", async () => {
+        const resultsWithBaselinedViolation: RunResults = await createResultsWithBaselinedViolation();
+        const jsonOutput: string = resultsWithBaselinedViolation.toFormattedOutput(OutputFormat.JSON);
+
+        const readResults: RunResults = JsonResultsReader.readFromJsonString(jsonOutput);
+
+        expect(readResults.getViolationCount()).toEqual(1);
+        expect(readResults.getBaselinedViolations().map(v => v.getFingerprint())).toEqual(
+            resultsWithBaselinedViolation.getBaselinedViolations().map(v => v.getFingerprint()));
+        expect(readResults.toFormattedOutput(OutputFormat.JSON)).toEqual(jsonOutput);
+        expect(readResults.toFormattedOutput(OutputFormat.HTML)).toEqual(resultsWithBaselinedViolation.toFormattedOutput(OutputFormat.HTML));
+    });
+
+    it("When JSON output is written to a file and read back, then the same results are returned", () => {
+        const tempFolder: string = fs.mkdtempSync(path.join(os.tmpdir(), 'json-results-reader-test-'));
+        try {
+            const jsonFile: string = path.join(tempFolder, 'results.json');
+            runResults.writeToFile(jsonFile);
+
+            expect(JsonResultsReader.readFromFile(jsonFile).toFormattedOutput(OutputFormat.JSON)).toEqual(fs.readFileSync(jsonFile, 'utf8'));
+        } finally {
+            fs.rmSync(tempFolder, {recursive: true, force: true});
+        }
+    });
+
+    it("When JSON output without a version is read back, then it is read as the first version", () => {
+        const resultsOutput = JSON.parse(runResults.toFormattedOutput(OutputFormat.JSON));
+        delete resultsOutput.version;
+
+        expect(JsonResultsReader.readFromJsonString(JSON.stringify(resultsOutput)).getViolationCount()).toEqual(4);
+    });
+
+    it("When JSON output without fingerprints is read back, then the fingerprints are generated the same way as for the original results", () => {
+        const resultsOutput = JSON.parse(runResults.toFormattedOutput(OutputFormat.JSON));
+        resultsOutput.violations.forEach((v: {fingerprint?: string}) => delete v.fingerprint);
+
+        const readResults: RunResults = JsonResultsReader.readFromJsonString(JSON.stringify(resultsOutput));
+
+        expect(readResults.getViolations().map(v => v.getFingerprint())).toEqual(runResults.getViolations().map(v => v.getFingerprint()));
+    });
+
+    it("When JSON output has violations that would have the same fingerprint, then the generated fingerprints are still unique", () => {
+        const violationOutput = {...JSON.parse(runResults.toFormattedOutput(OutputFormat.JSON)).violations[0], fingerprint: undefined};
+        const resultsOutput = {runDir: runResults.getRunDirectory(), violations: [violationOutput, violationOutput]};
+
+        const readViolations: Violation[] = JsonResultsReader.readFromJsonString(JSON.stringify(resultsOutput)).getViolations();
+
+        expect(readViolations[0].getFingerprint()).toEqual(runResults.getViolations()[0].getFingerprint());
+        expect(readViolations[1].getFingerprint()).not.toEqual(readViolations[0].getFingerprint());
+    });
+
+    it("When JSON output has an unsupported version, then we error", () => {
+        const resultsOutput = {...JSON.parse(runResults.toFormattedOutput(OutputFormat.JSON)), version: '2.0'};
+
+        expect(() => JsonResultsReader.readFromJsonString(JSON.stringify(resultsOutput))).toThrow(
+            getMessage('JsonOutputVersionUnsupported', '2.0', '1.1'));
+    });
+
+    it("When reading a JSON output file that does not exist, then we error", () => {
+        const nonExistingFile: string = path.resolve('doesNotExist.json');
+        expect(() => JsonResultsReader.readFromFile(nonExistingFile)).toThrow(getMessage('JsonOutputFileDoesNotExist', nonExistingFile));
+    });
+
+    it.each([
+        {field: 'rules', value: [null]},
+        {field: 'rules', value: [{rule: 'stub1RuleA', engine: 'stubEngine1', severity: 4, type: 'Standard', tags: [], resources: []}]},
+        {field: 'suppressedViolations', value: 'notAnArray'},
+        {field: 'baselinedViolations', value: [{}]}
+    ])("When JSON output has an invalid $field section, then we error", ({field, value}) => {
+        const resultsOutput = {...JSON.parse(runResults.toFormattedOutput(OutputFormat.JSON)), [field]: value};
+
+        expect(() => JsonResultsReader.readFromJsonString(JSON.stringify(resultsOutput))).toThrow(getMessage('JsonOutputInvalid'));
+    });
+
+    it("When JSON output has a version that is not a string, then we error", () => {
+        expect(() => JsonResultsReader.readFromJsonString('{"version": 1, "runDir": "/some/dir", "violations": []}')).toThrow(
+            getMessage('JsonOutputInvalid'));
+    });
+});
+
 describe("Other misc output formatting tests", () => {
     it("When an output format is not supported, then we error", () => {
         // This test is just a sanity check in case we add in an output format in the future without updating the
@@ -105,8 +717,57 @@ describe("Other misc output formatting tests", () => {
             expect(output.length).toBeGreaterThan(0);
         }
     });
+
+    it("When all built-in formats are checked, then they are all registered", () => {
+        expect(OutputFormatter.getRegisteredFormats()).toEqual(expect.arrayContaining(Object.values(OutputFormat)));
+    });
+
+    it("When a custom formatter is registered, then results can be formatted using its format name", () => {
+        OutputFormatter.register('SomeCustomFormat', {
+            format: (results: RunResults) => `Violation count: ${results.getViolationCount()}`
+        });
+
+        expect(runResults.toFormattedOutput('SomeCustomFormat')).toEqual('Violation count: 4');
+        expect(OutputFormatter.getRegisteredFormats()).toContain('SomeCustomFormat');
+    });
+
+    it("When an output format is not registered, then the error lists the registered formats", () => {
+        expect(() => OutputFormatter.forFormat('SomeUnregisteredFormat')).toThrow(getMessage('UnsupportedOutputFormat', 'output',
+            'SomeUnregisteredFormat', 'output', OutputFormatter.getRegisteredFormats().join(', ')));
+    });
+
+    it("When registering a different formatter with a format name that is already registered, then we error", () => {
+        const formatter: OutputFormatter = {format: () => 'someOutput'};
+        OutputFormatter.register('SomeOtherCustomFormat', formatter);
+
+        expect(() => OutputFormatter.register('SomeOtherCustomFormat', {format: () => 'someOtherOutput'})).toThrow(
+            getMessage('DuplicateOutputFormat', 'output', 'SomeOtherCustomFormat'));
+        expect(() => OutputFormatter.register(OutputFormat.JSON, formatter)).toThrow(getMessage('DuplicateOutputFormat', 'output', 'JSON'));
+    });
+
+    it("When registering the same formatter again, then nothing changes", () => {
+        const formatter: OutputFormatter = {format: () => 'someOutput'};
+        OutputFormatter.register('SomeRepeatedCustomFormat', formatter);
+        OutputFormatter.register('SomeRepeatedCustomFormat', formatter);
+
+        expect(OutputFormatter.forFormat('SomeRepeatedCustomFormat')).toBe(formatter);
+        expect(OutputFormatter.getRegisteredFormats().filter(f => f == 'SomeRepeatedCustomFormat')).toHaveLength(1);
+    });
+
+    it("When a formatter is unregistered, then another formatter can be registered with its format name", () => {
+        OutputFormatter.register('SomeReplacedCustomFormat', {format: () => 'someOutput'});
+
+        expect(OutputFormatter.unregister('SomeReplacedCustomFormat')).toEqual(true);
+        expect(OutputFormatter.unregister('SomeReplacedCustomFormat')).toEqual(false);
+        OutputFormatter.register('SomeReplacedCustomFormat', {format: () => 'someReplacedOutput'});
+        expect(runResults.toFormattedOutput('SomeReplacedCustomFormat')).toEqual('someReplacedOutput');
+    });
 });
 
+function toLocationValues(codeLocation: CodeLocation): (string | number | undefined)[] {
+    return [codeLocation.getFile(), codeLocation.getStartLine(), codeLocation.getStartColumn(), codeLocation.getEndLine(), codeLocation.getEndColumn()];
+}
+
 function getContentsOfExpectedOutputFile(expectedOutputFileName: string, escapeBackslashes: boolean = false): string {
     const contents: string = fs.readFileSync(path.resolve('test','test-data','expectedOutputFiles',expectedOutputFileName), 'utf-8');
     let pathSepVar: string = path.sep;
@@ -120,6 +781,46 @@ function getContentsOfExpectedOutputFile(expectedOutputFileName: string, escapeB
         .replaceAll('\r',''); // fix for windows
 }
 
+async function createResultsWithStub1RuleAViolationMessages(messages: string[]): Promise<RunResults> {
+    const codeAnalyzer: CodeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.withDefaults());
+    const stubPlugin: stubs.StubEnginePlugin = new stubs.StubEnginePlugin();
+    await codeAnalyzer.addEnginePlugin(stubPlugin);
+    (stubPlugin.getCreatedEngine('stubEngine1') as stubs.StubEngine1).resultsToReturn = {
+        violations: messages.map(message => ({...stubs.getSampleViolationForStub1RuleA(), message: message}))
+    };
+    return codeAnalyzer.run(await codeAnalyzer.selectRules(['stubEngine1']), {workspace: await codeAnalyzer.createWorkspace(['test'])});
+}
+
+async function createResultsWithSuppressedViolations(): Promise<RunResults> {
+    const sampleSuppressionsFolder: string = path.resolve('test', 'test-data', 'sampleSuppressions');
+    const codeAnalyzer: CodeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.withDefaults());
+    const stubPlugin: stubs.StubEnginePlugin = new stubs.StubEnginePlugin();
+    await codeAnalyzer.addEnginePlugin(stubPlugin);
+    (stubPlugin.getCreatedEngine('stubEngine1') as stubs.StubEngine1).resultsToReturn = {
+        violations: [3, 4, 6].map(line => ({
+            ruleName: 'stub1RuleA',
+            message: 'SomeMessage',
+            codeLocations: [{file: path.join(sampleSuppressionsFolder, 'SomeClass.cls'), startLine: line, startColumn: 1}],
+            primaryLocationIndex: 0
+        }))
+    };
+    return codeAnalyzer.run(await codeAnalyzer.selectRules(['stub1RuleA']), {workspace: await codeAnalyzer.createWorkspace([sampleSuppressionsFolder])});
+}
+
+async function createResultsWithBaselinedViolation(): Promise<RunResults> {
+    const codeAnalyzer: CodeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.withDefaults());
+    const stubPlugin: stubs.StubEnginePlugin = new stubs.StubEnginePlugin();
+    await codeAnalyzer.addEnginePlugin(stubPlugin);
+    const stubEngine1: stubs.StubEngine1 = stubPlugin.getCreatedEngine('stubEngine1') as stubs.StubEngine1;
+    const selection: RuleSelection = await codeAnalyzer.selectRules(['stubEngine1']);
+    const workspace: Workspace = await codeAnalyzer.createWorkspace(['test']);
+    stubEngine1.resultsToReturn = {violations: [stubs.getSampleViolationForStub1RuleA()]};
+    const baseline: Baseline = Baseline.fromRunResults(await codeAnalyzer.run(selection, {workspace: workspace}));
+
+    stubEngine1.resultsToReturn = {violations: [stubs.getSampleViolationForStub1RuleA(), stubs.getSampleViolationForStub1RuleC()]};
+    return codeAnalyzer.run(selection, {workspace: workspace, baseline: baseline});
+}
+
 async function createResultsWithUnexpectedError(): Promise<RunResults> {
     const codeAnalyzer: CodeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.withDefaults());
     await codeAnalyzer.addEnginePlugin(new stubs.ThrowingEnginePlugin());
@@ -0,0 +1,148 @@
+import {
+    Baseline,
+    CodeAnalyzer,
+    CodeAnalyzerConfig,
+    JsonResultsReader,
+    OutputFormat,
+    RunResults,
+    RunResultsMerger,
+    RuleAttribute,
+    SeverityLevel,
+    Violation
+} from "../src";
+import * as stubs from "./stubs";
+import {changeWorkingDirectoryToPackageRoot, createViolation} from "./test-helpers";
+import * as engApi from "@salesforce/code-analyzer-engine-api";
+import path from "node:path";
+
+changeWorkingDirectoryToPackageRoot();
+
+describe("Tests for merging run results", () => {
+    const sampleSuppressionsFolder: string = path.resolve('test', 'test-data', 'sampleSuppressions');
+    const sampleClassFile: string = path.join(sampleSuppressionsFolder, 'SomeClass.cls');
+    let codeAnalyzer: CodeAnalyzer;
+    let stubEngine1: stubs.StubEngine1;
+    let stubEngine2: stubs.StubEngine2;
+
+    beforeEach(async () => {
+        codeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.withDefaults());
+        const stubPlugin: stubs.StubEnginePlugin = new stubs.StubEnginePlugin();
+        await codeAnalyzer.addEnginePlugin(stubPlugin);
+        stubEngine1 = stubPlugin.getCreatedEngine('stubEngine1') as stubs.StubEngine1;
+        stubEngine2 = stubPlugin.getCreatedEngine('stubEngine2') as stubs.StubEngine2;
+    });
+
+    async function runWithViolations(selectors: string[], violations1: engApi.Violation[], violations2: engApi.Violation[] = [], baseline?: Baseline): Promise<RunResults> {
+        stubEngine1.resultsToReturn = {violations: violations1};
+        stubEngine2.resultsToReturn = {violations: violations2};
+        return codeAnalyzer.run(await codeAnalyzer.selectRules(selectors),
+            {workspace: await codeAnalyzer.createWorkspace([sampleSuppressionsFolder]), baseline: baseline});
+    }
+
+    function toRuleAndLine(violation: Violation): string {
+        return `${violation.getRule().getName()}:${violation.getCodeLocations()[violation.getPrimaryLocationIndex()].getStartLine()}`;
+    }
+
+    it("When merging results from runs of different engines, then the engines, rules, and counts are combined", async () => {
+        const results1: RunResults = await runWithViolations(['stubEngine1'], [createViolation('stub1RuleA', sampleClassFile, 4), createViolation('stub1RuleE', sampleClassFile, 4)]);
+        const results2: RunResults = await runWithViolations(['stubEngine2'], [], [createViolation('stub2RuleA', sampleClassFile, 4)]);
+
+        const mergedResults: RunResults = RunResultsMerger.merge([results1, results2]);
+
+        expect(mergedResults.getEngineNames()).toEqual(['stubEngine1', 'stubEngine2']);
+        expect(mergedResults.getRuleSelection().getEngineNames()).toEqual(['stubEngine1', 'stubEngine2']);
+        expect(mergedResults.getRuleSelection().getCount()).toEqual(
+            results1.getRuleSelection().getCount() + results2.getRuleSelection().getCount());
+        expect(mergedResults.getViolations().map(toRuleAndLine)).toEqual(['stub1RuleA:4', 'stub1RuleE:4', 'stub2RuleA:4']);
+        expect(mergedResults.getViolationCount()).toEqual(3);
+        expect(mergedResults.getViolationCountOfSeverity(SeverityLevel.Moderate)).toEqual(2);
+        expect(mergedResults.getEngineRunResults('stubEngine1').getViolationCountOfSeverity(SeverityLevel.Low)).toEqual(1);
+        expect(mergedResults.getRunDirectory()).toEqual(results1.getRunDirectory());
+        expect(mergedResults.getRuleSelection().getSelectionReasons('stubEngine2', 'stub2RuleA')).toEqual([
+            {selector: 'stubEngine2', matchedAttributes: [{attribute: RuleAttribute.Engine, value: 'stubEngine2'}]}]);
+    });
+
+    it("When merging results that share an engine, then the violations of the engine are combined and identical violations are only kept once", async () => {
+        const results1: RunResults = await runWithViolations(['stubEngine1'], [createViolation('stub1RuleA', sampleClassFile, 4), createViolation('stub1RuleB', sampleClassFile, 4)]);
+        const results2: RunResults = await runWithViolations(['stubEngine1'], [createViolation('stub1RuleB', sampleClassFile, 4), createViolation('stub1RuleA', sampleClassFile, 12)]);
+
+        const mergedResults: RunResults = RunResultsMerger.merge([results1, results2]);
+
+        expect(mergedResults.getEngineNames()).toEqual(['stubEngine1']);
+        expect(mergedResults.getRuleSelection().getCount()).toEqual(results1.getRuleSelection().getCount());
+        expect(mergedResults.getViolations().map(toRuleAndLine)).toEqual(['stub1RuleA:4', 'stub1RuleB:4', 'stub1RuleA:12']);
+        expect(mergedResults.getViolationCount()).toEqual(3);
+        expect(mergedResults.getViolationCountOfSeverity(SeverityLevel.High)).toEqual(1);
+    });
+
+    it("When merging results that have suppressed and baselined violations, then those are combined and de-duplicated as well", async () => {
+        const baseline: Baseline = Baseline.fromRunResults(await runWithViolations(['stubEngine1'], [createViolation('stub1RuleB', sampleClassFile, 4)]));
+        const results1: RunResults = await runWithViolations(['stubEngine1'], [createViolation('stub1RuleA', sampleClassFile, 3), createViolation('stub1RuleB', sampleClassFile, 4)], [], baseline);
+        const results2: RunResults = await runWithViolations(['stubEngine1'], [createViolation('stub1RuleA', sampleClassFile, 3), createViolation('stub1RuleA', sampleClassFile, 6)], [], baseline);
+
+        const mergedResults: RunResults = RunResultsMerger.merge([results1, results2]);
+
+        expect(mergedResults.getViolations()).toEqual([]);
+        expect(mergedResults.getBaselinedViolations().map(toRuleAndLine)).toEqual(['stub1RuleB:4']);
+        expect(mergedResults.getSuppressedViolations().map(s => `${toRuleAndLine(s.getViolation())}:${s.getJustification()}`)).toEqual([
+            'stub1RuleA:3:Inserting a single record is intended', 'stub1RuleA:6:']);
+    });
+
+    it("When merging results from different run directories, then the files are moved underneath the run directory of the merged results", async () => {
+        const results1: RunResults = await runWithViolations(['stubEngine1'], [createViolation('stub1RuleA', sampleClassFile, 4)]);
+        const otherRunDir: string = path.resolve('some', 'other', 'agent') + path.sep;
+        const results2: RunResults = JsonResultsReader.readFromJsonString(JSON.stringify({
+            ...JSON.parse(results1.toFormattedOutput(OutputFormat.JSON)), runDir: otherRunDir}));
+        expect(results2.getViolations()[0].getCodeLocations()[0].getFile()).toEqual(
+            path.join(otherRunDir, 'test', 'test-data', 'sampleSuppressions', 'SomeClass.cls'));
+
+        const mergedResults: RunResults = RunResultsMerger.merge([results1, results2]);
+
+        expect(mergedResults.getViolations()).toHaveLength(1);
+        const mergedFromOtherRunDir: RunResults = RunResultsMerger.merge([results2, results1]);
+        expect(mergedFromOtherRunDir.getRunDirectory()).toEqual(otherRunDir);
+        expect(mergedFromOtherRunDir.getViolations()).toHaveLength(1);
+        expect(mergedFromOtherRunDir.toFormattedOutput(OutputFormat.JSON)).toEqual(results2.toFormattedOutput(OutputFormat.JSON));
+    });
+
+    it("When merging into a provided run directory, then the files of all of the results are moved underneath it", async () => {
+        const results1: RunResults = await runWithViolations(['stubEngine1', 'stubEngine2'], [createViolation('stub1RuleA', sampleClassFile, 4)], [{
+            ruleName: 'stub2RuleC',
+            message: 'SomeMessage',
+            codeLocations: [{file: 'test/stubs.ts', startLine: 4, startColumn: 13}, {file: path.resolve('..', '..', 'package.json'), startLine: 1, startColumn: 1}],
+            primaryLocationIndex: 0
+        }]);
+        stubEngine1.runRules = () => { throw new Error('SomeErrorMessage'); };
+        const results2: RunResults = await runWithViolations(['stubEngine1'], []);
+        const mergedRunDir: string = path.resolve('some', 'merged', 'folder');
+
+        const mergedResults: RunResults = RunResultsMerger.merge([results1, results2], mergedRunDir);
+
+        expect(mergedResults.getRunDirectory()).toEqual(mergedRunDir + path.sep);
+        expect(mergedResults.getViolations().map(v => v.getCodeLocations().map(l => l.getFile()))).toEqual([
+            [path.join(mergedRunDir, 'test', 'test-data', 'sampleSuppressions', 'SomeClass.cls')],
+            [undefined],
+            [path.join(mergedRunDir, 'test', 'stubs.ts'), path.resolve('..', '..', 'package.json')]
+        ]);
+        const mergedViolation: Violation = mergedResults.getViolations()[2];
+        const originalViolation: Violation = results1.getViolations()[1];
+        expect(mergedViolation.getFingerprint()).toEqual(originalViolation.getFingerprint());
+        expect(mergedViolation.getRule()).toEqual(originalViolation.getRule());
+        expect(mergedViolation.getMessage()).toEqual(originalViolation.getMessage());
+        expect(mergedViolation.getResourceUrls()).toEqual(originalViolation.getResourceUrls());
+        expect(mergedViolation.getPrimaryLocationIndex()).toEqual(0);
+        expect(mergedViolation.getCodeLocations()[0].getStartLine()).toEqual(4);
+        expect(mergedViolation.getCodeLocations()[0].getStartColumn()).toEqual(13);
+        expect(mergedViolation.getCodeLocations()[0].getEndLine()).toBeUndefined();
+        expect(mergedViolation.getCodeLocations()[0].getEndColumn()).toBeUndefined();
+        expect(mergedResults.getViolationCountOfSeverity(SeverityLevel.Critical)).toEqual(1);
+    });
+
+    it("When merging no results, then the merged results are empty", () => {
+        const mergedResults: RunResults = RunResultsMerger.merge([]);
+
+        expect(mergedResults.getViolationCount()).toEqual(0);
+        expect(mergedResults.getEngineNames()).toEqual([]);
+        expect(mergedResults.getRunDirectory()).toEqual(process.cwd() + path.sep);
+    });
+});
@@ -1,15 +1,25 @@
 import {
     CodeAnalyzer,
     CodeAnalyzerConfig,
+    EventType,
+    LogEvent,
+    LogLevel,
     Rule,
+    RuleAttribute,
     RuleSelection,
+    RuleSelectionOutputFormat,
+    RuleSelectionOutputFormatter,
+    RuleSelectionReason,
     RuleType,
     SelectOptions,
     SeverityLevel
 } from "../src";
 import {DescribeOptions, SeverityLevel as EngApi_SeverityLevel} from "@salesforce/code-analyzer-engine-api"
 import {RepeatedRuleNameEnginePlugin, StubEnginePlugin} from "./stubs";
+import fs from "node:fs";
+import os from "node:os";
 import path from "node:path";
+import * as yaml from "js-yaml";
 import {changeWorkingDirectoryToPackageRoot, FixedUniqueIdGenerator} from "./test-helpers";
 import {getMessage} from "../src/messages";
 import * as stubs from "./stubs";
@@ -143,7 +153,7 @@ describe('Tests for selecting rules', () => {
         expect(ruleNamesFor(selection, 'stubEngine2')).toEqual(['stub2RuleA', 'stub2RuleB', 'stub2RuleC']);
 
         // Sanity check against duplicates
-        expect(await codeAnalyzer.selectRules(['all', 'Performance', 'DoesNotExist'])).toEqual(await codeAnalyzer.selectRules(['all']));
+        expect(rulesOf(await codeAnalyzer.selectRules(['all', 'Performance', 'DoesNotExist']))).toEqual(rulesOf(await codeAnalyzer.selectRules(['all'])));
     });
 
     it('When colons are used and multiple selectors are provided then we get correct union and intersection behavior', async () => {
@@ -169,12 +179,96 @@ describe('Tests for selecting rules', () => {
         expect(ruleNamesFor(selection1, 'stubEngine1')).toEqual(['stub1RuleB','stub1RuleC','stub1RuleE']);
         expect(ruleNamesFor(selection1, 'stubEngine2')).toEqual(['stub2RuleB','stub2RuleC']);
 
-        expect(await codeAnalyzer.selectRules(['Stub1RulEd'])).toEqual(await codeAnalyzer.selectRules(['stub1RuleD']));
-        expect(await codeAnalyzer.selectRules(['aLL'])).toEqual(await codeAnalyzer.selectRules(['all']));
+        expect(rulesOf(await codeAnalyzer.selectRules(['Stub1RulEd']))).toEqual(rulesOf(await codeAnalyzer.selectRules(['stub1RuleD'])));
+        expect(rulesOf(await codeAnalyzer.selectRules(['aLL']))).toEqual(rulesOf(await codeAnalyzer.selectRules(['all'])));
+    });
+
+    it('When a selector is negated with an exclamation mark, then the rules that do not match it are selected', async () => {
+        const selection1: RuleSelection = await codeAnalyzer.selectRules(['!CodeStyle']);
+        expect(ruleNamesFor(selection1, 'stubEngine1')).toEqual(['stub1RuleB', 'stub1RuleC', 'stub1RuleE']);
+        expect(ruleNamesFor(selection1, 'stubEngine2')).toEqual(['stub2RuleA', 'stub2RuleB', 'stub2RuleC']);
+
+        const selection2: RuleSelection = await codeAnalyzer.selectRules(['Recommended:!stubEngine1']);
+        expect(ruleNamesFor(selection2, 'stubEngine1')).toEqual([]);
+        expect(ruleNamesFor(selection2, 'stubEngine2')).toEqual(['stub2RuleA', 'stub2RuleC']);
+
+        expect(rulesOf(await codeAnalyzer.selectRules(['!!CodeStyle']))).toEqual(rulesOf(await codeAnalyzer.selectRules(['CodeStyle'])));
+    });
+
+    it('When a comma is used within a selector, then it acts like a union that binds less tightly than a colon', async () => {
+        const selection: RuleSelection = await codeAnalyzer.selectRules(['stubEngine1:Security,stubEngine2:Performance']);
+        expect(ruleNamesFor(selection, 'stubEngine1')).toEqual(['stub1RuleB']);
+        expect(ruleNamesFor(selection, 'stubEngine2')).toEqual(['stub2RuleB']);
+
+        expect(rulesOf(await codeAnalyzer.selectRules(['Security, CodeStyle']))).toEqual(rulesOf(await codeAnalyzer.selectRules(['Security', 'CodeStyle'])));
+    });
+
+    it('When parentheses are used within a selector, then they group the selector within them', async () => {
+        const selection1: RuleSelection = await codeAnalyzer.selectRules(['stubEngine1:(Security,Performance)']);
+        expect(ruleNamesFor(selection1, 'stubEngine1')).toEqual(['stub1RuleB', 'stub1RuleC', 'stub1RuleE']);
+        expect(ruleNamesFor(selection1, 'stubEngine2')).toEqual([]);
+
+        const selection2: RuleSelection = await codeAnalyzer.selectRules(['!(Recommended,stubEngine2)']);
+        expect(ruleNamesFor(selection2, 'stubEngine1')).toEqual(['stub1RuleD', 'stub1RuleE']);
+        expect(ruleNamesFor(selection2, 'stubEngine2')).toEqual([]);
+
+        expect(rulesOf(await codeAnalyzer.selectRules([' ( ( Custom ) ) ']))).toEqual(rulesOf(await codeAnalyzer.selectRules(['Custom'])));
+    });
+
+    it('When a selector contains wildcards, then it selects the rules whose names match the wildcard pattern', async () => {
+        const selection1: RuleSelection = await codeAnalyzer.selectRules(['stub1Rule*']);
+        expect(ruleNamesFor(selection1, 'stubEngine1')).toEqual(['stub1RuleA', 'stub1RuleB', 'stub1RuleC', 'stub1RuleD', 'stub1RuleE']);
+        expect(ruleNamesFor(selection1, 'stubEngine2')).toEqual([]);
+
+        const selection2: RuleSelection = await codeAnalyzer.selectRules(['STUB*rulec']);
+        expect(ruleNamesFor(selection2, 'stubEngine1')).toEqual(['stub1RuleC']);
+        expect(ruleNamesFor(selection2, 'stubEngine2')).toEqual(['stub2RuleC']);
+
+        // Wildcards only apply to rule names, so they don't match engine names or tags
+        expect((await codeAnalyzer.selectRules(['stubEngine*', 'Recommend*'])).getCount()).toEqual(0);
+    });
+
+    it('When a selector compares the severity, then the rules with a matching severity level are selected', async () => {
+        const selection1: RuleSelection = await codeAnalyzer.selectRules(['severity<=2']);
+        expect(ruleNamesFor(selection1, 'stubEngine1')).toEqual(['stub1RuleB']);
+        expect(ruleNamesFor(selection1, 'stubEngine2')).toEqual(['stub2RuleC']);
+
+        const selection2: RuleSelection = await codeAnalyzer.selectRules(['Severity > Moderate']);
+        expect(ruleNamesFor(selection2, 'stubEngine1')).toEqual(['stub1RuleA', 'stub1RuleD']);
+        expect(ruleNamesFor(selection2, 'stubEngine2')).toEqual(['stub2RuleB']);
+
+        const selection3: RuleSelection = await codeAnalyzer.selectRules(['stubEngine1:severity>=3:!severity=low']);
+        expect(ruleNamesFor(selection3, 'stubEngine1')).toEqual(['stub1RuleC', 'stub1RuleE']);
+        expect(ruleNamesFor(selection3, 'stubEngine2')).toEqual([]);
+
+        const selection4: RuleSelection = await codeAnalyzer.selectRules(['severity<High']);
+        expect(selection4.getCount()).toEqual(0);
+    });
+
+    it.each([
+        {selector: '', expectedError: getMessage('RuleSelectorUnexpectedEnd', '')},
+        {selector: '  ', expectedError: getMessage('RuleSelectorUnexpectedEnd', '  ')},
+        {selector: 'Security:', expectedError: getMessage('RuleSelectorUnexpectedEnd', 'Security:')},
+        {selector: '(Security,CodeStyle', expectedError: getMessage('RuleSelectorUnexpectedEnd', '(Security,CodeStyle')},
+        {selector: '!', expectedError: getMessage('RuleSelectorUnexpectedEnd', '!')},
+        {selector: 'Security)', expectedError: getMessage('RuleSelectorUnexpectedToken', 'Security)', ')', 9)},
+        {selector: 'Security,,CodeStyle', expectedError: getMessage('RuleSelectorUnexpectedToken', 'Security,,CodeStyle', ',', 10)},
+        {selector: '(Security CodeStyle)', expectedError: getMessage('RuleSelectorUnexpectedToken', '(Security CodeStyle)', 'CodeStyle', 11)},
+        {selector: 'Security()', expectedError: getMessage('RuleSelectorUnexpectedToken', 'Security()', '(', 9)},
+        {selector: '<=2', expectedError: getMessage('RuleSelectorUnexpectedToken', '<=2', '<=', 1)},
+        {selector: 'severity<=', expectedError: getMessage('RuleSelectorUnexpectedEnd', 'severity<=')},
+        {selector: 'tag=Security', expectedError: getMessage('RuleSelectorInvalidComparison', 'tag=Security', 'tag=Security',
+                '<=, >=, <, >, =', 'Critical, High, Moderate, Low, Info')},
+        {selector: 'severity<6', expectedError: getMessage('RuleSelectorInvalidComparison', 'severity<6', 'severity<6',
+                '<=, >=, <, >, =', 'Critical, High, Moderate, Low, Info')},
+        {selector: 'severity>=(', expectedError: getMessage('RuleSelectorInvalidComparison', 'severity>=(', 'severity>=(',
+                '<=, >=, <, >, =', 'Critical, High, Moderate, Low, Info')}
+    ])('When a selector is malformed like "$selector", then error', async ({selector, expectedError}) => {
+        await expect(codeAnalyzer.selectRules(['Security', selector])).rejects.toThrow(expectedError);
     });
 
     it('When config contains rule overrides for the selected rules, then the rule selection contains these overrides', async () => {
-        codeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromFile(path.resolve(__dirname, "test-data", "sample-config-01.yaml")));
+        codeAnalyzer = new CodeAnalyzer(createSampleConfig01WithTempLogFolder());
         await setupCodeAnalyzer(codeAnalyzer);
 
         const selection: RuleSelection = await codeAnalyzer.selectRules([]);
@@ -198,7 +292,7 @@ describe('Tests for selecting rules', () => {
     });
 
     it('When config contains rule overrides, then we can select based on the new tags', async () => {
-        codeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromFile(path.resolve(__dirname, "test-data", "sample-config-01.yaml")));
+        codeAnalyzer = new CodeAnalyzer(createSampleConfig01WithTempLogFolder());
         await setupCodeAnalyzer(codeAnalyzer);
 
         const selection: RuleSelection = await codeAnalyzer.selectRules(['SomeNewTag']);
@@ -217,7 +311,7 @@ describe('Tests for selecting rules', () => {
     });
 
     it('When config contains severity overrides, then we can select based on the severity values', async () => {
-        codeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromFile(path.resolve(__dirname, "test-data", "sample-config-01.yaml")));
+        codeAnalyzer = new CodeAnalyzer(createSampleConfig01WithTempLogFolder());
         await setupCodeAnalyzer(codeAnalyzer);
 
         const selection: RuleSelection = await codeAnalyzer.selectRules(['5']);
@@ -225,6 +319,299 @@ describe('Tests for selecting rules', () => {
         expect(ruleNamesFor(selection, 'stubEngine2')).toEqual([]);
     });
 
+    it('When config disables rules, then they are never selected', async () => {
+        codeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromObject({rules: {
+            stubEngine1: {stub1RuleB: {disabled: true}, stub1RuleD: {disabled: true, tags: ['Recommended']}},
+            stubEngine2: {stub2RuleA: {disabled: false}}
+        }}));
+        await setupCodeAnalyzer(codeAnalyzer);
+
+        const selection1: RuleSelection = await codeAnalyzer.selectRules(['all']);
+        expect(ruleNamesFor(selection1, 'stubEngine1')).toEqual(['stub1RuleA', 'stub1RuleC', 'stub1RuleE']);
+        expect(ruleNamesFor(selection1, 'stubEngine2')).toEqual(['stub2RuleA', 'stub2RuleB', 'stub2RuleC']);
+
+        const selection2: RuleSelection = await codeAnalyzer.selectRules(['stub1RuleB', 'Recommended']);
+        expect(ruleNamesFor(selection2, 'stubEngine1')).toEqual(['stub1RuleA', 'stub1RuleC']);
+        expect(ruleNamesFor(selection2, 'stubEngine2')).toEqual(['stub2RuleA', 'stub2RuleC']);
+    });
+
+    it('When config overrides the description, resource urls, and adds tags of rules, then the rule selection contains these overrides', async () => {
+        codeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromObject({rules: {
+            stubEngine1: {stub1RuleA: {
+                description: 'Some new description',
+                resource_urls: ['https://example.com/new1', 'https://example.com/new2'],
+                add_tags: ['SomeNewTag', 'CodeStyle']
+            }},
+            stubEngine2: {stub2RuleB: {tags: ['Security'], add_tags: ['SomeNewTag']}}
+        }}));
+        await setupCodeAnalyzer(codeAnalyzer);
+
+        const selection: RuleSelection = await codeAnalyzer.selectRules(['SomeNewTag']);
+        expect(ruleNamesFor(selection, 'stubEngine1')).toEqual(['stub1RuleA']);
+        expect(ruleNamesFor(selection, 'stubEngine2')).toEqual(['stub2RuleB']);
+
+        const stub1RuleA: Rule = selection.getRule('stubEngine1', 'stub1RuleA');
+        expect(stub1RuleA.getDescription()).toEqual('Some new description');
+        expect(stub1RuleA.getResourceUrls()).toEqual(['https://example.com/new1', 'https://example.com/new2']);
+        expect(stub1RuleA.getTags()).toEqual(['Recommended', 'CodeStyle', 'SomeNewTag']);
+        expect(stub1RuleA.getSeverityLevel()).toEqual(SeverityLevel.Low); // Unchanged
+        expect(selection.getRule('stubEngine2', 'stub2RuleB').getTags()).toEqual(['Security', 'SomeNewTag']);
+    });
+
+    it('When rules are selected, then the selection records which selectors matched which attributes of each rule', async () => {
+        const selection: RuleSelection = await codeAnalyzer.selectRules(
+            ['Recommended', 'stubEngine1:severity<=2', '!CodeStyle', 'stub1Rule*', 'high,2', 'Recommended:all']);
+
+        expect(selection.getSelectionReasons('stubEngine1', 'stub1RuleB')).toEqual([
+            {selector: 'Recommended', matchedAttributes: [{attribute: RuleAttribute.Tag, value: 'Recommended'}]},
+            {selector: 'stubEngine1:severity<=2', matchedAttributes: [
+                {attribute: RuleAttribute.Engine, value: 'stubEngine1'}, {attribute: RuleAttribute.Severity, value: 'High'}]},
+            {selector: '!CodeStyle', matchedAttributes: []},
+            {selector: 'stub1Rule*', matchedAttributes: [{attribute: RuleAttribute.Name, value: 'stub1RuleB'}]},
+            {selector: 'high,2', matchedAttributes: [{attribute: RuleAttribute.Severity, value: 'High'}]},
+            {selector: 'Recommended:all', matchedAttributes: [{attribute: RuleAttribute.Tag, value: 'Recommended'}]}
+        ]);
+        expect(selection.getSelectionReasons('stubEngine2', 'stub2RuleB')).toEqual([
+            {selector: '!CodeStyle', matchedAttributes: []}
+        ]);
+        expect(() => selection.getSelectionReasons('stubEngine1', 'doesNotExist')).toThrow(
+            getMessage('RuleDoesNotExistInSelection', 'doesNotExist', 'stubEngine1'));
+    });
+
+    it('When rules are selected, then a debug log event records why each rule was selected', async () => {
+        const logEvents: LogEvent[] = [];
+        codeAnalyzer.onEvent(EventType.LogEvent, (event: LogEvent) => logEvents.push(event));
+
+        await codeAnalyzer.selectRules(['stub2RuleC']);
+
+        const expectedReasons: RuleSelectionReason[] = [
+            {selector: 'stub2RuleC', matchedAttributes: [{attribute: RuleAttribute.Name, value: 'stub2RuleC'}]}];
+        expect(logEvents.filter(e => e.logLevel == LogLevel.Debug).map(e => e.message)).toContain(
+            getMessage('RuleSelected', 'stub2RuleC', 'stubEngine2', JSON.stringify(expectedReasons)));
+    });
+
+    describe('Tests for warning about selectors that do not match any rules', () => {
+        let warnMessages: string[];
+
+        beforeEach(() => {
+            warnMessages = [];
+            codeAnalyzer.onEvent(EventType.LogEvent, (event: LogEvent) => {
+                if (event.logLevel == LogLevel.Warn) {
+                    warnMessages.push(event.message);
+                }
+            });
+        });
+
+        it('When all selectors match some rules, then no warnings are emitted', async () => {
+            await codeAnalyzer.selectRules(['Recommended', 'stub1Rule*', 'Security:!stubEngine2', 'severity<=Low']);
+
+            expect(warnMessages).toEqual([]);
+        });
+
+        it('When a misspelled selector does not match any rules, then a warning suggests the closest names', async () => {
+            await codeAnalyzer.selectRules(['Recomended', 'Hgh', 'stub1RuleZ']);
+
+            expect(warnMessages).toEqual([
+                getMessage('RuleSelectorMatchesNoRules', 'Recomended') + ' ' + getMessage('RuleSelectorSuggestions', '"Recommended"'),
+                getMessage('RuleSelectorMatchesNoRules', 'Hgh') + ' ' + getMessage('RuleSelectorSuggestions', '"High"'),
+                getMessage('RuleSelectorMatchesNoRules', 'stub1RuleZ') + ' ' +
+                    getMessage('RuleSelectorSuggestions', '"stub1RuleA", "stub1RuleB", "stub1RuleC"')
+            ]);
+        });
+
+        it('When parts of a selector do not match any rules, then a warning is emitted for each of those parts', async () => {
+            const selection: RuleSelection = await codeAnalyzer.selectRules(['stubEngine1:(Securty,!CodeStlye)']);
+
+            expect(ruleNamesFor(selection, 'stubEngine1')).toEqual(['stub1RuleA', 'stub1RuleB', 'stub1RuleC', 'stub1RuleD', 'stub1RuleE']);
+            expect(warnMessages).toEqual([
+                getMessage('RuleSelectorPartMatchesNoRules', 'Securty', 'stubEngine1:(Securty,!CodeStlye)') + ' ' +
+                    getMessage('RuleSelectorSuggestions', '"Security"'),
+                getMessage('RuleSelectorPartMatchesNoRules', 'CodeStlye', 'stubEngine1:(Securty,!CodeStlye)') + ' ' +
+                    getMessage('RuleSelectorSuggestions', '"CodeStyle"')
+            ]);
+        });
+
+        it('When a name that does not match any rules is not close to any available name, then no suggestions are made', async () => {
+            await codeAnalyzer.selectRules(['Security', 'Security:SomethingElse']);
+
+            expect(warnMessages).toEqual([getMessage('RuleSelectorPartMatchesNoRules', 'SomethingElse', 'Security:SomethingElse')]);
+        });
+
+        it('When every part of a selector matches some rules but the selector as a whole does not, then a warning is emitted for the selector', async () => {
+            await codeAnalyzer.selectRules(['Performance:Critical', 'severity<High']);
+
+            expect(warnMessages).toEqual([
+                getMessage('RuleSelectorMatchesNoRules', 'Performance:Critical'),
+                getMessage('RuleSelectorMatchesNoRules', 'severity<High')
+            ]);
+        });
+    });
+
+    describe('Tests for rule sets from the configuration', () => {
+        async function setupCodeAnalyzerWithRuleSets(ruleSets: object): Promise<void> {
+            codeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromObject({rule_sets: ruleSets}));
+            await setupCodeAnalyzer(codeAnalyzer);
+        }
+
+        it('When a rule set is used as a selector, then it selects the rules that match its selectors except for the negated ones', async () => {
+            await setupCodeAnalyzerWithRuleSets({security_gate: ['stubEngine2', 'Security', '!Low']});
+
+            const selection: RuleSelection = await codeAnalyzer.selectRules(['security_gate']);
+
+            expect(ruleNamesFor(selection, 'stubEngine1')).toEqual(['stub1RuleB']);
+            expect(ruleNamesFor(selection, 'stubEngine2')).toEqual(['stub2RuleA', 'stub2RuleC']);
+            expect(selection.getSelectionReasons('stubEngine2', 'stub2RuleA')).toEqual([
+                {selector: 'security_gate', matchedAttributes: [
+                    {attribute: RuleAttribute.Engine, value: 'stubEngine2'}, {attribute: RuleAttribute.Tag, value: 'Security'}]}
+            ]);
+        });
+
+        it('When rule sets are used within selector expressions, then their names are matched case-insensitively', async () => {
+            await setupCodeAnalyzerWithRuleSets({security_gate: ['Security', '!Low'], perf: ['Performance']});
+
+            const selection: RuleSelection = await codeAnalyzer.selectRules(['SECURITY_GATE:stubEngine1,perf:stubEngine2']);
+
+            expect(ruleNamesFor(selection, 'stubEngine1')).toEqual(['stub1RuleB']);
+            expect(ruleNamesFor(selection, 'stubEngine2')).toEqual(['stub2RuleB']);
+        });
+
+        it('When a rule set only has negated selectors, then it starts from all rules, and when it has no selectors then it selects nothing', async () => {
+            await setupCodeAnalyzerWithRuleSets({no_low: ['!Low', '!stubEngine2'], empty: []});
+            const warnMessages: string[] = [];
+            codeAnalyzer.onEvent(EventType.LogEvent, (event: LogEvent) => {
+                if (event.logLevel == LogLevel.Warn) {
+                    warnMessages.push(event.message);
+                }
+            });
+
+            const selection: RuleSelection = await codeAnalyzer.selectRules(['no_low', 'empty']);
+
+            expect(selection.getEngineNames()).toEqual(['stubEngine1']);
+            expect(ruleNamesFor(selection, 'stubEngine1')).toEqual(['stub1RuleB', 'stub1RuleC', 'stub1RuleE']);
+            expect(warnMessages).toEqual([getMessage('RuleSelectorMatchesNoRules', 'empty')]);
+        });
+
+        it('When a rule set named default exists, then it is used when no rule selectors are provided', async () => {
+            await setupCodeAnalyzerWithRuleSets({Default: ['Security']});
+
+            const selection: RuleSelection = await codeAnalyzer.selectRules([]);
+
+            expect(ruleNamesFor(selection, 'stubEngine1')).toEqual(['stub1RuleB']);
+            expect(ruleNamesFor(selection, 'stubEngine2')).toEqual(['stub2RuleA']);
+            expect(selection.getSelectionReasons('stubEngine1', 'stub1RuleB')).toEqual([
+                {selector: 'default', matchedAttributes: [{attribute: RuleAttribute.Tag, value: 'Security'}]}
+            ]);
+        });
+
+        it('When a rule set has the same name as a tag, then it replaces the tag while its own selectors still refer to the tag', async () => {
+            await setupCodeAnalyzerWithRuleSets({Recommended: ['Recommended', '!High']});
+
+            const selection: RuleSelection = await codeAnalyzer.selectRules([]);
+
+            expect(ruleNamesFor(selection, 'stubEngine1')).toEqual(['stub1RuleA', 'stub1RuleC']);
+            expect(ruleNamesFor(selection, 'stubEngine2')).toEqual(['stub2RuleA']);
+        });
+
+        it('When rule sets refer to each other, then a rule set name within its own definition is not resolved as the rule set', async () => {
+            await setupCodeAnalyzerWithRuleSets({a: ['b', 'stub1RuleA'], b: ['a', 'stub1RuleB']});
+
+            expect(ruleNamesFor(await codeAnalyzer.selectRules(['a']), 'stubEngine1')).toEqual(['stub1RuleA', 'stub1RuleB']);
+            expect(ruleNamesFor(await codeAnalyzer.selectRules(['b']), 'stubEngine1')).toEqual(['stub1RuleA', 'stub1RuleB']);
+        });
+
+        it('When a misspelled rule set name does not match any rules, then a warning suggests the rule set name', async () => {
+            await setupCodeAnalyzerWithRuleSets({security_gate: ['Security']});
+            const warnMessages: string[] = [];
+            codeAnalyzer.onEvent(EventType.LogEvent, (event: LogEvent) => {
+                if (event.logLevel == LogLevel.Warn) {
+                    warnMessages.push(event.message);
+                }
+            });
+
+            await codeAnalyzer.selectRules(['security_gat']);
+
+            expect(warnMessages).toEqual([
+                getMessage('RuleSelectorMatchesNoRules', 'security_gat') + ' ' + getMessage('RuleSelectorSuggestions', '"security_gate", "Security"')
+            ]);
+        });
+    });
+
+    it('When formatting the rule selection as JSON, then each rule is listed with the reasons why it was selected', async () => {
+        const selection: RuleSelection = await codeAnalyzer.selectRules(['stubEngine2:Security', 'stub1RuleD']);
+
+        expect(JSON.parse(selection.toFormattedOutput(RuleSelectionOutputFormat.JSON))).toEqual({
+            ruleCount: 2,
+            rules: [{
+                rule: 'stub1RuleD',
+                engine: 'stubEngine1',
+                severity: 4,
+                tags: ['CodeStyle'],
+                selectedBy: [{selector: 'stub1RuleD', matchedAttributes: [{attribute: 'name', value: 'stub1RuleD'}]}]
+            }, {
+                rule: 'stub2RuleA',
+                engine: 'stubEngine2',
+                severity: 3,
+                tags: ['Recommended', 'Security'],
+                selectedBy: [{selector: 'stubEngine2:Security', matchedAttributes: [
+                    {attribute: 'engine', value: 'stubEngine2'}, {attribute: 'tag', value: 'Security'}]}]
+            }]
+        });
+    });
+
+    it('When formatting the rule selection as Markdown, then a table lists each rule with the reasons why it was selected', async () => {
+        const selection: RuleSelection = await codeAnalyzer.selectRules(['stubEngine2:Security', 'severity<=2', 'all']);
+
+        expect(selection.toFormattedOutput(RuleSelectionOutputFormat.MARKDOWN).split('\n').slice(0, 8)).toEqual([
+            '## Code Analyzer Rule Selection',
+            '',
+            '8 rules were selected.',
+            '',
+            '| Engine | Rule | Severity | Selected by |',
+            '| --- | --- | --- | --- |',
+            '| stubEngine1 | stub1RuleA | 4 (Low) | all |',
+            '| stubEngine1 | stub1RuleB | 2 (High) | severity&lt;=2 (severity: High)<br>all |'
+        ]);
+        expect(selection.toFormattedOutput(RuleSelectionOutputFormat.MARKDOWN)).toContain(
+            '| stubEngine2 | stub2RuleA | 3 (Moderate) | stubEngine2:Security (engine: stubEngine2, tag: Security)<br>all |');
+
+        const emptySelection: RuleSelection = await codeAnalyzer.selectRules(['DoesNotExist']);
+        expect(emptySelection.toFormattedOutput(RuleSelectionOutputFormat.MARKDOWN)).toEqual(
+            '## Code Analyzer Rule Selection\n\nNo rules were selected.');
+        expect((await codeAnalyzer.selectRules(['stub1RuleA'])).toFormattedOutput(RuleSelectionOutputFormat.MARKDOWN)).toContain(
+            '1 rule was selected.');
+    });
+
+    it('When formatting the rule selection with an unsupported format, then error with the registered formats', async () => {
+        const selection: RuleSelection = await codeAnalyzer.selectRules(['stub1RuleA']);
+        expect(() => selection.toFormattedOutput('oops')).toThrow(getMessage('UnsupportedOutputFormat', 'rule selection output',
+            'oops', 'rule selection output', RuleSelectionOutputFormatter.getRegisteredFormats().join(', ')));
+    });
+
+    it('When all built-in rule selection formats are checked, then they are all registered', () => {
+        expect(RuleSelectionOutputFormatter.getRegisteredFormats()).toEqual(expect.arrayContaining(Object.values(RuleSelectionOutputFormat)));
+    });
+
+    it('When a custom rule selection formatter is registered, then rule selections can be formatted using its format name', async () => {
+        const selection: RuleSelection = await codeAnalyzer.selectRules(['stub1RuleA']);
+        const formatter: RuleSelectionOutputFormatter = {format: (s: RuleSelection) => `Rule count: ${s.getCount()}`};
+        RuleSelectionOutputFormatter.register('SomeCustomRuleSelectionFormat', formatter);
+        RuleSelectionOutputFormatter.register('SomeCustomRuleSelectionFormat', formatter); // Registering the same formatter again is a no-op
+
+        expect(selection.toFormattedOutput('SomeCustomRuleSelectionFormat')).toEqual('Rule count: 1');
+        expect(() => RuleSelectionOutputFormatter.register('SomeCustomRuleSelectionFormat', {format: () => 'someOtherOutput'})).toThrow(
+            getMessage('DuplicateOutputFormat', 'rule selection output', 'SomeCustomRuleSelectionFormat'));
+    });
+
+    it('When a rule selection formatter is unregistered, then another formatter can be registered with its format name', () => {
+        RuleSelectionOutputFormatter.register('SomeReplacedRuleSelectionFormat', {format: () => 'someOutput'});
+
+        expect(RuleSelectionOutputFormatter.unregister('SomeReplacedRuleSelectionFormat')).toEqual(true);
+        expect(RuleSelectionOutputFormatter.unregister('SomeReplacedRuleSelectionFormat')).toEqual(false);
+        const formatter: RuleSelectionOutputFormatter = {format: () => 'someReplacedOutput'};
+        RuleSelectionOutputFormatter.register('SomeReplacedRuleSelectionFormat', formatter);
+        expect(RuleSelectionOutputFormatter.forFormat('SomeReplacedRuleSelectionFormat')).toBe(formatter);
+    });
+
     it('When attempting to get a rule that does not exist in the selection, then error', async () => {
         const selection: RuleSelection = await codeAnalyzer.selectRules([]);
 
@@ -277,6 +664,18 @@ describe('Misc tests', () => {
 });
 
 
+// Since sample-config-01.yaml sets its log_folder to the sampleLogFolder, we use its values with the temp folder as the
+// log folder instead so that the log files that get written are cleaned up
+function createSampleConfig01WithTempLogFolder(): CodeAnalyzerConfig {
+    const configFile: string = path.resolve(__dirname, "test-data", "sample-config-01.yaml");
+    const data: object = yaml.load(fs.readFileSync(configFile, 'utf8')) as object;
+    return CodeAnalyzerConfig.fromObject({...data, log_folder: os.tmpdir()}, path.dirname(configFile));
+}
+
 function ruleNamesFor(selection: RuleSelection, engineName: string): string[] {
     return selection.getRulesFor(engineName).map(r => r.getName());
-}
\ No newline at end of file
+}
+
+function rulesOf(selection: RuleSelection): Rule[] {
+    return selection.getEngineNames().flatMap(engineName => selection.getRulesFor(engineName));
+}
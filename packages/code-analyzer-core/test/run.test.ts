@@ -21,7 +21,7 @@ import {getMessage} from "../src/messages";
 import path from "node:path";
 import {changeWorkingDirectoryToPackageRoot, FixedClock, FixedUniqueIdGenerator} from "./test-helpers";
 import * as engApi from "@salesforce/code-analyzer-engine-api"
-import {UnexpectedEngineErrorRule} from "../src/rules";
+import {EngineCancelledRule, EngineTimeoutRule, UnexpectedEngineErrorRule} from "../src/rules";
 import {UndefinedCodeLocation} from "../src/results";
 import {Workspace, WorkspaceImpl} from "../src/workspace";
 
@@ -484,6 +484,8 @@ describe("Tests for the run method of CodeAnalyzer", () => {
         expect(violations).toHaveLength(1);
         const engineRunResults: EngineRunResults = overallResults.getEngineRunResults('throwingEngine');
         expect(engineRunResults.getViolations()).toEqual(violations);
+        expect(engineRunResults.getBaselinedViolations()).toEqual([]);
+        expect(engineRunResults.getSuppressedViolations()).toEqual([]);
         expect(violations[0].getRule()).toEqual(new UnexpectedEngineErrorRule('throwingEngine'));
         expect(violations[0].getRule().getDescription()).toEqual(getMessage('UnexpectedEngineErrorRuleDescription', 'throwingEngine'));
         expect(violations[0].getRule().getEngineName()).toEqual('throwingEngine');
@@ -524,23 +526,21 @@ describe("Tests for the run method of CodeAnalyzer", () => {
         });
 
         expect(engineProgressEvents).toHaveLength(9);
-        let i = 0; // Using this to ensure the order of events
-        for (const expectedPercentComplete of [0, 0, 50, 100, 100]) { // Core and stubEngine1 both give us 0 and 100
-            expect(engineProgressEvents[i++]).toEqual({
-                type: EventType.EngineProgressEvent,
-                timestamp: sampleTimestamp,
-                engineName: "stubEngine1",
-                percentComplete: expectedPercentComplete
-            });
-        }
-        for (const expectedPercentComplete of [0, 5, 63, 100]) { // Only Core gives us 0 and 100
-            expect(engineProgressEvents[i++]).toEqual({
-                type: EventType.EngineProgressEvent,
-                timestamp: sampleTimestamp,
-                engineName: "stubEngine2",
-                percentComplete: expectedPercentComplete
-            });
-        }
+        // Since the engines run concurrently, we only check the order of the events within each engine
+        const stubEngine1ProgressEvents = engineProgressEvents.filter(e => e.engineName == "stubEngine1");
+        expect(stubEngine1ProgressEvents).toEqual([0, 0, 50, 100, 100].map(expectedPercentComplete => ({ // Core and stubEngine1 both give us 0 and 100
+            type: EventType.EngineProgressEvent,
+            timestamp: sampleTimestamp,
+            engineName: "stubEngine1",
+            percentComplete: expectedPercentComplete
+        })));
+        const stubEngine2ProgressEvents = engineProgressEvents.filter(e => e.engineName == "stubEngine2");
+        expect(stubEngine2ProgressEvents).toEqual([0, 5, 63, 100].map(expectedPercentComplete => ({ // Only Core gives us 0 and 100
+            type: EventType.EngineProgressEvent,
+            timestamp: sampleTimestamp,
+            engineName: "stubEngine2",
+            percentComplete: expectedPercentComplete
+        })));
 
         expect(engineResultsEvents).toHaveLength(2);
         expect(engineResultsEvents).toContainEqual({
@@ -556,6 +556,207 @@ describe("Tests for the run method of CodeAnalyzer", () => {
     });
 });
 
+describe("Tests for running engines concurrently", () => {
+    let plugin: stubs.ControllableEnginePlugin;
+
+    async function startRunOfControllableEngines(codeAnalyzer: CodeAnalyzer): Promise<RunResults> {
+        plugin = new stubs.ControllableEnginePlugin(['controllableEngine1', 'controllableEngine2', 'controllableEngine3']);
+        await codeAnalyzer.addEnginePlugin(plugin);
+        const selection: RuleSelection = await codeAnalyzer.selectRules([]);
+        return codeAnalyzer.run(selection, {workspace: await codeAnalyzer.createWorkspace(['test'])});
+    }
+
+    it("When running with the default config, then engines run concurrently but results are in engine order", async () => {
+        const codeAnalyzer: CodeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.withDefaults());
+        const engineResultsEvents: EngineResultsEvent[] = [];
+        codeAnalyzer.onEvent(EventType.EngineResultsEvent, (event: EngineResultsEvent) => engineResultsEvents.push(event));
+        const resultsPromise: Promise<RunResults> = startRunOfControllableEngines(codeAnalyzer);
+
+        await Promise.all(['controllableEngine1', 'controllableEngine2', 'controllableEngine3'].map(e => plugin.waitUntilStarted(e)));
+        expect(plugin.numRunning).toEqual(3);
+        plugin.finish('controllableEngine2');
+        plugin.finish('controllableEngine1');
+        plugin.finish('controllableEngine3');
+        const results: RunResults = await resultsPromise;
+
+        expect(plugin.maxNumRunningAtOnce).toEqual(3);
+        expect(plugin.completionOrder).toEqual(['controllableEngine2', 'controllableEngine1', 'controllableEngine3']);
+        expect(engineResultsEvents.map(e => e.results.getEngineName())).toEqual(['controllableEngine2', 'controllableEngine1', 'controllableEngine3']);
+        expect(results.getEngineNames()).toEqual(['controllableEngine1', 'controllableEngine2', 'controllableEngine3']);
+    });
+
+    it("When max_concurrent_engines is set, then no more than that number of engines run at the same time", async () => {
+        const codeAnalyzer: CodeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromObject({max_concurrent_engines: 2}));
+        const resultsPromise: Promise<RunResults> = startRunOfControllableEngines(codeAnalyzer);
+
+        await Promise.all([plugin.waitUntilStarted('controllableEngine1'), plugin.waitUntilStarted('controllableEngine2')]);
+        expect(plugin.startOrder).toEqual(['controllableEngine1', 'controllableEngine2']);
+        plugin.finish('controllableEngine2');
+        await plugin.waitUntilStarted('controllableEngine3');
+        plugin.finish('controllableEngine1');
+        plugin.finish('controllableEngine3');
+        const results: RunResults = await resultsPromise;
+
+        expect(plugin.maxNumRunningAtOnce).toEqual(2);
+        expect(plugin.completionOrder).toEqual(['controllableEngine2', 'controllableEngine1', 'controllableEngine3']);
+        expect(results.getEngineNames()).toEqual(['controllableEngine1', 'controllableEngine2', 'controllableEngine3']);
+    });
+
+    it("When max_concurrent_engines is 1, then engines run one after another", async () => {
+        const codeAnalyzer: CodeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromObject({max_concurrent_engines: 1}));
+        const resultsPromise: Promise<RunResults> = startRunOfControllableEngines(codeAnalyzer);
+
+        for (const engineName of ['controllableEngine1', 'controllableEngine2', 'controllableEngine3']) {
+            await plugin.waitUntilStarted(engineName);
+            expect(plugin.numRunning).toEqual(1);
+            plugin.finish(engineName);
+        }
+        const results: RunResults = await resultsPromise;
+
+        expect(plugin.maxNumRunningAtOnce).toEqual(1);
+        expect(plugin.startOrder).toEqual(['controllableEngine1', 'controllableEngine2', 'controllableEngine3']);
+        expect(plugin.completionOrder).toEqual(['controllableEngine1', 'controllableEngine2', 'controllableEngine3']);
+        expect(results.getEngineNames()).toEqual(['controllableEngine1', 'controllableEngine2', 'controllableEngine3']);
+    });
+});
+
+describe("Tests for cancelling runs and timing out engines", () => {
+    let plugin: stubs.ControllableEnginePlugin;
+
+    async function startRunOfControllableEngines(codeAnalyzer: CodeAnalyzer, abortSignal?: AbortSignal): Promise<RunResults> {
+        plugin = new stubs.ControllableEnginePlugin(['controllableEngine1', 'controllableEngine2']);
+        await codeAnalyzer.addEnginePlugin(plugin);
+        const selection: RuleSelection = await codeAnalyzer.selectRules([]);
+        return codeAnalyzer.run(selection, {workspace: await codeAnalyzer.createWorkspace(['test']), abortSignal: abortSignal});
+    }
+
+    function waitForEngineResults(codeAnalyzer: CodeAnalyzer, engineName: string): Promise<void> {
+        return new Promise(resolve => codeAnalyzer.onEvent(EventType.EngineResultsEvent, (event: EngineResultsEvent) => {
+            if (event.results.getEngineName() == engineName) {
+                resolve();
+            }
+        }));
+    }
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it("When an engine does not finish within the engine_run_timeout_seconds, then its results contain an EngineTimeout violation", async () => {
+        const codeAnalyzer: CodeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromObject({engine_run_timeout_seconds: 0.1}));
+        jest.useFakeTimers({doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate']});
+        const engine2ResultsPromise: Promise<void> = waitForEngineResults(codeAnalyzer, 'controllableEngine2');
+        const resultsPromise: Promise<RunResults> = startRunOfControllableEngines(codeAnalyzer);
+
+        plugin.finish('controllableEngine2');
+        await engine2ResultsPromise;
+        await plugin.waitUntilStarted('controllableEngine1');
+        jest.advanceTimersByTime(100);
+        const results: RunResults = await resultsPromise;
+
+        expect(results.getEngineNames()).toEqual(['controllableEngine1', 'controllableEngine2']);
+        expect(results.getViolationCount()).toEqual(1);
+        expect(results.getViolationCountOfSeverity(SeverityLevel.Critical)).toEqual(1);
+        expect(results.getEngineRunResults('controllableEngine2').getViolations()).toEqual([]);
+        expect(results.getEngineRunResults('controllableEngine1').getBaselinedViolations()).toEqual([]);
+        expect(results.getEngineRunResults('controllableEngine1').getSuppressedViolations()).toEqual([]);
+        const violations: Violation[] = results.getEngineRunResults('controllableEngine1').getViolations();
+        expect(violations).toHaveLength(1);
+        expect(violations[0].getRule()).toEqual(new EngineTimeoutRule('controllableEngine1'));
+        expect(violations[0].getRule().getName()).toEqual('EngineTimeout');
+        expect(violations[0].getRule().getDescription()).toEqual(getMessage('EngineTimeoutRuleDescription', 'controllableEngine1'));
+        expect(violations[0].getRule().getSeverityLevel()).toEqual(SeverityLevel.Critical);
+        expect(violations[0].getRule().getType()).toEqual(RuleType.UnexpectedError);
+        expect(violations[0].getMessage()).toEqual(getMessage('EngineTimeoutViolationMessage', 'controllableEngine1', 0.1));
+        expect(violations[0].getCodeLocations()).toEqual([UndefinedCodeLocation.INSTANCE]);
+        expect(violations[0].getPrimaryLocationIndex()).toEqual(0);
+        expect(violations[0].getResourceUrls()).toEqual([]);
+
+        // The engine itself should also have been told to stop
+        expect(plugin.runOptionsReceived.get('controllableEngine1')!.abortSignal!.aborted).toEqual(true);
+        expect(plugin.runOptionsReceived.get('controllableEngine2')!.abortSignal!.aborted).toEqual(false);
+    });
+
+    it("When an engine finishes before the engine_run_timeout_seconds, then it has no EngineTimeout violation", async () => {
+        const codeAnalyzer: CodeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromObject({engine_run_timeout_seconds: 0.1}));
+        jest.useFakeTimers({doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate']});
+        const resultsPromise: Promise<RunResults> = startRunOfControllableEngines(codeAnalyzer);
+
+        await plugin.waitUntilStarted('controllableEngine1');
+        jest.advanceTimersByTime(99);
+        plugin.finish('controllableEngine1');
+        plugin.finish('controllableEngine2');
+        const results: RunResults = await resultsPromise;
+
+        expect(results.getViolationCount()).toEqual(0);
+        expect(jest.getTimerCount()).toEqual(0); // The timeouts of the finished engines should have been cleared
+    });
+
+    it("When the run is cancelled, then the engines that have not finished have EngineCancelled violations", async () => {
+        const codeAnalyzer: CodeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.withDefaults());
+        const abortController: AbortController = new AbortController();
+        const engine2ResultsPromise: Promise<void> = waitForEngineResults(codeAnalyzer, 'controllableEngine2');
+        const resultsPromise: Promise<RunResults> = startRunOfControllableEngines(codeAnalyzer, abortController.signal);
+
+        plugin.finish('controllableEngine2');
+        await engine2ResultsPromise;
+        await plugin.waitUntilStarted('controllableEngine1');
+        abortController.abort();
+        const results: RunResults = await resultsPromise;
+
+        expect(results.getEngineNames()).toEqual(['controllableEngine1', 'controllableEngine2']);
+        expect(results.getViolationCount()).toEqual(1);
+        expect(results.getEngineRunResults('controllableEngine2').getViolations()).toEqual([]);
+        const violations: Violation[] = results.getEngineRunResults('controllableEngine1').getViolations();
+        expect(violations).toHaveLength(1);
+        expect(violations[0].getRule()).toEqual(new EngineCancelledRule('controllableEngine1'));
+        expect(violations[0].getRule().getName()).toEqual('EngineCancelled');
+        expect(violations[0].getRule().getDescription()).toEqual(getMessage('EngineCancelledRuleDescription', 'controllableEngine1'));
+        expect(violations[0].getMessage()).toEqual(getMessage('EngineCancelledViolationMessage', 'controllableEngine1'));
+        expect(plugin.runOptionsReceived.get('controllableEngine1')!.abortSignal!.aborted).toEqual(true);
+    });
+
+    it("When the run is cancelled before an engine gets its turn to run, then that engine is never started", async () => {
+        const codeAnalyzer: CodeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromObject({max_concurrent_engines: 1}));
+        const abortController: AbortController = new AbortController();
+        const resultsPromise: Promise<RunResults> = startRunOfControllableEngines(codeAnalyzer, abortController.signal);
+
+        await plugin.waitUntilStarted('controllableEngine1');
+        abortController.abort();
+        const results: RunResults = await resultsPromise;
+
+        expect(plugin.runOptionsReceived.has('controllableEngine2')).toEqual(false);
+        expect(results.getViolationCount()).toEqual(2);
+        expect(results.getViolationCountOfSeverity(SeverityLevel.Critical)).toEqual(2);
+        expect(results.getEngineRunResults('controllableEngine1').getViolations()[0].getRule()).toEqual(new EngineCancelledRule('controllableEngine1'));
+        expect(results.getEngineRunResults('controllableEngine2').getViolations()[0].getRule()).toEqual(new EngineCancelledRule('controllableEngine2'));
+        expect(results.getEngineRunResults('controllableEngine2').getViolationCountOfSeverity(SeverityLevel.High)).toEqual(0);
+    });
+
+    it("When an engine throws an error while a timeout is configured, then the error is still reported as an UnexpectedError", async () => {
+        const codeAnalyzer: CodeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromObject({engine_run_timeout_seconds: 5}));
+        await codeAnalyzer.addEnginePlugin(new stubs.ThrowingEnginePlugin());
+        const results: RunResults = await codeAnalyzer.run(await codeAnalyzer.selectRules([]),
+            {workspace: await codeAnalyzer.createWorkspace(['test'])});
+
+        const violations: Violation[] = results.getViolations();
+        expect(violations).toHaveLength(1);
+        expect(violations[0].getRule()).toEqual(new UnexpectedEngineErrorRule('throwingEngine'));
+    });
+
+    it("When an abort signal is provided but never aborted, then engines run as usual and receive an abort signal", async () => {
+        const codeAnalyzer: CodeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.withDefaults());
+        const resultsPromise: Promise<RunResults> = startRunOfControllableEngines(codeAnalyzer, new AbortController().signal);
+        plugin.finish('controllableEngine1');
+        plugin.finish('controllableEngine2');
+        const results: RunResults = await resultsPromise;
+
+        expect(results.getViolationCount()).toEqual(0);
+        expect(plugin.runOptionsReceived.get('controllableEngine1')!.abortSignal!.aborted).toEqual(false);
+        expect(plugin.runOptionsReceived.get('controllableEngine2')!.abortSignal!.aborted).toEqual(false);
+    });
+});
+
 function getAllSeverityLevels(): SeverityLevel[] {
     return Object.values(SeverityLevel)
         .filter((value) => typeof value === 'number') as SeverityLevel[];
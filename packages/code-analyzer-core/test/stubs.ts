@@ -428,4 +428,104 @@ class RepeatedRuleNameEngine extends engApi.Engine {
     async runRules(_ruleNames: string[], _runOptions: RunOptions): Promise<EngineRunResults> {
         return { violations: [] };
     }
-}
\ No newline at end of file
+}
+/**
+ * ControllableEnginePlugin - A plugin that returns engines which keep running until the test finishes them and which keep
+ * track of the order in which they start and finish and of how many of them are running at the same time
+ */
+export class ControllableEnginePlugin extends engApi.EnginePluginV1 {
+    private readonly startedSignals: Map<string, Signal> = new Map();
+    private readonly finishSignals: Map<string, Signal> = new Map();
+    readonly startOrder: string[] = [];
+    readonly completionOrder: string[] = [];
+    readonly runOptionsReceived: Map<string, RunOptions> = new Map();
+    numRunning: number = 0;
+    maxNumRunningAtOnce: number = 0;
+
+    constructor(engineNames: string[]) {
+        super();
+        for (const engineName of engineNames) {
+            this.startedSignals.set(engineName, new Signal());
+            this.finishSignals.set(engineName, new Signal());
+        }
+    }
+
+    getAvailableEngineNames(): string[] {
+        return Array.from(this.startedSignals.keys());
+    }
+
+    async createEngine(engineName: string, _config: ConfigObject): Promise<Engine> {
+        return new ControllableEngine(engineName, this);
+    }
+
+    /**
+     * Resolves once the engine has started running
+     */
+    waitUntilStarted(engineName: string): Promise<void> {
+        return (this.startedSignals.get(engineName) as Signal).promise;
+    }
+
+    /**
+     * Lets the engine finish its run, which can also be done before it starts so that it finishes right away
+     */
+    finish(engineName: string): void {
+        (this.finishSignals.get(engineName) as Signal).send();
+    }
+
+    async runEngine(engineName: string, runOptions: RunOptions): Promise<void> {
+        this.runOptionsReceived.set(engineName, runOptions);
+        this.startOrder.push(engineName);
+        this.numRunning++;
+        this.maxNumRunningAtOnce = Math.max(this.maxNumRunningAtOnce, this.numRunning);
+        (this.startedSignals.get(engineName) as Signal).send();
+        await (this.finishSignals.get(engineName) as Signal).promise;
+        this.numRunning--;
+        this.completionOrder.push(engineName);
+    }
+}
+
+/**
+ * Signal - A promise that is resolved by calling send, which lets tests control when things happen without waiting on timers
+ */
+class Signal {
+    readonly promise: Promise<void>;
+    send: () => void = () => {};
+
+    constructor() {
+        this.promise = new Promise(resolve => this.send = resolve);
+    }
+}
+
+/**
+ * ControllableEngine - An engine that runs until its plugin lets it finish
+ */
+class ControllableEngine extends engApi.Engine {
+    private readonly name: string;
+    private readonly plugin: ControllableEnginePlugin;
+
+    constructor(name: string, plugin: ControllableEnginePlugin) {
+        super();
+        this.name = name;
+        this.plugin = plugin;
+    }
+
+    getName(): string {
+        return this.name;
+    }
+
+    async describeRules(_describeOptions: DescribeOptions): Promise<RuleDescription[]> {
+        return [{
+            name: `${this.name}Rule`,
+            severityLevel: engApi.SeverityLevel.Moderate,
+            type: engApi.RuleType.Standard,
+            tags: ["Recommended"],
+            description: `Some description for ${this.name}Rule`,
+            resourceUrls: []
+        }];
+    }
+
+    async runRules(_ruleNames: string[], runOptions: RunOptions): Promise<EngineRunResults> {
+        await this.plugin.runEngine(this.name, runOptions);
+        return { violations: [] };
+    }
+}
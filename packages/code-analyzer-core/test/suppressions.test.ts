@@ -0,0 +1,230 @@
+import {
+    CodeAnalyzer,
+    CodeAnalyzerConfig,
+    EventType,
+    LogEvent,
+    LogLevel,
+    RuleSelection,
+    RunResults,
+    SeverityLevel,
+    SuppressedViolation,
+    Violation
+} from "../src";
+import * as stubs from "./stubs";
+import {changeWorkingDirectoryToPackageRoot, createViolation} from "./test-helpers";
+import {getMessage} from "../src/messages";
+import * as engApi from "@salesforce/code-analyzer-engine-api";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+changeWorkingDirectoryToPackageRoot();
+
+describe("Tests for inline suppression markers", () => {
+    const sampleSuppressionsFolder: string = path.resolve('test', 'test-data', 'sampleSuppressions');
+    const sampleClassFile: string = path.join(sampleSuppressionsFolder, 'SomeClass.cls');
+    const samplePageFile: string = path.join(sampleSuppressionsFolder, 'somePage.page');
+    const sampleScriptFile: string = path.join(sampleSuppressionsFolder, 'someScript.py');
+    let codeAnalyzer: CodeAnalyzer;
+    let stubPlugin: stubs.StubEnginePlugin;
+    let stubEngine1: stubs.StubEngine1;
+    let selection: RuleSelection;
+
+    beforeEach(async () => {
+        codeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.withDefaults());
+        stubPlugin = new stubs.StubEnginePlugin();
+        await codeAnalyzer.addEnginePlugin(stubPlugin);
+        stubEngine1 = stubPlugin.getCreatedEngine('stubEngine1') as stubs.StubEngine1;
+        selection = await codeAnalyzer.selectRules(['stubEngine1']);
+    });
+
+    async function runWithViolations(violations: engApi.Violation[]): Promise<RunResults> {
+        stubEngine1.resultsToReturn = {violations: violations};
+        return codeAnalyzer.run(selection, {workspace: await codeAnalyzer.createWorkspace([sampleSuppressionsFolder])});
+    }
+
+    function toRuleAndLine(violation: Violation): string {
+        return `${violation.getRule().getName()}:${violation.getCodeLocations()[violation.getPrimaryLocationIndex()].getStartLine()}`;
+    }
+
+    function toRuleLineAndJustification(suppressedViolation: SuppressedViolation): string {
+        return `${toRuleAndLine(suppressedViolation.getViolation())}:${suppressedViolation.getJustification()}`;
+    }
+
+    it("When a marker comes after code, then it suppresses the selected rules on the same line only", async () => {
+        const runResults: RunResults = await runWithViolations([
+            createViolation('stub1RuleA', sampleClassFile, 3),
+            createViolation('stub1RuleB', sampleClassFile, 3),
+            createViolation('stub1RuleA', sampleClassFile, 4)
+        ]);
+
+        expect(runResults.getViolations().map(toRuleAndLine)).toEqual(['stub1RuleB:3', 'stub1RuleA:4']);
+        expect(runResults.getSuppressedViolations().map(toRuleLineAndJustification)).toEqual([
+            'stub1RuleA:3:Inserting a single record is intended']);
+    });
+
+    it("When a marker is on its own line, then it suppresses the selected rules on the next line", async () => {
+        const runResults: RunResults = await runWithViolations([
+            createViolation('stub1RuleA', sampleClassFile, 5),
+            createViolation('stub1RuleA', sampleClassFile, 6),
+            createViolation('stub1RuleB', sampleClassFile, 6),
+            createViolation('stub1RuleD', sampleClassFile, 6)
+        ]);
+
+        expect(runResults.getViolations().map(toRuleAndLine)).toEqual(['stub1RuleA:5', 'stub1RuleD:6']);
+        expect(runResults.getSuppressedViolations().map(toRuleLineAndJustification)).toEqual([
+            'stub1RuleA:6:', 'stub1RuleB:6:']);
+    });
+
+    it("When next-line markers are stacked, then they all apply to the first line after them", async () => {
+        const runResults: RunResults = await runWithViolations([
+            createViolation('stub1RuleA', sampleClassFile, 9),
+            createViolation('stub1RuleB', sampleClassFile, 9),
+            createViolation('stub1RuleB', sampleClassFile, 8)
+        ]);
+
+        expect(runResults.getViolations().map(toRuleAndLine)).toEqual(['stub1RuleA:9', 'stub1RuleB:8']);
+        expect(runResults.getSuppressedViolations().map(toRuleLineAndJustification)).toEqual([
+            'stub1RuleB:9:The next line is stacked below another marker']);
+    });
+
+    it("When a marker does not have any rule selectors, then it suppresses all rules", async () => {
+        const runResults: RunResults = await runWithViolations([
+            createViolation('stub1RuleA', sampleClassFile, 10),
+            createViolation('stub1RuleE', sampleClassFile, 10)
+        ]);
+
+        expect(runResults.getViolations()).toEqual([]);
+        expect(runResults.getSuppressedViolations().map(toRuleLineAndJustification)).toEqual([
+            'stub1RuleA:10:Suppresses all rules on this line', 'stub1RuleE:10:Suppresses all rules on this line']);
+    });
+
+    it("When a file-level marker exists, then it suppresses the selected rules anywhere in the file", async () => {
+        const runResults: RunResults = await runWithViolations([
+            createViolation('stub1RuleC', sampleClassFile, 2),
+            createViolation('stub1RuleC', sampleClassFile, 12),
+            createViolation('stub1RuleC', samplePageFile, 3)
+        ]);
+
+        expect(runResults.getViolations().map(toRuleAndLine)).toEqual(['stub1RuleC:3']);
+        expect(runResults.getSuppressedViolations().map(toRuleLineAndJustification)).toEqual([
+            'stub1RuleC:2:Performance is not a concern in this class', 'stub1RuleC:12:Performance is not a concern in this class']);
+    });
+
+    it("When markers use comment syntaxes, then only the comment syntax of the file's language is honored", async () => {
+        const runResults: RunResults = await runWithViolations([
+            createViolation('stub1RuleA', samplePageFile, 3),
+            createViolation('stub1RuleA', samplePageFile, 4),
+            createViolation('stub1RuleA', sampleScriptFile, 1),
+            createViolation('stub1RuleA', sampleScriptFile, 2)
+        ]);
+
+        expect(runResults.getViolations().map(toRuleAndLine)).toEqual(['stub1RuleA:4', 'stub1RuleA:2']);
+        expect(runResults.getSuppressedViolations().map(toRuleLineAndJustification)).toEqual([
+            'stub1RuleA:3:Legacy markup that will be removed', 'stub1RuleA:1:Hash comment']);
+    });
+
+    it("When markers use rule selector expressions, then they are honored and malformed selectors do not suppress anything", async () => {
+        const runResults: RunResults = await runWithViolations([
+            createViolation('stub1RuleA', sampleScriptFile, 3),
+            createViolation('stub1RuleB', sampleScriptFile, 3),
+            createViolation('stub1RuleD', sampleScriptFile, 3),
+            createViolation('stub1RuleA', sampleScriptFile, 4)
+        ]);
+
+        expect(runResults.getViolations().map(toRuleAndLine)).toEqual(['stub1RuleB:3', 'stub1RuleD:3', 'stub1RuleA:4']);
+        expect(runResults.getSuppressedViolations().map(toRuleLineAndJustification)).toEqual([
+            'stub1RuleA:3:Rule selector expressions are supported']);
+    });
+
+    it("When a rule selector contains parentheses, then the whole selector within the balanced parentheses is used", async () => {
+        const runResults: RunResults = await runWithViolations([
+            createViolation('stub1RuleA', sampleScriptFile, 5),
+            createViolation('stub1RuleB', sampleScriptFile, 5),
+            createViolation('stub1RuleD', sampleScriptFile, 5)
+        ]);
+
+        expect(runResults.getViolations().map(toRuleAndLine)).toEqual(['stub1RuleA:5', 'stub1RuleD:5']);
+        expect(runResults.getSuppressedViolations().map(toRuleLineAndJustification)).toEqual([
+            'stub1RuleB:5:Parentheses within rule selectors are supported']);
+    });
+
+    it("When markers have malformed rule selectors or unbalanced parentheses, then a warning is emitted for each of them", async () => {
+        const warnMessages: string[] = [];
+        codeAnalyzer.onEvent(EventType.LogEvent, (event: LogEvent) => {
+            if (event.logLevel == LogLevel.Warn) {
+                warnMessages.push(event.message);
+            }
+        });
+
+        const runResults: RunResults = await runWithViolations([
+            createViolation('stub1RuleA', sampleScriptFile, 4),
+            createViolation('stub1RuleA', sampleScriptFile, 6)
+        ]);
+
+        expect(runResults.getViolations().map(toRuleAndLine)).toEqual(['stub1RuleA:4', 'stub1RuleA:6']);
+        const unbalancedSelector: string = '((stub1RuleA) Unbalanced parentheses do not suppress anything';
+        expect(warnMessages).toEqual([
+            getMessage('SuppressionMarkerHasMalformedRuleSelector', 4, sampleScriptFile, getMessage('RuleSelectorUnexpectedEnd', 'stub1RuleA:')),
+            getMessage('SuppressionMarkerHasMalformedRuleSelector', 6, sampleScriptFile,
+                getMessage('RuleSelectorUnexpectedToken', unbalancedSelector, 'Unbalanced', 15))
+        ]);
+    });
+
+    it("When there is whitespace between the marker and the rule selector, then the rule selector is still honored", async () => {
+        const runResults: RunResults = await runWithViolations([
+            createViolation('stub1RuleA', sampleScriptFile, 7),
+            createViolation('stub1RuleB', sampleScriptFile, 7)
+        ]);
+
+        expect(runResults.getViolations().map(toRuleAndLine)).toEqual(['stub1RuleB:7']);
+        expect(runResults.getSuppressedViolations().map(toRuleLineAndJustification)).toEqual([
+            'stub1RuleA:7:Whitespace before the rule selector is allowed']);
+    });
+
+    it("When violations of multiple engines are on a line with a malformed marker, then each warning is only emitted once", async () => {
+        const warnMessages: string[] = [];
+        codeAnalyzer.onEvent(EventType.LogEvent, (event: LogEvent) => {
+            if (event.logLevel == LogLevel.Warn) {
+                warnMessages.push(event.message);
+            }
+        });
+        stubEngine1.resultsToReturn = {violations: [createViolation('stub1RuleA', sampleScriptFile, 4)]};
+        const stubEngine2: stubs.StubEngine2 = stubPlugin.getCreatedEngine('stubEngine2') as stubs.StubEngine2;
+        stubEngine2.resultsToReturn = {violations: [createViolation('stub2RuleA', sampleScriptFile, 4)]};
+
+        const runResults: RunResults = await codeAnalyzer.run(await codeAnalyzer.selectRules(['stub1RuleA', 'stub2RuleA']),
+            {workspace: await codeAnalyzer.createWorkspace([sampleSuppressionsFolder])});
+
+        expect(runResults.getViolations().map(toRuleAndLine)).toEqual(['stub1RuleA:4', 'stub2RuleA:4']);
+        const unbalancedSelector: string = '((stub1RuleA) Unbalanced parentheses do not suppress anything';
+        expect(warnMessages).toEqual([
+            getMessage('SuppressionMarkerHasMalformedRuleSelector', 4, sampleScriptFile, getMessage('RuleSelectorUnexpectedEnd', 'stub1RuleA:')),
+            getMessage('SuppressionMarkerHasMalformedRuleSelector', 6, sampleScriptFile,
+                getMessage('RuleSelectorUnexpectedToken', unbalancedSelector, 'Unbalanced', 15))
+        ]);
+    });
+
+    it("When a violation is in a binary file, then the file is not searched for markers", async () => {
+        const binaryFile: string = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'suppressions-test-')), 'someArchive.zip');
+        fs.writeFileSync(binaryFile, Buffer.from('PK\0\0// code-analyzer-suppress-file\n', 'binary'));
+
+        const runResults: RunResults = await runWithViolations([createViolation('stub1RuleA', binaryFile, 1)]);
+
+        expect(runResults.getViolations().map(toRuleAndLine)).toEqual(['stub1RuleA:1']);
+        expect(runResults.getSuppressedViolations()).toEqual([]);
+    });
+
+    it("When violations are suppressed, then they are not counted but are available from the engine run results", async () => {
+        const runResults: RunResults = await runWithViolations([
+            createViolation('stub1RuleA', sampleClassFile, 3),
+            createViolation('stub1RuleA', sampleClassFile, 4)
+        ]);
+
+        expect(runResults.getViolationCount()).toEqual(1);
+        expect(runResults.getViolationCountOfSeverity(SeverityLevel.Low)).toEqual(1);
+        expect(runResults.getEngineRunResults('stubEngine1').getViolationCount()).toEqual(1);
+        expect(runResults.getEngineRunResults('stubEngine1').getSuppressedViolations()).toHaveLength(1);
+        expect(runResults.getEngineRunResults('stubEngine1').getBaselinedViolations()).toEqual([]);
+    });
+});
@@ -0,0 +1,21 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+// The log folder defaults to the temp folder, so each test file gets its own temp folder that is removed afterward.
+// Since os.tmpdir reads the real environment rather than the copy of it that jest gives each test file, we replace
+// os.tmpdir itself instead of setting the TMPDIR, TMP, and TEMP environment variables.
+const realTempFolder: string = os.tmpdir();
+const logFilesInRealTempFolder: string[] = listLogFiles(realTempFolder);
+const tempFolder: string = fs.mkdtempSync(path.join(realTempFolder, 'code-analyzer-core-test-'));
+const tmpdirSpy: jest.SpyInstance = jest.spyOn(os, 'tmpdir').mockReturnValue(tempFolder);
+
+afterAll(() => {
+    tmpdirSpy.mockRestore();
+    fs.rmSync(tempFolder, {recursive: true, force: true});
+    expect(listLogFiles(realTempFolder).filter(f => !logFilesInRealTempFolder.includes(f))).toEqual([]);
+});
+
+function listLogFiles(folder: string): string[] {
+    return fs.readdirSync(folder).filter(f => /^sfca-.*\.log$/.test(f));
+}
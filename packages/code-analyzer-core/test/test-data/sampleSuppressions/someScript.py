@@ -0,0 +1,7 @@
+x = 1  # code-analyzer-suppress(stub1RuleA) Hash comment
+y = x // 2  // code-analyzer-suppress(stub1RuleA) This is not a comment in python
+z = y  # code-analyzer-suppress(stub1RuleA:!Security, severity>=Info) Rule selector expressions are supported
+w = z  # code-analyzer-suppress(stub1RuleA:) A malformed rule selector does not suppress anything
+v = w  # code-analyzer-suppress((stub1RuleB,stub1RuleD):!Low) Parentheses within rule selectors are supported
+u = v  # code-analyzer-suppress((stub1RuleA) Unbalanced parentheses do not suppress anything
+t = u  # code-analyzer-suppress (stub1RuleA) Whitespace before the rule selector is allowed
@@ -1,6 +1,11 @@
 import process from "node:process";
+import fs from "node:fs";
+import os from "node:os";
 import path from "node:path";
 import {Clock, UniqueIdGenerator} from "../src/utils";
+import {Baseline, CodeAnalyzer, CodeAnalyzerConfig, RuleSelection, RunResults} from "../src";
+import * as stubs from "./stubs";
+import * as engApi from "@salesforce/code-analyzer-engine-api";
 
 export function changeWorkingDirectoryToPackageRoot() {
     let original_working_directory: string;
@@ -35,4 +40,72 @@ export class FixedUniqueIdGenerator implements UniqueIdGenerator {
         return "FixedId";
     }
 
-}
\ No newline at end of file
+}
+
+export function createViolation(ruleName: string, file: string, line: number, message: string = 'SomeMessage'): engApi.Violation {
+    return {
+        ruleName: ruleName,
+        message: message,
+        codeLocations: [{file: file, startLine: line, startColumn: 9, endLine: line, endColumn: 30}],
+        primaryLocationIndex: 0
+    };
+}
+
+/**
+ * Holds a CodeAnalyzer with the stub engines (where all of the rules of stubEngine1 are selected) along with a temp
+ * folder that holds a sample Apex class, so that tests can place the violations of stubEngine1 on the lines of the class.
+ */
+export class SampleClassFixture {
+    tempFolder: string = '';
+    sampleFile: string = '';
+    codeAnalyzer!: CodeAnalyzer;
+    stubEngine1!: stubs.StubEngine1;
+    selection!: RuleSelection;
+
+    async create(tempFolderPrefix: string): Promise<void> {
+        this.tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), tempFolderPrefix));
+        this.sampleFile = path.join(this.tempFolder, 'SomeClass.cls');
+        fs.writeFileSync(this.sampleFile, [
+            'public class SomeClass {',
+            '    public void doSomething() {',
+            '        insert new Account();',
+            '    }',
+            '    public void doSomethingElse() {',
+            '        insert new Account();',
+            '    }',
+            '}'].join('\n'));
+
+        this.codeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.withDefaults());
+        const stubPlugin: stubs.StubEnginePlugin = new stubs.StubEnginePlugin();
+        await this.codeAnalyzer.addEnginePlugin(stubPlugin);
+        this.stubEngine1 = stubPlugin.getCreatedEngine('stubEngine1') as stubs.StubEngine1;
+        this.selection = await this.codeAnalyzer.selectRules(['stubEngine1']);
+    }
+
+    remove(): void {
+        fs.rmSync(this.tempFolder, {recursive: true, force: true});
+    }
+
+    createViolation(ruleName: string, line: number, message: string = 'SomeMessage'): engApi.Violation {
+        return createViolation(ruleName, this.sampleFile, line, message);
+    }
+
+    async runWithViolations(violations: engApi.Violation[], baseline?: Baseline): Promise<RunResults> {
+        this.stubEngine1.resultsToReturn = {violations: violations};
+        return this.codeAnalyzer.run(this.selection, {workspace: await this.codeAnalyzer.createWorkspace([this.tempFolder]), baseline: baseline});
+    }
+}
+
+/**
+ * Registers hooks that create the sample class fixture before each test and remove its temp folder after each test.
+ */
+export function setUpSampleClassFixture(tempFolderPrefix: string): SampleClassFixture {
+    const fixture: SampleClassFixture = new SampleClassFixture();
+    beforeEach(async () => {
+        await fixture.create(tempFolderPrefix);
+    });
+    afterEach(() => {
+        fixture.remove();
+    });
+    return fixture;
+}
@@ -1,7 +1,11 @@
 import {changeWorkingDirectoryToPackageRoot} from "./test-helpers";
 import {getMessage} from "../src/messages";
 import {toAbsolutePath} from "../src/utils";
-import {CodeAnalyzer, CodeAnalyzerConfig, Workspace} from "../src";
+import {CodeAnalyzer, CodeAnalyzerConfig, Workspace, WorkspaceShard} from "../src";
+import * as engApi from "@salesforce/code-analyzer-engine-api";
+import * as stubs from "./stubs";
+import fs from "node:fs";
+import os from "node:os";
 import path from "node:path";
 
 changeWorkingDirectoryToPackageRoot();
@@ -53,4 +57,263 @@ describe("Tests for the createWorkspace method of CodeAnalyzer", () => {
             path.resolve('test', 'test-data', 'sampleWorkspace', 'sub1', 'sub3', 'someFileInSub3.txt'),
         ]);
     })
-});
\ No newline at end of file
+});
+
+describe("Tests for include and exclude patterns in workspaces", () => {
+    const sampleWorkspaceFolder: string = path.resolve('test', 'test-data', 'sampleWorkspace');
+
+    function createCodeAnalyzer(workspaceConfig: object): CodeAnalyzer {
+        return new CodeAnalyzer(CodeAnalyzerConfig.fromObject({config_root: sampleWorkspaceFolder, workspace: workspaceConfig}));
+    }
+
+    it("When include patterns are specified, then getExpandedFiles only returns the files that match them", async () => {
+        const codeAnalyzer: CodeAnalyzer = createCodeAnalyzer({include: ['sub1/sub2/*.txt', 'someFile.txt']});
+        const workspace: Workspace = await codeAnalyzer.createWorkspace([sampleWorkspaceFolder]);
+        expect(await workspace.getExpandedFiles()).toEqual([
+            path.join(sampleWorkspaceFolder, 'someFile.txt'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'sub2', 'someFile1InSub2.txt'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'sub2', 'someFile2InSub2.txt')
+        ]);
+    });
+
+    it("When exclude patterns are specified, then they take precedence over the include patterns", async () => {
+        const codeAnalyzer: CodeAnalyzer = createCodeAnalyzer({include: ['sub1/**'], exclude: ['**/sub2/**', '**/*InSub3.txt']});
+        const workspace: Workspace = await codeAnalyzer.createWorkspace([sampleWorkspaceFolder]);
+        expect(await workspace.getExpandedFiles()).toEqual([
+            path.join(sampleWorkspaceFolder, 'sub1', 'someFileInSub1.txt')
+        ]);
+    });
+
+    it("When exclude patterns are specified, then they are applied in addition to the default exclude patterns", async () => {
+        const codeAnalyzer: CodeAnalyzer = createCodeAnalyzer({exclude: ['sub1/**']});
+        const workspace: Workspace = await codeAnalyzer.createWorkspace([sampleWorkspaceFolder]);
+        expect(await workspace.getExpandedFiles()).toEqual([
+            path.join(sampleWorkspaceFolder, 'someFile.txt')
+        ]);
+    });
+
+    it("When use_default_excludes is false, then the default exclude patterns are no longer applied", async () => {
+        const codeAnalyzer: CodeAnalyzer = createCodeAnalyzer({exclude: ['sub1/**'], use_default_excludes: false});
+        const workspace: Workspace = await codeAnalyzer.createWorkspace([sampleWorkspaceFolder]);
+        expect(await workspace.getExpandedFiles()).toEqual([
+            path.join(sampleWorkspaceFolder, '.gitignore'),
+            path.join(sampleWorkspaceFolder, 'node_modules', 'place_holder.txt'),
+            path.join(sampleWorkspaceFolder, 'someFile.txt')
+        ]);
+    });
+
+    it("When including files and folders that do not match the include and exclude patterns, then they are removed from getFilesAndFolders", async () => {
+        const codeAnalyzer: CodeAnalyzer = createCodeAnalyzer({include: ['**/*InSub*.txt'], exclude: ['sub1/sub3/**']});
+        const workspace: Workspace = await codeAnalyzer.createWorkspace([
+            path.join(sampleWorkspaceFolder, 'someFile.txt'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'someFileInSub1.txt'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'sub2'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'sub3')
+        ]);
+        expect(workspace.getFilesAndFolders()).toEqual([
+            path.join(sampleWorkspaceFolder, 'sub1', 'someFileInSub1.txt'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'sub2')
+        ]);
+    });
+
+    it("When files are not underneath the config root, then patterns starting with ** still apply to them", async () => {
+        const codeAnalyzer: CodeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromObject({
+            config_root: path.join(sampleWorkspaceFolder, 'sub1', 'sub2'), workspace: {exclude: ['**/sub3/**']}}));
+        const workspace: Workspace = await codeAnalyzer.createWorkspace([sampleWorkspaceFolder]);
+        expect(await workspace.getExpandedFiles()).toEqual([
+            path.join(sampleWorkspaceFolder, 'someFile.txt'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'someFileInSub1.txt'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'sub2', 'someFile1InSub2.txt'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'sub2', 'someFile2InSub2.txt')
+        ]);
+    });
+});
+
+describe("Tests for ignore files in workspaces", () => {
+    const sampleWorkspaceFolder: string = path.resolve('test', 'test-data', 'sampleWorkspaceWithIgnoreFiles');
+    let codeAnalyzer: CodeAnalyzer;
+
+    beforeEach(async () => {
+        codeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.withDefaults());
+    });
+
+    it("When calling getExpandedFiles, then files ignored by .code_analyzer_ignore files are skipped while negated and nested patterns are honored", async () => {
+        const workspace: Workspace = await codeAnalyzer.createWorkspace([sampleWorkspaceFolder]);
+        expect(await workspace.getExpandedFiles()).toEqual([
+            path.join(sampleWorkspaceFolder, 'keep.txt'),
+            path.join(sampleWorkspaceFolder, 'someFile.cls'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'reincluded.txt'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'someFile.cls'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'sub2', 'someFile.cls')
+        ]);
+    });
+
+    it("When including files and folders that are ignored by .code_analyzer_ignore files, then they are removed from getFilesAndFolders", async () => {
+        const workspace: Workspace = await codeAnalyzer.createWorkspace([
+            path.join(sampleWorkspaceFolder, 'someFile.txt'),
+            path.join(sampleWorkspaceFolder, 'keep.txt'),
+            path.join(sampleWorkspaceFolder, 'ignoredFolder'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'other.txt'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'reincluded.txt'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'sub2', 'someIgnored.cls'),
+            path.join(sampleWorkspaceFolder, '.code_analyzer_ignore')
+        ]);
+        expect(workspace.getFilesAndFolders()).toEqual([
+            path.join(sampleWorkspaceFolder, 'keep.txt'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'reincluded.txt')
+        ]);
+    });
+
+    it("When expanding a subfolder, then the .code_analyzer_ignore files in its parent folders up to the config root still apply", async () => {
+        const workspace: Workspace = await codeAnalyzer.createWorkspace([path.join(sampleWorkspaceFolder, 'sub1')]);
+        expect(await workspace.getExpandedFiles()).toEqual([
+            path.join(sampleWorkspaceFolder, 'sub1', 'reincluded.txt'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'someFile.cls'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'sub2', 'someFile.cls')
+        ]);
+    });
+
+    it("When the config root is underneath the folder containing an ignore file, then that ignore file does not apply to subfolders", async () => {
+        codeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromObject({config_root: path.join(sampleWorkspaceFolder, 'sub1')}));
+        const workspace: Workspace = await codeAnalyzer.createWorkspace([path.join(sampleWorkspaceFolder, 'sub1')]);
+        expect(await workspace.getExpandedFiles()).toEqual([
+            path.join(sampleWorkspaceFolder, 'sub1', 'other.txt'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'reincluded.txt'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'someFile.cls'),
+            path.join(sampleWorkspaceFolder, 'sub1', 'sub2', 'someFile.cls')
+        ]);
+    });
+
+    describe("Tests for honoring .gitignore files", () => {
+        // Note that we create this workspace on the fly since a .gitignore file in our test data would affect this repository
+        let tempWorkspaceFolder: string;
+
+        beforeEach(() => {
+            tempWorkspaceFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'workspace-test-'));
+            fs.writeFileSync(path.join(tempWorkspaceFolder, '.gitignore'), 'gitIgnored.cls\n');
+            fs.writeFileSync(path.join(tempWorkspaceFolder, '.code_analyzer_ignore'), 'analyzerIgnored.cls\n');
+            for (const fileName of ['gitIgnored.cls', 'analyzerIgnored.cls', 'someFile.cls']) {
+                fs.writeFileSync(path.join(tempWorkspaceFolder, fileName), 'placeholder');
+            }
+        });
+
+        afterEach(() => {
+            fs.rmSync(tempWorkspaceFolder, {recursive: true, force: true});
+        });
+
+        it("When honor_gitignore is not set, then .gitignore files are not honored", async () => {
+            codeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromObject({config_root: tempWorkspaceFolder}));
+            const workspace: Workspace = await codeAnalyzer.createWorkspace([tempWorkspaceFolder]);
+            expect(await workspace.getExpandedFiles()).toEqual([
+                path.join(tempWorkspaceFolder, 'gitIgnored.cls'),
+                path.join(tempWorkspaceFolder, 'someFile.cls')
+            ]);
+        });
+
+        it("When honor_gitignore is true, then both .gitignore and .code_analyzer_ignore files are honored", async () => {
+            codeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.fromObject({config_root: tempWorkspaceFolder, workspace: {honor_gitignore: true}}));
+            const workspace: Workspace = await codeAnalyzer.createWorkspace([tempWorkspaceFolder]);
+            expect(await workspace.getExpandedFiles()).toEqual([
+                path.join(tempWorkspaceFolder, 'someFile.cls')
+            ]);
+        });
+    });
+});
+
+describe("Tests for sharding workspaces", () => {
+    let codeAnalyzer: CodeAnalyzer;
+    let tempWorkspaceFolder: string;
+
+    beforeEach(async () => {
+        codeAnalyzer = new CodeAnalyzer(CodeAnalyzerConfig.withDefaults());
+        tempWorkspaceFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'sharding-test-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempWorkspaceFolder, {recursive: true, force: true});
+    });
+
+    function createFiles(sizesByFileName: Record<string, number>): void {
+        for (const [fileName, size] of Object.entries(sizesByFileName)) {
+            fs.mkdirSync(path.dirname(path.join(tempWorkspaceFolder, fileName)), {recursive: true});
+            fs.writeFileSync(path.join(tempWorkspaceFolder, fileName), 'x'.repeat(size));
+        }
+    }
+
+    function toFileNames(files: string[]): string[] {
+        return files.map(f => path.relative(tempWorkspaceFolder, f).split(path.sep).join('/'));
+    }
+
+    it("When sharding a workspace, then each file is in exactly one shard and each shard knows all of the files", async () => {
+        createFiles({'a.cls': 10, 'b.cls': 10, 'sub/c.cls': 10, 'sub/d.cls': 10, 'e.cls': 10});
+        const workspace: Workspace = await codeAnalyzer.createWorkspace([tempWorkspaceFolder]);
+
+        const shards: WorkspaceShard[] = await codeAnalyzer.shardWorkspace(workspace, 2);
+
+        expect(shards).toHaveLength(2);
+        const shardFiles: string[][] = await Promise.all(shards.map(s => s.getExpandedFiles()));
+        expect([...shardFiles[0], ...shardFiles[1]].sort()).toEqual(await workspace.getExpandedFiles());
+        expect(shardFiles.map(f => f.length).sort()).toEqual([2, 3]);
+        for (let i = 0; i < shards.length; i++) {
+            expect(shards[i].getShardIndex()).toEqual(i);
+            expect(shards[i].getShardCount()).toEqual(2);
+            expect(shards[i].getFilesAndFolders()).toEqual(shardFiles[i]);
+            expect(await shards[i].getAllExpandedFiles()).toEqual(await workspace.getExpandedFiles());
+        }
+        expect(new Set([workspace.getWorkspaceId(), ...shards.map(s => s.getWorkspaceId())]).size).toEqual(3);
+    });
+
+    it("When running the rules on a shard, then the engines can get all of the files of the workspace from the engine API workspace", async () => {
+        createFiles({'a.cls': 10, 'b.cls': 10, 'c.cls': 10});
+        const stubPlugin: stubs.StubEnginePlugin = new stubs.StubEnginePlugin();
+        await codeAnalyzer.addEnginePlugin(stubPlugin);
+        const workspace: Workspace = await codeAnalyzer.createWorkspace([tempWorkspaceFolder]);
+        const shards: WorkspaceShard[] = await codeAnalyzer.shardWorkspace(workspace, 2);
+
+        await codeAnalyzer.run(await codeAnalyzer.selectRules(['stub1RuleA']), {workspace: shards[1]});
+
+        const stubEngine1: stubs.StubEngine1 = stubPlugin.getCreatedEngine('stubEngine1') as stubs.StubEngine1;
+        const engineWorkspace: engApi.Workspace = stubEngine1.runRulesCallHistory[0].runOptions.workspace;
+        expect(await engineWorkspace.getExpandedFiles()).toEqual(await shards[1].getExpandedFiles());
+        expect(engineWorkspace.getAllExpandedFiles).toBeDefined();
+        expect(await engineWorkspace.getAllExpandedFiles!()).toEqual(await workspace.getExpandedFiles());
+    });
+
+    it("When sharding a workspace with files of different sizes, then the shards are balanced by size", async () => {
+        createFiles({'big.cls': 10000, 'medium1.cls': 5000, 'medium2.cls': 4000, 'small1.cls': 100, 'small2.cls': 100});
+        const workspace: Workspace = await codeAnalyzer.createWorkspace([tempWorkspaceFolder]);
+
+        const shards: WorkspaceShard[] = await codeAnalyzer.shardWorkspace(workspace, 2);
+
+        expect(toFileNames(await shards[0].getExpandedFiles())).toEqual(['big.cls', 'small1.cls']);
+        expect(toFileNames(await shards[1].getExpandedFiles())).toEqual(['medium1.cls', 'medium2.cls', 'small2.cls']);
+    });
+
+    it("When sharding the same workspace multiple times, then the shards are always the same", async () => {
+        createFiles({'a.cls': 300, 'b.cls': 300, 'c.cls': 300, 'd.cls': 200, 'e.cls': 100, 'sub/f.cls': 300});
+        const workspace1: Workspace = await codeAnalyzer.createWorkspace([tempWorkspaceFolder]);
+        const workspace2: Workspace = await new CodeAnalyzer(CodeAnalyzerConfig.withDefaults()).createWorkspace([tempWorkspaceFolder]);
+
+        const shards1: WorkspaceShard[] = await codeAnalyzer.shardWorkspace(workspace1, 3);
+        const shards2: WorkspaceShard[] = await codeAnalyzer.shardWorkspace(workspace2, 3);
+
+        expect(await Promise.all(shards2.map(s => s.getExpandedFiles()))).toEqual(await Promise.all(shards1.map(s => s.getExpandedFiles())));
+        expect(toFileNames(await shards1[0].getExpandedFiles())).toEqual(['a.cls', 'sub/f.cls']);
+        expect(toFileNames(await shards1[1].getExpandedFiles())).toEqual(['b.cls', 'd.cls']);
+        expect(toFileNames(await shards1[2].getExpandedFiles())).toEqual(['c.cls', 'e.cls']);
+    });
+
+    it("When sharding a workspace into more shards than it has files, then the extra shards have no files", async () => {
+        createFiles({'a.cls': 10});
+        const workspace: Workspace = await codeAnalyzer.createWorkspace([tempWorkspaceFolder]);
+
+        const shards: WorkspaceShard[] = await codeAnalyzer.shardWorkspace(workspace, 3);
+
+        expect(await Promise.all(shards.map(s => s.getExpandedFiles()))).toEqual([[path.join(tempWorkspaceFolder, 'a.cls')], [], []]);
+    });
+
+    it.each([0, -1, 1.5, NaN])("When sharding a workspace with an invalid shard count, then error. Shard count: %s", async (shardCount: number) => {
+        const workspace: Workspace = await codeAnalyzer.createWorkspace([tempWorkspaceFolder]);
+        await expect(codeAnalyzer.shardWorkspace(workspace, shardCount)).rejects.toThrow(getMessage('InvalidShardCount', shardCount));
+    });
+});
@@ -7,6 +7,10 @@ export interface Workspace {
     getWorkspaceId(): string
     getFilesAndFolders(): string[]
     getExpandedFiles(): Promise<string[]>
+
+    // Only provided when the workspace is a shard of a larger workspace, in which case it returns all of the files of
+    // the larger workspace so that engines that need the context of the entire project can still get it
+    getAllExpandedFiles?(): Promise<string[]>
 }
 
 export type DescribeOptions = {
@@ -21,6 +25,7 @@ export type PathPoint = {
 export type RunOptions = {
     workspace: Workspace
     pathStartPoints?: PathPoint[]
+    abortSignal?: AbortSignal // Engines should stop running as soon as possible once this signal is aborted
 }
 
 export abstract class Engine {